@@ -0,0 +1,36 @@
+import React from 'react';
+import PinPrompt from './PinPrompt';
+import { Access, ROLE_LABELS } from './utils/access';
+
+interface AccessBarProps {
+    access: Access;
+    onSignIn: (pin: string) => Promise<boolean>;
+    onSignOut: () => void;
+}
+
+// Who is signed in, shown once an owner PIN is set
+const AccessBar: React.FC<AccessBarProps> = ({ access, onSignIn, onSignOut }) => {
+    if (!access.locked) return null;
+
+    return (
+        <div className="mb-4 bg-ivory/60 px-4 py-3 rounded-lg border border-primary-gold/20 shadow-sm flex flex-wrap items-center justify-between gap-3">
+            {access.user ? (
+                <>
+                    <p className="text-lg md:text-base text-text-main/90">
+                        🔓 Signed in as <span className="font-semibold">{access.user.name}</span> ({ROLE_LABELS[access.user.role]})
+                    </p>
+                    <button onClick={onSignOut} className="text-lg md:text-base font-semibold text-accent-maroon hover:underline">
+                        Sign Out
+                    </button>
+                </>
+            ) : (
+                <>
+                    <p className="text-lg md:text-base text-text-main/90">🔒 Staff mode: profit, rates and settings are locked</p>
+                    <PinPrompt label="PIN" submitLabel="Sign In" onSubmit={onSignIn} />
+                </>
+            )}
+        </div>
+    );
+};
+
+export default AccessBar;
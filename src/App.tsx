@@ -1,11 +1,50 @@
 import React, { useState } from 'react';
-import { GoldCalculator } from './Calculator';
-import { SilverCalculator } from './SilverCalculator';
+import { MetalCalculator } from './Calculator';
+import ExchangeCalculator from './ExchangeCalculator';
+import BillView from './BillView';
+import RegisterView from './RegisterView';
+import RateBoard from './RateBoard';
+import CustomersView from './CustomersView';
+import BackupView from './BackupView';
+import StaffView from './StaffView';
+import AuditView from './AuditView';
+import AccessBar from './AccessBar';
 import InstallPrompt from './InstallPrompt';
 import OfflineIndicator from './OfflineIndicator';
+import { METALS } from './utils/metals';
+import { Metal } from './utils/pricing';
+import { useAccess } from './hooks/useAccess';
+import { getCounterDisplayUrl } from './utils/display';
+
+// The tabs after the metals, in the order they are shown
+const SCREEN_TABS = [
+    { id: 'exchange', icon: '🔄', label: 'Exchange' },
+    { id: 'bill', icon: '🧾', label: 'Bill' },
+    { id: 'register', icon: '📒', label: 'Register' },
+    { id: 'customers', icon: '👥', label: 'Customers' },
+    { id: 'rates', icon: '📈', label: 'Rates' },
+    { id: 'backup', icon: '💾', label: 'Backup' },
+    { id: 'staff', icon: '🔐', label: 'Staff' },
+    { id: 'audit', icon: '📜', label: 'Audit' },
+] as const;
+
+type Tab = Metal | typeof SCREEN_TABS[number]['id'];
+
+const tabStyle = (active: boolean, color: string, textColor: string): React.CSSProperties => ({
+    padding: '1rem 3rem',
+    borderRadius: '0.5rem',
+    fontWeight: '600',
+    fontSize: '1.25rem',
+    transition: 'all 0.2s',
+    background: active ? color : 'rgba(255, 248, 231, 0.5)',
+    color: active ? textColor : 'rgba(34, 34, 34, 0.6)',
+    boxShadow: active ? '0 4px 6px -1px rgba(0, 0, 0, 0.1)' : 'none'
+});
 
 const App: React.FC = () => {
-    const [activeTab, setActiveTab] = useState<'gold' | 'silver'>('gold');
+    const [activeTab, setActiveTab] = useState<Tab>(METALS[0].id);
+    const activeMetal = METALS.find(metal => metal.id === activeTab);
+    const { access, users, signIn, signOut, addUser, removeUser, resetPin } = useAccess();
 
     return (
         <div style={{
@@ -37,6 +76,21 @@ const App: React.FC = () => {
                 }}>
                     Gold & Silver Price Calculator
                 </p>
+                {/* Opens a window to drag onto a screen facing the customer */}
+                <button
+                    onClick={() => window.open(getCounterDisplayUrl(window.location.href), 'nl-counter-display')}
+                    style={{
+                        marginTop: '0.75rem',
+                        padding: '0.25rem 1rem',
+                        borderRadius: '9999px',
+                        border: '1px solid rgba(212, 175, 55, 0.6)',
+                        color: '#D4AF37',
+                        fontSize: '0.875rem',
+                        fontWeight: '600'
+                    }}
+                >
+                    🖥️ Open Counter Display
+                </button>
             </header>
 
             {/* Calculator Container */}
@@ -54,40 +108,31 @@ const App: React.FC = () => {
                     display: 'flex',
                     gap: '0.5rem',
                     marginBottom: '1rem',
-                    justifyContent: 'center'
+                    justifyContent: 'center',
+                    flexWrap: 'wrap'
                 }}>
-                    <button
-                        onClick={() => setActiveTab('gold')}
-                        style={{
-                            padding: '1rem 3rem',
-                            borderRadius: '0.5rem',
-                            fontWeight: '600',
-                            fontSize: '1.25rem',
-                            transition: 'all 0.2s',
-                            background: activeTab === 'gold' ? '#D4AF37' : 'rgba(255, 248, 231, 0.5)',
-                            color: activeTab === 'gold' ? '#222' : 'rgba(34, 34, 34, 0.6)',
-                            boxShadow: activeTab === 'gold' ? '0 4px 6px -1px rgba(0, 0, 0, 0.1)' : 'none'
-                        }}
-                    >
-                        💛 Gold
-                    </button>
-                    <button
-                        onClick={() => setActiveTab('silver')}
-                        style={{
-                            padding: '1rem 3rem',
-                            borderRadius: '0.5rem',
-                            fontWeight: '600',
-                            fontSize: '1.25rem',
-                            transition: 'all 0.2s',
-                            background: activeTab === 'silver' ? '#9ca3af' : 'rgba(255, 248, 231, 0.5)',
-                            color: activeTab === 'silver' ? '#fff' : 'rgba(34, 34, 34, 0.6)',
-                            boxShadow: activeTab === 'silver' ? '0 4px 6px -1px rgba(0, 0, 0, 0.1)' : 'none'
-                        }}
-                    >
-                        🤍 Silver
-                    </button>
+                    {METALS.map(metal => (
+                        <button
+                            key={metal.id}
+                            onClick={() => setActiveTab(metal.id)}
+                            style={tabStyle(activeTab === metal.id, metal.tabColor, metal.tabTextColor)}
+                        >
+                            {metal.icon} {metal.name}
+                        </button>
+                    ))}
+                    {SCREEN_TABS.map(tab => (
+                        <button
+                            key={tab.id}
+                            onClick={() => setActiveTab(tab.id)}
+                            style={tabStyle(activeTab === tab.id, '#800000', '#FFF8E7')}
+                        >
+                            {tab.icon} {tab.label}
+                        </button>
+                    ))}
                 </div>
 
+                <AccessBar access={access} onSignIn={async pin => !!(await signIn(pin))} onSignOut={signOut} />
+
                 {/* Calculator Content */}
                 <div style={{
                     flex: 1,
@@ -98,7 +143,15 @@ const App: React.FC = () => {
                     display: 'flex',
                     flexDirection: 'column'
                 }}>
-                    {activeTab === 'gold' ? <GoldCalculator /> : <SilverCalculator />}
+                    {activeMetal && <MetalCalculator key={activeMetal.id} metal={activeMetal.id} access={access} />}
+                    {activeTab === 'exchange' && <ExchangeCalculator />}
+                    {activeTab === 'bill' && <BillView access={access} />}
+                    {activeTab === 'register' && <RegisterView access={access} />}
+                    {activeTab === 'customers' && <CustomersView />}
+                    {activeTab === 'rates' && <RateBoard access={access} />}
+                    {activeTab === 'backup' && <BackupView access={access} />}
+                    {activeTab === 'staff' && <StaffView access={access} users={users} onAdd={addUser} onRemove={removeUser} onChangePin={resetPin} />}
+                    {activeTab === 'audit' && <AuditView access={access} />}
                 </div>
             </div>
 
@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import AuditView from './AuditView';
+import RateBoard from './RateBoard';
+import { MetalCalculator } from './Calculator';
+import { Access, StaffUser } from './utils/access';
+import { field, fill } from './test/fields';
+
+const lakshmi: StaffUser = { id: 'user-1', name: 'Lakshmi', role: 'owner', salt: '', pinHash: '', createdAt: '' };
+const meena: StaffUser = { id: 'user-2', name: 'Meena', role: 'staff', salt: '', pinHash: '', createdAt: '' };
+const ownerAccess: Access = { role: 'owner', user: lakshmi, locked: true, checkPin: async () => null };
+const staffAccess: Access = { role: 'staff', user: meena, locked: true, checkPin: async () => null };
+
+describe('AuditView', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('records who quoted, changed wastage, saved and deleted, and filters by action', async () => {
+        const user = userEvent.setup();
+        const staffScreen = render(<MetalCalculator metal="gold" access={staffAccess} />);
+        await fill(user, 'Gold Price (per gram)', '7200');
+        await fill(user, 'Gross Weight (grams)', '10');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+        await user.click(screen.getByText('10%'));
+        await user.click(screen.getByRole('button', { name: 'Save' }));
+        staffScreen.unmount();
+
+        render(<MetalCalculator metal="gold" access={ownerAccess} />);
+        const savedList = screen.getByText('Saved Calculations').nextElementSibling as HTMLElement;
+        await within(savedList).findByText(/10g - 916/);
+        await user.click(screen.getByRole('button', { name: 'Delete saved calculation' }));
+        render(<AuditView access={ownerAccess} />);
+
+        const entries = within(await screen.findByRole('list', { name: 'Audit entries' }));
+        expect(entries.getAllByRole('listitem').map(item => item.firstChild!.firstChild!.textContent)).toEqual([
+            'Deleted', 'Saved', 'Wastage changed', 'Quote calculated',
+        ]);
+        expect(entries.getByText('Wastage changed').nextElementSibling).toHaveTextContent(/Meena · .* at 8% → 10%$/);
+        expect(entries.getByText('Deleted').nextElementSibling).toHaveTextContent(/Lakshmi · .* at 10%$/);
+
+        await user.selectOptions(field('Action'), 'saved');
+        expect(screen.getByText('Showing 1 of 4 entries')).toBeInTheDocument();
+        expect(within(screen.getByRole('list', { name: 'Audit entries' })).getByRole('listitem')).toHaveTextContent(/^Saved/);
+    });
+
+    it('logs each rate that changed on the board', async () => {
+        const user = userEvent.setup();
+        const board = render(<RateBoard access={ownerAccess} />);
+        await user.type(field('Gold 999 (24 Karat) (per gram)'), '7300');
+        await user.click(screen.getByRole('button', { name: "Save Today's Rates" }));
+        await user.click(screen.getByRole('button', { name: "Save Today's Rates" }));
+        board.unmount();
+
+        render(<AuditView access={ownerAccess} />);
+        const entries = within(await screen.findByRole('list', { name: 'Audit entries' })).getAllByRole('listitem');
+        expect(entries).toHaveLength(1);
+        expect(entries[0]).toHaveTextContent(/Rate changed.*Gold · Gold 999 \(24 Karat\).*Lakshmi · ₹7,300\.00/);
+    });
+
+    it('is only open to the owner', () => {
+        render(<AuditView access={staffAccess} />);
+        expect(screen.getByText(/Only the owner can read the audit log/)).toBeInTheDocument();
+    });
+
+    it('tells whoever is at the counter when an entry cannot be written', async () => {
+        const user = userEvent.setup();
+        const setItem = Storage.prototype.setItem;
+        vi.spyOn(Storage.prototype, 'setItem').mockImplementation(function (this: Storage, key: string, value: string) {
+            if (key === 'auditLog') throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+            setItem.call(this, key, value);
+        });
+        const alert = vi.spyOn(window, 'alert').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        render(<MetalCalculator metal="gold" access={staffAccess} />);
+        await fill(user, 'Gold Price (per gram)', '7200');
+        await fill(user, 'Gross Weight (grams)', '10');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+
+        await waitFor(() => expect(alert).toHaveBeenCalledWith(expect.stringMatching(/could not be added to the audit log/)));
+    });
+});
@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { formatCurrency, formatPercent } from './utils/format';
+import { getMetalName, METALS } from './utils/metals';
+import { Access, can, OPEN_ACCESS, ROLE_LABELS } from './utils/access';
+import { AUDIT_ACTION_LABELS, AuditAction, AuditEntry, AuditFilter, filterAuditLog } from './utils/audit';
+import { auditStore } from './utils/database';
+
+const inputClassName = 'mt-1 block w-full px-3 py-3 md:py-2 bg-white/50 border border-text-main/20 rounded-md shadow-sm focus:outline-none text-lg md:text-base';
+
+const EMPTY_FILTER: AuditFilter = { query: '', fromDate: '', toDate: '', action: 'all', metal: 'all' };
+
+// "₹7,200.00 → ₹7,300.00 at 8%", showing only what the entry recorded
+const describeChange = (entry: AuditEntry): string => {
+    const amount = entry.amount !== undefined
+        ? `${entry.previousAmount !== undefined ? `${formatCurrency(entry.previousAmount)} → ` : ''}${formatCurrency(entry.amount)}`
+        : '';
+    const percent = entry.percent !== undefined
+        ? `at ${entry.previousPercent !== undefined ? `${formatPercent(entry.previousPercent)} → ` : ''}${formatPercent(entry.percent)}`
+        : '';
+    const discount = entry.discount ? `after ${formatCurrency(entry.discount)} discount` : '';
+    const approval = entry.approvedBy !== undefined ? `approved by ${entry.approvedBy || 'the owner'}` : '';
+    return [amount, percent, discount, approval].filter(Boolean).join(' ');
+};
+
+interface AuditViewProps {
+    access?: Access;
+}
+
+const AuditView: React.FC<AuditViewProps> = ({ access = OPEN_ACCESS }) => {
+    // Read once when the tab opens; nothing on this screen adds entries. Null until the database answers
+    const [loaded, setLoaded] = useState<AuditEntry[] | null>(null);
+    const entries = loaded ?? [];
+    const [filter, setFilter] = useState<AuditFilter>(EMPTY_FILTER);
+
+    useEffect(() => {
+        let current = true;
+        auditStore.list()
+            .then(log => { if (current) setLoaded(log); })
+            .catch(error => {
+                console.error(error);
+                if (current) setLoaded([]);
+            });
+        return () => { current = false; };
+    }, []);
+
+    if (!can(access.role, 'viewAudit')) {
+        return (
+            <div className="flex-grow p-4 md:p-6 flex items-center justify-center">
+                <p className="text-center text-lg md:text-base text-text-main/70">Only the owner can read the audit log. Sign in with the owner PIN above.</p>
+            </div>
+        );
+    }
+
+    const visibleEntries = filterAuditLog(entries, filter);
+    const updateFilter = (changes: Partial<AuditFilter>) => setFilter(prev => ({ ...prev, ...changes }));
+
+    return (
+        <div className="flex-grow p-4 md:p-6 flex flex-col gap-4 overflow-y-auto">
+            <div className="flex justify-between items-center">
+                <h3 className="text-3xl md:text-2xl font-serif font-bold text-accent-maroon">Audit Log</h3>
+                <span className="text-lg md:text-base text-text-main/70">Showing {visibleEntries.length} of {entries.length} entries</span>
+            </div>
+
+            {/* Filters */}
+            <div className="bg-ivory/60 p-4 rounded-lg border border-primary-gold/20 shadow-sm grid grid-cols-2 md:grid-cols-5 gap-3">
+                <div className="col-span-2 md:col-span-1">
+                    <label className="block text-lg md:text-base text-text-main/90">Search</label>
+                    <input
+                        type="search"
+                        value={filter.query}
+                        onChange={e => updateFilter({ query: e.target.value })}
+                        placeholder="Staff name or item"
+                        className={inputClassName}
+                    />
+                </div>
+                <div>
+                    <label className="block text-lg md:text-base text-text-main/90">From</label>
+                    <input type="date" value={filter.fromDate} onChange={e => updateFilter({ fromDate: e.target.value })} className={inputClassName} />
+                </div>
+                <div>
+                    <label className="block text-lg md:text-base text-text-main/90">To</label>
+                    <input type="date" value={filter.toDate} onChange={e => updateFilter({ toDate: e.target.value })} className={inputClassName} />
+                </div>
+                <div>
+                    <label className="block text-lg md:text-base text-text-main/90">Action</label>
+                    <select value={filter.action} onChange={e => updateFilter({ action: e.target.value as AuditFilter['action'] })} className={inputClassName}>
+                        <option value="all">All</option>
+                        {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => (
+                            <option key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-lg md:text-base text-text-main/90">Metal</label>
+                    <select value={filter.metal} onChange={e => updateFilter({ metal: e.target.value as AuditFilter['metal'] })} className={inputClassName}>
+                        <option value="all">All</option>
+                        {METALS.map(metal => (
+                            <option key={metal.id} value={metal.id}>{metal.name}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            {/* Entries */}
+            <div className="bg-ivory/60 p-2 rounded-lg border border-primary-gold/20 shadow-sm">
+                {visibleEntries.length > 0 ? (
+                    <ul className="space-y-2" aria-label="Audit entries">
+                        {visibleEntries.map(entry => (
+                            <li key={entry.id} className="p-4 md:p-3 rounded-md bg-white/40">
+                                <p className="font-semibold text-text-main text-xl md:text-base">
+                                    {AUDIT_ACTION_LABELS[entry.action]}
+                                    <span className="ml-2 text-base md:text-sm font-normal text-text-main/60">
+                                        {entry.metal ? `${getMetalName(entry.metal)} · ` : ''}{entry.description}
+                                    </span>
+                                </p>
+                                <p className="text-lg md:text-sm text-text-main/70">
+                                    {new Date(entry.createdAt).toLocaleString('en-IN')}
+                                    {` · ${entry.userName || ROLE_LABELS[entry.role]}`}
+                                    {describeChange(entry) && ` · ${describeChange(entry)}`}
+                                </p>
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="text-center text-sm text-text-main/60 p-4">
+                        {loaded === null
+                            ? 'Loading the audit log…'
+                            : entries.length > 0 ? 'No entries match these filters.' : 'Nothing recorded yet. Quotes, saves, deletions and rate changes show up here.'}
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default AuditView;
@@ -0,0 +1,172 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import BackupView from './BackupView';
+import { BACKUP_FORMAT, BACKUP_VERSION } from './utils/backup';
+
+const backupFile = (contents: unknown) => new File([JSON.stringify(contents)], 'backup.json', { type: 'application/json' });
+
+const readBlob = (blob: Blob): Promise<string> => new Promise(resolve => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.readAsText(blob);
+});
+
+const auditEntry = (id: string) => ({ id, createdAt: '2026-10-18T09:00:00.000Z', action: 'saved', userName: 'Meena', role: 'staff', description: '10g - 916' });
+
+const fileInput = () => screen.getByText('Backup File').parentElement!.querySelector('input') as HTMLInputElement;
+
+describe('BackupView', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('downloads every metal\'s saves, the stored settings and the audit log', async () => {
+        window.localStorage.setItem('auditLog', JSON.stringify([auditEntry('audit-1')]));
+        window.localStorage.setItem('goldCalculatorSaves', JSON.stringify([{ id: '1', price: '7200', weight: '10', purity: '916', minPercent: '8', maxPercent: '14' }]));
+        window.localStorage.setItem('taxSettings', JSON.stringify({ enabled: false, metalRate: 3, makingRate: 5, supplyType: 'intraState' }));
+        let blob: Blob | undefined;
+        URL.createObjectURL = vi.fn((value: Blob) => { blob = value; return 'blob:backup'; });
+        URL.revokeObjectURL = vi.fn();
+        const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => { });
+        const user = userEvent.setup();
+        render(<BackupView />);
+        await user.click(screen.getByRole('button', { name: 'Download Backup' }));
+
+        expect(click).toHaveBeenCalled();
+        expect(await screen.findByText(/^Backup saved as nl-jewellers-backup-\d{4}-\d{2}-\d{2}\.json$/)).toBeInTheDocument();
+        const backup = JSON.parse(await readBlob(blob!));
+        expect(backup).toMatchObject({ format: BACKUP_FORMAT, version: BACKUP_VERSION, storage: { taxSettings: { enabled: false } } });
+        expect(backup.storage).not.toHaveProperty('auditLog');
+        expect(backup.auditLog).toEqual([auditEntry('audit-1')]);
+        expect(backup.calculations).toEqual([expect.objectContaining({ id: '1', metal: 'gold', weight: '10' })]);
+    });
+
+    it('previews a restore, then merges or replaces and reloads the app', async () => {
+        window.localStorage.setItem('auditLog', JSON.stringify([auditEntry('audit-1')]));
+        window.localStorage.setItem('customers', JSON.stringify([{ id: 'c1', name: 'Ravi' }]));
+        window.localStorage.setItem('silverCalculatorSaves', JSON.stringify([{ id: '5', price: '85', weight: '50', purity: '999', minPercent: '8', maxPercent: '14' }]));
+        const onRestored = vi.fn();
+        const user = userEvent.setup();
+        render(<BackupView onRestored={onRestored} />);
+        await user.upload(fileInput(), backupFile({
+            format: BACKUP_FORMAT, version: 1, createdAt: '2026-10-18T10:00:00.000Z',
+            storage: { customers: [{ id: 'c2', name: 'Meena' }], printLayout: 'a4', auditLog: [auditEntry('audit-2')] },
+            calculations: [{ id: '9', metal: 'gold', goldPrice: '7200', goldWeight: '12', purity: '916', minPercent: '8', maxPercent: '14' }],
+        }));
+
+        const changes = () => within(screen.getByRole('list', { name: 'Restore changes' }));
+        expect(await screen.findByText('Customers:')).toBeInTheDocument();
+        expect(changes().getByText('Customers:').nextElementSibling).toHaveTextContent('1 added');
+        expect(changes().queryByText('Silver saved calculations:')).not.toBeInTheDocument();
+
+        await user.click(screen.getByLabelText(/^Replace/));
+        expect(await changes().findByText('Silver saved calculations:')).toBeInTheDocument();
+        expect(changes().getByText('Customers:').nextElementSibling).toHaveTextContent('1 added, 1 removed');
+        // Even a replace only adds to the audit log
+        expect(changes().getByText('Audit log:').nextElementSibling).toHaveTextContent(/^1 added$/);
+        await user.click(screen.getByLabelText(/^Merge/));
+        await user.click(await screen.findByRole('button', { name: 'Restore' }));
+
+        expect(await screen.findByText('Restored from the backup of 18/10/2026. Reloading…')).toBeInTheDocument();
+        expect(onRestored).toHaveBeenCalledTimes(1);
+        expect(JSON.parse(window.localStorage.getItem('customers')!)).toEqual([{ id: 'c1', name: 'Ravi' }, { id: 'c2', name: 'Meena' }]);
+        expect(JSON.parse(window.localStorage.getItem('printLayout')!)).toBe('a4');
+        expect(JSON.parse(window.localStorage.getItem('goldCalculatorSaves')!)).toEqual([expect.objectContaining({ id: '9', price: '7200', weight: '12' })]);
+        expect(JSON.parse(window.localStorage.getItem('silverCalculatorSaves')!)).toHaveLength(1);
+        expect(JSON.parse(window.localStorage.getItem('auditLog')!)).toEqual([auditEntry('audit-1'), auditEntry('audit-2')]);
+    });
+
+    it('leaves the phone as it was and says so when the restore cannot be written', async () => {
+        window.localStorage.setItem('customers', JSON.stringify([{ id: 'c1', name: 'Ravi' }]));
+        const setItem = Storage.prototype.setItem;
+        vi.spyOn(Storage.prototype, 'setItem').mockImplementation(function (this: Storage, key: string, value: string) {
+            if (key === 'goldCalculatorSaves') throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+            setItem.call(this, key, value);
+        });
+        vi.spyOn(console, 'error').mockImplementation(() => { });
+        const onRestored = vi.fn();
+        const user = userEvent.setup();
+        render(<BackupView onRestored={onRestored} />);
+        await user.upload(fileInput(), backupFile({
+            format: BACKUP_FORMAT, version: 1, createdAt: '2026-10-18T10:00:00.000Z',
+            storage: { customers: [{ id: 'c2', name: 'Meena' }] },
+            calculations: [{ id: '9', metal: 'gold', price: '7200', weight: '12', purity: '916', minPercent: '8', maxPercent: '14' }],
+        }));
+        await user.click(await screen.findByRole('button', { name: 'Restore' }));
+
+        expect(await screen.findByText(/^The backup could not be restored/)).toBeInTheDocument();
+        expect(onRestored).not.toHaveBeenCalled();
+        expect(JSON.parse(window.localStorage.getItem('customers')!)).toEqual([{ id: 'c1', name: 'Ravi' }]);
+    });
+
+    it('says so when this phone\'s data cannot be read for the preview', async () => {
+        const getItem = Storage.prototype.getItem;
+        vi.spyOn(Storage.prototype, 'getItem').mockImplementation(function (this: Storage, key: string) {
+            if (key === 'customers') throw new DOMException('The operation is insecure.', 'SecurityError');
+            return getItem.call(this, key);
+        });
+        vi.spyOn(console, 'error').mockImplementation(() => { });
+        const user = userEvent.setup();
+        render(<BackupView />);
+        await user.upload(fileInput(), backupFile({ format: BACKUP_FORMAT, version: 1, createdAt: '2026-10-18T10:00:00.000Z', storage: {}, calculations: [] }));
+
+        expect(await screen.findByText(/^This phone's saved data could not be read/)).toBeInTheDocument();
+        expect(screen.queryByRole('button', { name: 'Restore' })).not.toBeInTheDocument();
+    });
+
+    it('refuses a file that is not a backup', async () => {
+        const user = userEvent.setup();
+        render(<BackupView />);
+        await user.upload(fileInput(), backupFile({ hello: 'world' }));
+        expect(await screen.findByText('This file is not an NL Jewellers backup')).toBeInTheDocument();
+        expect(screen.queryByRole('button', { name: 'Restore' })).not.toBeInTheDocument();
+    });
+
+    it('exports saved calculations as CSV', async () => {
+        window.localStorage.setItem('goldCalculatorSaves', JSON.stringify([{ id: '1', price: '7200', weight: '10', purity: '916', minPercent: '8', maxPercent: '14', selectedPercent: 10 }]));
+        let blob: Blob | undefined;
+        URL.createObjectURL = vi.fn((value: Blob) => { blob = value; return 'blob:export'; });
+        URL.revokeObjectURL = vi.fn();
+        vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => { });
+        const user = userEvent.setup();
+        render(<BackupView />);
+        await user.click(screen.getByRole('button', { name: 'Export CSV' }));
+
+        expect(await screen.findByText(/^1 calculation exported to nl-jewellers-calculations-\d{4}-\d{2}-\d{2}\.csv$/)).toBeInTheDocument();
+        const lines = (await readBlob(blob!)).split('\r\n');
+        expect(lines).toHaveLength(3);
+        expect(lines[1]).toMatch(/,Gold,,7200,10g,10,10,.*,10,66240,7200,1\.087,0,0,73440$/);
+    });
+
+    it('exports the register as a CSV of its own', async () => {
+        window.localStorage.setItem('goldCalculatorSaves', JSON.stringify([{ id: '1', price: '7200', weight: '10', purity: '916', minPercent: '8', maxPercent: '14' }]));
+        window.localStorage.setItem('estimateRegister', JSON.stringify([{
+            id: 'estimate-2026-27-1', kind: 'estimate', number: 'EST/2026-27/0001', sequence: 1, financialYear: '2026-27', status: 'quoted',
+            customerName: '=Ravi', customerPhone: '', createdAt: '2026-10-19T05:30:00.000Z', updatedAt: '',
+            snapshot: { title: 'Gold Price Breakdown', details: [], lines: [], subtotal: 74160, taxLines: [], total: 74160 },
+        }]));
+        const blobs: Blob[] = [];
+        URL.createObjectURL = vi.fn((value: Blob) => { blobs.push(value); return 'blob:export'; });
+        URL.revokeObjectURL = vi.fn();
+        const downloads: string[] = [];
+        vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+            downloads.push(this.download);
+        });
+        const user = userEvent.setup();
+        render(<BackupView />);
+        await user.click(screen.getByRole('button', { name: 'Export CSV' }));
+
+        expect(await screen.findByText(/^1 calculation and 1 register record exported to .+\.csv and .+\.csv$/)).toBeInTheDocument();
+        expect(downloads).toEqual([expect.stringMatching(/^nl-jewellers-calculations-/), expect.stringMatching(/^nl-jewellers-register-/)]);
+        const lines = (await readBlob(blobs[1])).split('\r\n');
+        expect(lines[1]).toMatch(/^EST\/2026-27\/0001,2026-10-19,Estimate,'=Ravi,,74160,Quoted$/);
+    });
+
+    it('says when there is nothing to export', async () => {
+        const user = userEvent.setup();
+        render(<BackupView />);
+        await user.click(screen.getByRole('button', { name: 'Export Excel' }));
+        expect(await screen.findByText('There are no saved calculations or register records to export')).toBeInTheDocument();
+    });
+});
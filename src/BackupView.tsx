@@ -0,0 +1,242 @@
+import React, { useState } from 'react';
+import { useLocalStorage } from './hooks/useLocalStorage';
+import { Access, can, OPEN_ACCESS } from './utils/access';
+import { Customer } from './utils/customers';
+import { auditStore, listAllCalculations, replaceAllCalculations } from './utils/database';
+import { getExportFileName, getExportRows, getRegisterRows, REGISTER_COLUMNS, toCsv, toXlsx } from './utils/export';
+import { DEFAULT_PURITY_CATALOGUE, PurityCatalogue } from './utils/purity';
+import { RegisterRecord } from './utils/register';
+import { downloadFile } from './utils/share';
+import {
+    Backup,
+    BACKUP_SECTIONS,
+    createBackup,
+    getBackupFileName,
+    parseBackup,
+    planRestore,
+    readStorage,
+    RESTORE_MODE_LABELS,
+    RestoreMode,
+    RestorePlan,
+} from './utils/backup';
+
+// FileReader rather than file.text(), which older phone browsers lack
+const readFileText = (file: File): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+});
+
+interface BackupViewProps {
+    access?: Access;
+    onRestored?: () => void;    // Screens hold what they read from storage, so by default the app starts over
+}
+
+const reloadApp = () => window.location.reload();
+
+// Backups hold PIN hashes and restoring replaces settings, so both are for the owner only
+const BackupView: React.FC<BackupViewProps> = ({ access = OPEN_ACCESS, onRestored = reloadApp }) => {
+    const canManage = can(access.role, 'editSettings');
+    const [backup, setBackup] = useState<Backup | null>(null);
+    const [mode, setMode] = useState<RestoreMode>('merge');
+    const [plan, setPlan] = useState<RestorePlan | null>(null);
+    const [error, setError] = useState('');
+    const [message, setMessage] = useState('');
+    const [restored, setRestored] = useState('');
+    const [exported, setExported] = useState('');
+    const [catalogue] = useLocalStorage<PurityCatalogue>('purityCatalogue', DEFAULT_PURITY_CATALOGUE);
+    const [customers] = useLocalStorage<Customer[]>('customers', []);
+    const [register] = useLocalStorage<RegisterRecord[]>('estimateRegister', []);
+
+    const handleDownload = async () => {
+        const now = new Date();
+        const data = createBackup(readStorage(window.localStorage), await listAllCalculations(), await auditStore.list(), now);
+        const fileName = getBackupFileName(now);
+        downloadFile(fileName, new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+        setMessage(`Backup saved as ${fileName}`);
+    };
+
+    const handleExport = async (format: 'csv' | 'xlsx') => {
+        const rows = getExportRows(await listAllCalculations(), catalogue, customers);
+        const registerRows = getRegisterRows(register);
+        if (rows.length === 0 && registerRows.length === 0) {
+            setExported('There are no saved calculations or register records to export');
+            return;
+        }
+        const now = new Date();
+        // Excel takes both tables as sheets of one workbook; a CSV holds one table, so an empty one is skipped
+        const files = format === 'xlsx'
+            ? [{ name: getExportFileName(now, 'xlsx'), blob: new Blob([toXlsx(rows, registerRows)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }) }]
+            : [
+                ...(rows.length > 0 ? [{ name: getExportFileName(now, 'csv'), blob: new Blob([toCsv(rows)], { type: 'text/csv' }) }] : []),
+                ...(registerRows.length > 0 ? [{ name: getExportFileName(now, 'csv', 'register'), blob: new Blob([toCsv(registerRows, REGISTER_COLUMNS)], { type: 'text/csv' }) }] : []),
+            ];
+        files.forEach(file => downloadFile(file.name, file.blob));
+        const counts = [
+            rows.length > 0 && `${rows.length} calculation${rows.length === 1 ? '' : 's'}`,
+            registerRows.length > 0 && `${registerRows.length} register record${registerRows.length === 1 ? '' : 's'}`,
+        ].filter(Boolean);
+        setExported(`${counts.join(' and ')} exported to ${files.map(file => file.name).join(' and ')}`);
+    };
+
+    const preview = async (next: Backup, nextMode: RestoreMode) => {
+        try {
+            setPlan(planRestore(readStorage(window.localStorage), await listAllCalculations(), await auditStore.list(), next, nextMode));
+        } catch (err) {
+            console.error(err);
+            setPlan(null);
+            setError('This phone\'s saved data could not be read, so the restore cannot be previewed. Please try again.');
+        }
+    };
+
+    const handleFile = async (file: File | undefined) => {
+        setRestored('');
+        setBackup(null);
+        setPlan(null);
+        if (!file) return;
+        let text: string;
+        try {
+            text = await readFileText(file);
+        } catch (err) {
+            console.error(err);
+            setError('This file could not be opened. Please try again.');
+            return;
+        }
+        const parsed = parseBackup(text);
+        if ('error' in parsed) {
+            setError(parsed.error);
+            return;
+        }
+        setError('');
+        setBackup(parsed.backup);
+        await preview(parsed.backup, mode);
+    };
+
+    const changeMode = async (next: RestoreMode) => {
+        setMode(next);
+        if (backup) await preview(backup, next);
+    };
+
+    const handleRestore = async () => {
+        if (!backup || !plan) return;
+        // The database is the part that can fail, so it goes first; localStorage is only touched once it has the backup
+        try {
+            await replaceAllCalculations(plan.calculations);
+            await auditStore.append(plan.auditEntries);
+            for (const key of Object.keys(BACKUP_SECTIONS)) {
+                if (key in plan.storage) window.localStorage.setItem(key, JSON.stringify(plan.storage[key]));
+                else window.localStorage.removeItem(key);
+            }
+        } catch (err) {
+            console.error(err);
+            setError('The backup could not be restored. The phone may be out of storage: free up space and try again.');
+            return;
+        }
+        setError('');
+        setRestored(`Restored from the backup of ${new Date(backup.createdAt).toLocaleDateString('en-IN')}. Reloading…`);
+        setBackup(null);
+        setPlan(null);
+        // Reload before any open screen writes back what it held from before the restore
+        onRestored();
+    };
+
+    return (
+        <div className="flex-grow p-4 md:p-6 grid grid-cols-1 md:grid-cols-2 gap-6 lg:gap-8 overflow-y-auto">
+            {/* Left Column: Backup and Export */}
+            <div className="space-y-6 lg:space-y-8">
+                <div className="bg-ivory/60 p-8 rounded-lg border border-primary-gold/20 shadow-sm space-y-4">
+                    <h3 className="text-3xl md:text-2xl font-serif font-bold text-accent-maroon">Backup</h3>
+                    <p className="text-lg md:text-base text-text-main/80">
+                        Everything on this phone goes into one file: saved calculations for every metal, the register, customers, rates, the purity catalogue and settings.
+                        Keep it somewhere other than this phone.
+                    </p>
+                    {canManage ? (
+                        <button onClick={handleDownload} className="w-full bg-accent-maroon text-white font-bold py-4 md:py-3 px-4 rounded-lg hover:bg-accent-maroon/90 transition-colors text-xl md:text-lg">
+                            Download Backup
+                        </button>
+                    ) : (
+                        <p className="text-lg md:text-base font-semibold text-text-main/70">🔒 Only the owner can download a backup.</p>
+                    )}
+                    {message && <p className="text-center text-lg md:text-base font-semibold text-accent-maroon">{message}</p>}
+                </div>
+
+                <div className="bg-ivory/60 p-8 rounded-lg border border-primary-gold/20 shadow-sm space-y-4">
+                    <h3 className="text-3xl md:text-2xl font-serif font-bold text-accent-maroon">Spreadsheet Export</h3>
+                    <p className="text-lg md:text-base text-text-main/80">
+                        Saved calculations for every metal, one row each, with the rate, weight, purity, wastage and total, for checking quotes against sales.
+                        The estimate and invoice register comes too, as a second sheet or a second CSV file.
+                    </p>
+                    <div className="grid grid-cols-2 gap-4">
+                        <button onClick={() => handleExport('csv')} className="w-full bg-white/60 border border-accent-maroon text-accent-maroon font-bold py-4 md:py-3 px-4 rounded-lg hover:bg-white transition-colors text-xl md:text-lg">
+                            Export CSV
+                        </button>
+                        <button onClick={() => handleExport('xlsx')} className="w-full bg-white/60 border border-accent-maroon text-accent-maroon font-bold py-4 md:py-3 px-4 rounded-lg hover:bg-white transition-colors text-xl md:text-lg">
+                            Export Excel
+                        </button>
+                    </div>
+                    {exported && <p className="text-center text-lg md:text-base font-semibold text-accent-maroon">{exported}</p>}
+                </div>
+            </div>
+
+            {/* Right Column: Restore */}
+            <div className="bg-ivory/60 p-8 rounded-lg border border-primary-gold/20 shadow-sm space-y-4">
+                <h3 className="text-3xl md:text-2xl font-serif font-bold text-accent-maroon">Restore</h3>
+                {canManage ? (
+                    <>
+                        <div>
+                            <label className="block text-xl md:text-lg font-medium text-text-main/90">Backup File</label>
+                            <input
+                                type="file"
+                                accept="application/json,.json"
+                                onChange={e => handleFile(e.target.files?.[0])}
+                                className="mt-1 block w-full text-lg md:text-base"
+                            />
+                            {error && <p className="mt-1 text-base md:text-sm text-highlight-red">{error}</p>}
+                        </div>
+                        {restored && <p className="text-center text-lg md:text-base font-semibold text-accent-maroon">{restored}</p>}
+                        {backup && plan && (
+                            <>
+                                <p className="text-lg md:text-base text-text-main/80">Backup made on {new Date(backup.createdAt).toLocaleString('en-IN')}</p>
+                                <div className="space-y-2" role="radiogroup" aria-label="Restore mode">
+                                    {(Object.keys(RESTORE_MODE_LABELS) as RestoreMode[]).map(option => (
+                                        <label key={option} className="flex items-center gap-2 text-lg md:text-base text-text-main/90">
+                                            <input type="radio" name="restoreMode" checked={mode === option} onChange={() => changeMode(option)} className="h-5 w-5" />
+                                            {RESTORE_MODE_LABELS[option]}
+                                        </label>
+                                    ))}
+                                </div>
+                                <div className="bg-white/50 p-4 rounded-md shadow-inner border border-primary-gold/10">
+                                    <h4 className="font-semibold text-text-main mb-2 text-xl md:text-lg">What will change</h4>
+                                    {plan.changes.length > 0 ? (
+                                        <ul className="space-y-1 text-lg md:text-base" aria-label="Restore changes">
+                                            {plan.changes.map(change => (
+                                                <li key={change.label} className="flex justify-between">
+                                                    <span className="text-text-main/80">{change.label}:</span>
+                                                    <span className="font-medium text-text-main">{change.summary}</span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    ) : (
+                                        <p className="text-sm text-text-main/60">Nothing: this phone already has everything in the backup.</p>
+                                    )}
+                                </div>
+                                <button
+                                    onClick={handleRestore}
+                                    disabled={plan.changes.length === 0}
+                                    className="w-full bg-accent-maroon text-white font-bold py-4 md:py-3 px-4 rounded-lg hover:bg-accent-maroon/90 transition-colors text-xl md:text-lg disabled:opacity-50"
+                                >
+                                    Restore
+                                </button>
+                            </>
+                        )}
+                    </>
+                ) : (
+                    <p className="text-lg md:text-base font-semibold text-text-main/70">🔒 Only the owner can restore a backup.</p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default BackupView;
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import BillView from './BillView';
+import { MetalCalculator } from './Calculator';
+import { field } from './test/fields';
+
+const quote = async (user: ReturnType<typeof userEvent.setup>, priceLabel: string, price: string, weight: string) => {
+    await user.type(field(priceLabel), price);
+    await user.type(field('Gross Weight (grams)'), weight);
+    await user.click(screen.getByRole('button', { name: 'Calculate' }));
+    await user.click(screen.getByRole('button', { name: 'Add to Bill' }));
+};
+
+describe('BillView', () => {
+    it('combines quotes from both calculators into one estimate', async () => {
+        window.localStorage.setItem('taxSettings', JSON.stringify({ enabled: false, metalRate: 3, makingRate: 5, supplyType: 'intraState' }));
+        const user = userEvent.setup();
+
+        const gold = render(<MetalCalculator metal="gold" />);
+        await quote(user, 'Gold Price (per gram)', '7200', '10');
+        expect(screen.getByText('🧾 1 item in bill')).toBeInTheDocument();
+        gold.unmount();
+
+        const silver = render(<MetalCalculator metal="silver" />);
+        await quote(user, 'Silver Price (per gram)', '85', '50');
+        silver.unmount();
+
+        render(<BillView />);
+        expect(screen.getByText('1. 916 Gold · 10 g · 8% wastage')).toBeInTheDocument();
+        expect(screen.getByText('2. 999 Silver · 50 g · 8% wastage')).toBeInTheDocument();
+        expect(screen.getByText('Grand Total:').nextElementSibling).toHaveTextContent('₹76,590.00');
+
+        await user.click(screen.getByRole('button', { name: 'Show to Customer' }));
+        const summary = within(screen.getByText('🧾 Bill Summary').parentElement!.parentElement!);
+        expect(summary.getByText('Total Amount:').nextElementSibling).toHaveTextContent('₹76,590.00');
+    });
+
+    it('removes items and clears the bill', async () => {
+        const user = userEvent.setup();
+        const gold = render(<MetalCalculator metal="gold" />);
+        await quote(user, 'Gold Price (per gram)', '7200', '10');
+        await user.click(screen.getByRole('button', { name: 'Add to Bill' }));
+        gold.unmount();
+
+        render(<BillView />);
+        expect(screen.getAllByRole('button', { name: 'Remove bill item' })).toHaveLength(2);
+        await user.click(screen.getAllByRole('button', { name: 'Remove bill item' })[0]);
+        expect(screen.getAllByRole('button', { name: 'Remove bill item' })).toHaveLength(1);
+
+        await user.click(screen.getByRole('button', { name: 'Clear Bill' }));
+        expect(screen.getByText('The bill is empty.')).toBeInTheDocument();
+        expect(JSON.parse(window.localStorage.getItem('currentBill')!)).toEqual([]);
+    });
+});
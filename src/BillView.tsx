@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import { useLocalStorage } from './hooks/useLocalStorage';
+import { useCustomers } from './hooks/useCustomers';
+import { DeleteIcon } from './Icons';
+import ExchangeSummary from './ExchangeSummary';
+import { BillItem, calculateBillTotals, describeBillItem, formatBillText, getBillItemTotal, getBillSummaryLines } from './utils/bill';
+import { getMetalName } from './utils/metals';
+import { OldMetalExchange } from './utils/exchange';
+import { formatCurrency } from './utils/format';
+import { shareOnWhatsApp, shareText } from './utils/share';
+import { buildEstimateExchange, EstimateContent } from './utils/estimate';
+import RegisterPanel from './RegisterPanel';
+import CustomerDisplay from './CustomerDisplay';
+import { useCounterDisplay } from './hooks/useCounterDisplay';
+import { useAuditLog } from './hooks/useAuditLog';
+import { AuditAction } from './utils/audit';
+import { Access, OPEN_ACCESS } from './utils/access';
+
+interface BillViewProps {
+    access?: Access;
+}
+
+const BillView: React.FC<BillViewProps> = ({ access = OPEN_ACCESS }) => {
+    const [billItems, setBillItems] = useLocalStorage<BillItem[]>('currentBill', []);
+    const [activeExchange] = useLocalStorage<OldMetalExchange | null>('activeExchange', null);
+    const { activeCustomer } = useCustomers();
+    const { logEvent } = useAuditLog(access);
+    const [showCustomerView, setShowCustomerView] = useState(false); // Customer view modal
+
+    const totals = calculateBillTotals(billItems);
+    const summaryLines = getBillSummaryLines(totals);
+
+    const estimateContent: EstimateContent = {
+        title: 'Estimate',
+        details: [{ label: 'Items', value: String(billItems.length) }],
+        lines: billItems.map((item, index) => ({
+            label: `${index + 1}. ${describeBillItem(item)}`,
+            amount: item.result.total,
+        })),
+        subtotal: totals.subtotal,
+        taxLines: [
+            { label: 'CGST', amount: totals.cgst },
+            { label: 'SGST', amount: totals.sgst },
+            { label: 'IGST', amount: totals.igst },
+        ].filter(line => line.amount > 0),
+        discount: totals.discount > 0 ? totals.discount : undefined,
+        total: totals.grandTotal,
+        exchange: activeExchange ? buildEstimateExchange(activeExchange, totals.grandTotal) : undefined,
+    };
+
+    useCounterDisplay(billItems.length > 0 ? estimateContent : null);
+
+    const removeItem = (id: string) => {
+        setBillItems(prev => prev.filter(item => item.id !== id));
+    };
+
+    const logBill = (action: AuditAction) => {
+        logEvent({ action, description: `Bill of ${billItems.length} item${billItems.length === 1 ? '' : 's'}`, amount: totals.grandTotal });
+    };
+
+    const showToCustomer = () => {
+        logBill('shown');
+        setShowCustomerView(true);
+    };
+
+    const handleShare = async () => {
+        logBill('shared');
+        const text = formatBillText(billItems, activeExchange);
+        if (activeCustomer?.phone) shareOnWhatsApp(activeCustomer.phone, text);
+        else await shareText('NL Jewellers - Estimate', text);
+    };
+
+    return (
+        <div className="flex-grow p-4 md:p-6 grid grid-cols-1 md:grid-cols-2 gap-6 lg:gap-8 overflow-y-auto">
+            {/* Left Column: Items */}
+            <div className="flex flex-col">
+                <div className="flex justify-between items-center mb-2">
+                    <h3 className="text-3xl md:text-2xl font-serif font-bold text-accent-maroon">Bill Items</h3>
+                    {billItems.length > 0 && (
+                        <button onClick={() => setBillItems([])} className="text-lg md:text-base font-semibold text-highlight-red/70 hover:text-highlight-red">
+                            Clear Bill
+                        </button>
+                    )}
+                </div>
+                <div className="flex-grow bg-ivory/60 p-2 rounded-lg border border-primary-gold/20 shadow-sm overflow-y-auto">
+                    {billItems.length > 0 ? (
+                        <ul className="space-y-2">
+                            {billItems.map((item, index) => (
+                                <li key={item.id} className="group flex items-center justify-between p-4 md:p-3 rounded-md hover:bg-primary-gold/10 transition-colors">
+                                    <div className="flex-grow">
+                                        <p className="font-semibold text-text-main text-xl md:text-base">{index + 1}. {describeBillItem(item)}</p>
+                                        <p className="text-lg md:text-sm text-text-main/70">
+                                            Total: {formatCurrency(getBillItemTotal(item))}
+                                            {item.tax.totalTax > 0 && ` (incl. ${formatCurrency(item.tax.totalTax)} GST)`}
+                                        </p>
+                                    </div>
+                                    <button onClick={() => removeItem(item.id)} className="ml-2 p-1 text-highlight-red/50 hover:text-highlight-red opacity-0 group-hover:opacity-100 transition-opacity" aria-label="Remove bill item">
+                                        <DeleteIcon />
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    ) : (
+                        <p className="text-center text-sm text-text-main/60 p-4">No items yet. Use 'Add to Bill' on a metal quote.</p>
+                    )}
+                </div>
+            </div>
+
+            {/* Right Column: Totals */}
+            <div className="bg-ivory/60 p-4 rounded-lg border border-primary-gold/20 shadow-sm flex flex-col">
+                <h3 className="text-3xl md:text-2xl font-serif font-bold text-accent-maroon mb-4">Totals</h3>
+                {billItems.length > 0 ? (
+                    <div className="bg-white/50 p-4 rounded-md shadow-inner border border-primary-gold/10">
+                        <div className="space-y-2 text-xl md:text-lg">
+                            {summaryLines.map(line => (
+                                <div key={line.label} className="flex justify-between">
+                                    <span className="text-text-main/80">{line.label}:</span>
+                                    <span className="font-medium text-text-main">{formatCurrency(line.amount)}</span>
+                                </div>
+                            ))}
+                            <div className="flex justify-between font-bold text-3xl md:text-2xl border-t-2 pt-2 mt-2 border-primary-gold/30 text-accent-maroon">
+                                <span>Grand Total:</span>
+                                <span>{formatCurrency(totals.grandTotal)}</span>
+                            </div>
+                            {activeExchange && (
+                                <ExchangeSummary exchange={activeExchange} newItemTotal={totals.grandTotal} className="border-t-2 pt-2 mt-2 border-primary-gold/30" />
+                            )}
+                        </div>
+                        <button
+                            onClick={showToCustomer}
+                            className="mt-4 w-full bg-accent-maroon text-white font-bold py-4 md:py-3 px-4 rounded-lg hover:bg-accent-maroon/90 transition-colors text-xl md:text-lg"
+                        >
+                            Show to Customer
+                        </button>
+                    </div>
+                ) : (
+                    <div className="flex items-center justify-center h-full">
+                        <p className="text-center text-text-main/60 p-4">The bill is empty.</p>
+                    </div>
+                )}
+            </div>
+
+            {/* Customer View Modal */}
+            {showCustomerView && billItems.length > 0 && (
+                <CustomerDisplay
+                    access={access}
+                    subtitle="Estimate"
+                    heading="🧾 Bill Summary"
+                    headingClassName="text-accent-maroon"
+                    className="bg-ivory"
+                    onExit={() => setShowCustomerView(false)}
+                >
+                    <div className="space-y-4">
+                        {/* Items */}
+                        <div className="bg-white/50 p-5 rounded-lg border border-primary-gold/30">
+                            <h3 className="font-semibold text-accent-maroon mb-3 text-center text-lg">📦 Items</h3>
+                            <div className="space-y-3 text-base">
+                                {billItems.map((item, index) => (
+                                    <div key={item.id} className={index > 0 ? 'pt-2 border-t border-primary-gold/20' : ''}>
+                                        <div className="flex justify-between">
+                                            <span className="text-text-main/70 font-medium">{index + 1}. {describeBillItem(item)}</span>
+                                            <span className="font-semibold text-text-main">{formatCurrency(getBillItemTotal(item))}</span>
+                                        </div>
+                                        <div className="text-sm text-text-main/60 pl-4 mt-1">
+                                            Metal {formatCurrency(item.result.purityValue)} + Wastage {formatCurrency(item.result.wastageValue)}
+                                            {item.result.makingCharge > 0 && ` + Making ${formatCurrency(item.result.makingCharge)}`}
+                                            {item.result.stoneValue > 0 && ` + Stones ${formatCurrency(item.result.stoneValue)}`}
+                                            {item.tax.totalTax > 0 && ` + GST ${formatCurrency(item.tax.totalTax)}`}
+                                            {!!item.discount && ` - Discount ${formatCurrency(item.discount)}`}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* Total */}
+                        <div className="bg-gradient-to-r from-primary-gold/30 to-primary-gold/20 p-5 rounded-lg border-2 border-primary-gold/50">
+                            <div className="space-y-1 text-base mb-3 pb-3 border-b border-primary-gold/30">
+                                {summaryLines.map(line => (
+                                    <div key={line.label} className="flex justify-between">
+                                        <span className="text-text-main/70">{line.label}:</span>
+                                        <span className="font-semibold text-text-main">{formatCurrency(line.amount)}</span>
+                                    </div>
+                                ))}
+                            </div>
+                            <div className="flex justify-between items-center">
+                                <span className="font-bold text-xl text-accent-maroon">Total Amount:</span>
+                                <span className="font-bold text-2xl text-accent-maroon">{formatCurrency(totals.grandTotal)}</span>
+                            </div>
+                        </div>
+
+                        {/* Old Metal Exchange */}
+                        {activeExchange && (
+                            <div className="bg-white/50 p-5 rounded-lg border border-primary-gold/30">
+                                <h3 className="font-semibold text-accent-maroon mb-3 text-center text-lg">🔄 Old {getMetalName(activeExchange.metal)} Exchange</h3>
+                                <ExchangeSummary exchange={activeExchange} newItemTotal={totals.grandTotal} className="text-base" />
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="mt-6 space-y-3">
+                        <button
+                            onClick={handleShare}
+                            className="w-full bg-green-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center gap-2"
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
+                            </svg>
+                            {activeCustomer?.phone ? `Share to ${activeCustomer.name} on WhatsApp` : 'Share as Text'}
+                        </button>
+                        <RegisterPanel content={estimateContent} onShare={() => logBill('shared')} />
+                    </div>
+                </CustomerDisplay>
+            )}
+        </div>
+    );
+};
+
+export default BillView;
@@ -0,0 +1,626 @@
+import { describe, expect, it, vi } from 'vitest';
+import { act, fireEvent, render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MetalCalculator } from './Calculator';
+import { Access, StaffUser } from './utils/access';
+import { DisplayMessage, LONG_PRESS_MS } from './utils/display';
+import { field, fill } from './test/fields';
+
+const PRICE = 'Gold Price (per gram)';
+const WEIGHT = 'Gross Weight (grams)';
+const MIN = 'Min Wastage %';
+const MAX = 'Max Wastage %';
+
+const savedList = () => screen.getByText('Saved Calculations').nextElementSibling as HTMLElement;
+
+const meena: StaffUser = { id: 'user-1', name: 'Meena', role: 'staff', salt: '', pinHash: '', createdAt: '' };
+
+const lakshmi: StaffUser = { id: 'user-2', name: 'Lakshmi', role: 'owner', salt: '', pinHash: '', createdAt: '' };
+
+// Locked by an owner PIN, with nobody signed in; 2468 is a staff PIN and 1357 the owner's
+const staffAccess: Access = {
+    role: 'staff', user: null, locked: true,
+    checkPin: async pin => (pin === '2468' ? meena : pin === '1357' ? lakshmi : null),
+};
+
+describe('MetalCalculator for gold', () => {
+    it('lists one result per percent in the default 916 range', async () => {
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="gold" />);
+        await fill(user, PRICE, '7200');
+        await fill(user, WEIGHT, '10');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+
+        expect(screen.getByText('Details for 8% Wastage')).toBeInTheDocument();
+        for (let i = 8; i <= 14; i++) {
+            expect(screen.getByText(`${i}%`)).toBeInTheDocument();
+        }
+        expect(screen.getAllByText('₹72,000.00').length).toBeGreaterThan(0);
+        expect(screen.getByText('₹76,320.00')).toBeInTheDocument();
+    });
+
+    it('switches the wastage range when purity changes', async () => {
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="gold" />);
+        await user.selectOptions(field('Purity'), '750');
+        expect(field(MIN)).toHaveValue(10);
+        expect(field(MAX)).toHaveValue(18);
+    });
+
+    it("offers the owner's purity catalogue and prices by its fineness", async () => {
+        window.localStorage.setItem('purityCatalogue', JSON.stringify({
+            gold: [{ code: '585', name: '14 Karat', factor: 0.585, minWastage: 12, maxWastage: 20 }],
+            silver: [{ code: '999', name: 'Pure Silver', factor: 1, minWastage: 8, maxWastage: 15 }],
+        }));
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="gold" />);
+
+        expect(field('Purity')).toHaveValue('585');
+        expect(field(MIN)).toHaveValue(12);
+        await fill(user, PRICE, '7200');
+        await fill(user, WEIGHT, '10');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+        expect(screen.getByText('Purity Value:').nextElementSibling).toHaveTextContent('₹42,120.00');
+
+        await user.click(screen.getByRole('button', { name: 'Show to Customer' }));
+        expect(screen.getByText('Gold Type:').nextElementSibling).toHaveTextContent('585 (14 Karat)');
+    });
+
+    it.each([
+        ['missing price', '', '10', '8', '14', 'Invalid price'],
+        ['zero weight', '7200', '0', '8', '14', 'Invalid weight'],
+        ['negative min', '7200', '10', '-1', '14', 'Invalid %'],
+        ['min above max', '7200', '10', '15', '14', 'Max must be >= min'],
+    ])('rejects %s', async (_name, price, weight, min, max, message) => {
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="gold" />);
+        await fill(user, PRICE, price);
+        await fill(user, WEIGHT, weight);
+        await fill(user, MIN, min);
+        await fill(user, MAX, max);
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+
+        expect(screen.getByText(message)).toBeInTheDocument();
+        expect(screen.getByText("Enter parameters and click 'Calculate' to see results.")).toBeInTheDocument();
+    });
+
+    it('saves, reloads and deletes a calculation', async () => {
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="gold" />);
+        await fill(user, PRICE, '7200');
+        await fill(user, WEIGHT, '10');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+        await user.click(screen.getByRole('button', { name: /^10%/ }));
+        await user.click(screen.getByRole('button', { name: 'Save' }));
+
+        const stored = JSON.parse(window.localStorage.getItem('goldCalculatorSaves')!);
+        expect(stored).toHaveLength(1);
+        expect(stored[0]).toMatchObject({ price: '7200', weight: '10', purity: '916', minPercent: '8', maxPercent: '14', selectedPercent: 10 });
+        expect(within(savedList()).getByText('Total: ₹73,440.00')).toBeInTheDocument();
+
+        await fill(user, PRICE, '1');
+        await user.click(within(savedList()).getByText(/10g - 916/));
+        expect(field(PRICE)).toHaveValue(7200);
+        expect(screen.getByText('Details for 10% Wastage')).toBeInTheDocument();
+
+        await user.click(within(savedList()).getByRole('button', { name: 'Delete saved calculation' }));
+        expect(screen.getByText('No saved calculations yet.')).toBeInTheDocument();
+        expect(JSON.parse(window.localStorage.getItem('goldCalculatorSaves')!)).toEqual([]);
+    });
+
+    it('carries a making charge through results, saves and reloads', async () => {
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="gold" />);
+        await fill(user, PRICE, '7200');
+        await fill(user, WEIGHT, '10');
+        await user.selectOptions(field('Making Charge'), 'perGram');
+        await fill(user, 'Making (₹)', '500');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+
+        expect(screen.getAllByText('₹77,000.00').length).toBeGreaterThan(0);
+        expect(screen.getByText('Making Charges:')).toBeInTheDocument();
+
+        await user.click(screen.getByRole('button', { name: 'Save' }));
+        expect(JSON.parse(window.localStorage.getItem('goldCalculatorSaves')!)[0]).toMatchObject({ makingChargeType: 'perGram', makingCharge: '500' });
+        expect(within(savedList()).getByText('Total: ₹77,000.00')).toBeInTheDocument();
+
+        await user.selectOptions(field('Making Charge'), 'none');
+        await user.click(within(savedList()).getByText(/10g - 916/));
+        expect(field('Making Charge')).toHaveValue('perGram');
+        expect(field('Making (₹)')).toHaveValue(500);
+    });
+
+    it('rejects a missing making charge amount', async () => {
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="gold" />);
+        await fill(user, PRICE, '7200');
+        await fill(user, WEIGHT, '10');
+        await user.selectOptions(field('Making Charge'), 'flat');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+        expect(screen.getByText('Invalid amount')).toBeInTheDocument();
+    });
+
+    it('prices net weight and stones, and saves them', async () => {
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="gold" />);
+        await fill(user, PRICE, '7200');
+        await fill(user, WEIGHT, '12');
+        await fill(user, 'Stone Weight (grams)', '2');
+        expect(screen.getByText('10.000 grams')).toBeInTheDocument();
+
+        await user.click(screen.getByRole('button', { name: '+ Add Stone' }));
+        await user.type(screen.getByLabelText('Stone name'), 'Ruby');
+        await user.type(screen.getByLabelText('Stone weight'), '0.5');
+        await user.type(screen.getByLabelText('Stone price'), '4000');
+        await user.click(screen.getByRole('checkbox', { name: 'Apply GST' }));
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+
+        expect(screen.getByText('Stones:').nextElementSibling).toHaveTextContent('₹4,000.00');
+        expect(screen.getByText('Total Price:').nextElementSibling).toHaveTextContent('₹76,000.00');
+
+        await user.click(screen.getByRole('button', { name: 'Show to Customer' }));
+        const itemDetails = within(screen.getByText('📊 Item Details').parentElement!);
+        expect(itemDetails.getByText('Net Weight:').nextElementSibling).toHaveTextContent('10.000 grams');
+        const priceLines = within(screen.getByText('🧮 Price Calculation').parentElement!);
+        expect(priceLines.getByText('3. Ruby (0.5 ct):').nextElementSibling).toHaveTextContent('₹4,000.00');
+        expect(screen.getByText('Total Amount:').nextElementSibling).toHaveTextContent('₹76,000.00');
+
+        await user.click(screen.getByRole('button', { name: 'Save' }));
+        expect(JSON.parse(window.localStorage.getItem('goldCalculatorSaves')!)[0]).toMatchObject({
+            weight: '12',
+            stoneWeight: '2',
+            stones: [{ name: 'Ruby', weight: '0.5', unit: 'ct', price: '4000' }],
+        });
+        expect(within(savedList()).getByText('Total: ₹76,000.00')).toBeInTheDocument();
+    });
+
+    it('takes the weight in pavan and shows it in both units', async () => {
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="gold" />);
+        await fill(user, PRICE, '7200');
+        await user.selectOptions(field('Weight Unit'), 'pavan');
+        await fill(user, 'Gross Weight (pavan)', '2');
+        expect(screen.getByText('16.000 grams')).toBeInTheDocument();
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+
+        expect(screen.getByText('Total Price:').nextElementSibling).toHaveTextContent('₹1,15,200.00');
+        await user.click(screen.getByRole('button', { name: 'Show to Customer' }));
+        const itemDetails = within(screen.getByText('📊 Item Details').parentElement!);
+        expect(itemDetails.getByText('Total Weight:').nextElementSibling).toHaveTextContent('16 grams (2 pavan)');
+
+        await user.click(screen.getByRole('button', { name: 'Save' }));
+        expect(JSON.parse(window.localStorage.getItem('goldCalculatorSaves')!)[0]).toMatchObject({ weight: '2', weightUnit: 'pavan' });
+        expect(within(savedList()).getByText(/^2 pavan - 916/)).toBeInTheDocument();
+        expect(within(savedList()).getByText('Total: ₹1,15,200.00')).toBeInTheDocument();
+    });
+
+    it('converts between grams and traditional units', async () => {
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="gold" />);
+        await user.click(screen.getByText('Weight Converter'));
+        await fill(user, 'Convert', '1');
+        await user.selectOptions(field('From'), 'tola');
+
+        const converted = within(screen.getByRole('list', { name: 'Converted weights' }));
+        expect(converted.getByText('11.664 grams')).toBeInTheDocument();
+        expect(converted.getByText('1.458 pavan')).toBeInTheDocument();
+        expect(converted.getByText('16 ana')).toBeInTheDocument();
+    });
+
+    it('rejects a stone weight that is not below the gross weight', async () => {
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="gold" />);
+        await fill(user, PRICE, '7200');
+        await fill(user, WEIGHT, '2');
+        await fill(user, 'Stone Weight (grams)', '2');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+        expect(screen.getByText('Must be less than gross weight')).toBeInTheDocument();
+    });
+
+    it('adds GST on top of the selected total and remembers the settings', async () => {
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="gold" />);
+        await fill(user, PRICE, '7200');
+        await fill(user, WEIGHT, '10');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+
+        expect(screen.getByText('CGST (1.5%):')).toBeInTheDocument();
+        expect(screen.getByText('Total incl. GST:').nextElementSibling).toHaveTextContent('₹74,160.00');
+
+        await user.selectOptions(field('Supply Type'), 'interState');
+        expect(screen.getByText('IGST (3%):')).toBeInTheDocument();
+        expect(JSON.parse(window.localStorage.getItem('taxSettings')!)).toMatchObject({ supplyType: 'interState' });
+
+        await user.click(screen.getByRole('checkbox', { name: 'Apply GST' }));
+        expect(screen.queryByText('Total incl. GST:')).not.toBeInTheDocument();
+    });
+
+    it('keeps every save, newest first', async () => {
+        window.localStorage.setItem('goldCalculatorSaves', JSON.stringify(
+            Array.from({ length: 10 }, (_, i) => ({ id: String(i), goldPrice: '7200', goldWeight: '1', purity: '916', minPercent: '8', maxPercent: '14' })),
+        ));
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="gold" />);
+        await fill(user, PRICE, '7200');
+        await fill(user, WEIGHT, '10');
+        await user.click(screen.getByRole('button', { name: 'Save' }));
+
+        const stored = JSON.parse(window.localStorage.getItem('goldCalculatorSaves')!);
+        expect(stored).toHaveLength(11);
+        expect(stored[0].weight).toBe('10');
+        expect(within(savedList()).getAllByRole('listitem')).toHaveLength(11);
+    });
+
+    it('finds the heaviest weight a budget buys and quotes it', async () => {
+        window.localStorage.setItem('taxSettings', JSON.stringify({ enabled: true, metalRate: 3, makingRate: 5, supplyType: 'intraState' }));
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="gold" />);
+        await user.click(screen.getByRole('button', { name: 'Weight for Budget' }));
+        expect(screen.queryByText(WEIGHT)).not.toBeInTheDocument();
+        await fill(user, PRICE, '7200');
+        await fill(user, 'Customer Budget (₹)', '100000');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+
+        expect(screen.getAllByText(/^Up to/)).toHaveLength(7);
+        expect(screen.getByText('Up to 13.484 g')).toBeInTheDocument();
+        expect(screen.getByText('Price: ₹99,997.34 incl. GST')).toBeInTheDocument();
+
+        await user.click(screen.getByRole('button', { name: /^8%/ }));
+        expect(field(WEIGHT)).toHaveValue(13.484);
+        expect(screen.getByText('Details for 8% Wastage')).toBeInTheDocument();
+        expect(screen.getByText('Total incl. GST:').nextElementSibling).toHaveTextContent('₹99,997.34');
+    });
+
+    it('rejects an empty budget', async () => {
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="gold" />);
+        await user.click(screen.getByRole('button', { name: 'Weight for Budget' }));
+        await fill(user, PRICE, '7200');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+        expect(screen.getByText('Invalid budget')).toBeInTheDocument();
+    });
+
+    it('solves the wastage % behind an agreed total and flags one below the minimum', async () => {
+        window.localStorage.setItem('taxSettings', JSON.stringify({ enabled: false, metalRate: 3, makingRate: 5, supplyType: 'intraState' }));
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="gold" />);
+        await user.click(screen.getByRole('button', { name: 'Wastage for Price' }));
+        await fill(user, PRICE, '7200');
+        await fill(user, WEIGHT, '10');
+        await fill(user, 'Agreed Total (₹)', '73000');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+
+        expect(screen.getByText('Details for 9.39% Wastage')).toBeInTheDocument();
+        expect(screen.getByText('Wastage (1.021 gm):')).toBeInTheDocument();
+        expect(screen.getByText('Total Price:').nextElementSibling).toHaveTextContent('₹73,000.00');
+        expect(screen.queryByText(/minimum wastage/)).not.toBeInTheDocument();
+
+        await fill(user, 'Agreed Total (₹)', '70000');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+        expect(screen.getByText('Details for 5.22% Wastage')).toBeInTheDocument();
+        expect(screen.getByText('⚠️ Below the 8% minimum wastage')).toBeInTheDocument();
+
+        await fill(user, 'Agreed Total (₹)', '60000');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+        expect(screen.getByText('Target is below the metal value of ₹66,240.00')).toBeInTheDocument();
+        expect(screen.queryByText(/^Details for/)).not.toBeInTheDocument();
+    });
+
+    it('lists fractional wastage steps and saves and reloads a fractional selection', async () => {
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="gold" />);
+        await fill(user, PRICE, '7200');
+        await fill(user, WEIGHT, '10');
+        await fill(user, MIN, '8.5');
+        await fill(user, MAX, '10');
+        await user.selectOptions(field('Wastage Step'), '0.5');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+
+        expect(screen.getByText('Details for 8.5% Wastage')).toBeInTheDocument();
+        expect(['8.5%', '9%', '9.5%', '10%'].map(p => screen.getByText(p))).toHaveLength(4);
+        await user.click(screen.getByRole('button', { name: /^9.5%/ }));
+        await user.click(screen.getByRole('button', { name: 'Show profit margin' }));
+        expect(screen.getByText('Selected (9.5%):')).toBeInTheDocument();
+        expect(screen.getByText('Profit:').nextElementSibling).toHaveTextContent('₹720.00');
+        await user.click(screen.getByRole('button', { name: 'Save' }));
+
+        expect(JSON.parse(window.localStorage.getItem('goldCalculatorSaves')!)[0]).toMatchObject({ minPercent: '8.5', wastageStep: '0.5', selectedPercent: 9.5 });
+        await fill(user, WEIGHT, '1');
+        await user.click(within(savedList()).getByText(/Selected: 9.5%/));
+        expect(screen.getByText('Details for 9.5% Wastage')).toBeInTheDocument();
+        expect(field(WEIGHT)).toHaveValue(10);
+    });
+
+    it("shares to the open customer's WhatsApp", async () => {
+        window.localStorage.setItem('customers', JSON.stringify([{ id: 'c1', name: 'Ravi', phone: '98765 43210', address: '', notes: '', createdAt: '' }]));
+        window.localStorage.setItem('activeCustomerId', JSON.stringify('c1'));
+        const open = vi.spyOn(window, 'open').mockImplementation(() => null);
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="gold" />);
+        await fill(user, PRICE, '7200');
+        await fill(user, WEIGHT, '10');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+        await user.click(screen.getByRole('button', { name: 'Show to Customer' }));
+        await user.click(screen.getByRole('button', { name: 'Share to Ravi on WhatsApp' }));
+
+        const link = new URL(open.mock.calls[0][0] as string);
+        expect(link.origin + link.pathname).toBe('https://wa.me/919876543210');
+        expect(link.searchParams.get('text')).toContain('*GOLD PRICE BREAKDOWN*');
+        open.mockRestore();
+    });
+
+    it('lists saves made before the metals shared one calculator', async () => {
+        window.localStorage.setItem('goldCalculatorSaves', JSON.stringify([
+            { id: '1', goldPrice: '7200', goldWeight: '10', purity: '916', minPercent: '8', maxPercent: '14', selectedPercent: 10 },
+        ]));
+        render(<MetalCalculator metal="gold" />);
+        expect(await within(savedList()).findByText(/10g - 916/)).toBeInTheDocument();
+        expect(within(savedList()).getByText('Total: ₹73,440.00')).toBeInTheDocument();
+    });
+
+    it('prefills from the rate board, prices at its purity rate and flags an old board', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date(2026, 9, 19, 11));
+        window.localStorage.setItem('rateHistory', JSON.stringify([{ date: '2026-10-18', rates: { 'gold:999': 7200, 'gold:916': 6650 } }]));
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="gold" />);
+
+        expect(field(PRICE)).toHaveValue(7200);
+        expect(screen.getByText('⚠️ Rate from 18/10/2026, not today. Update the Rates tab.')).toBeInTheDocument();
+
+        await fill(user, WEIGHT, '10');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+        expect(screen.getByText('Purity Value:').nextElementSibling).toHaveTextContent('₹66,500.00');
+        expect(screen.getByText('⚠️ Quoted at the 18/10/2026 rate')).toBeInTheDocument();
+
+        await fill(user, PRICE, '7300');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+        expect(screen.getByText('Purity Value:').nextElementSibling).toHaveTextContent('₹67,160.00');
+        expect(screen.queryByText(/Quoted at the/)).not.toBeInTheDocument();
+        vi.useRealTimers();
+    });
+    it('keeps staff inside the wastage range, away from profit, GST and deletes, and asks a PIN to leave the customer view', async () => {
+        window.localStorage.setItem('goldCalculatorSaves', JSON.stringify([{ id: '1', price: '7200', weight: '10', purity: '916', minPercent: '8', maxPercent: '14' }]));
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="gold" access={staffAccess} />);
+        expect(await within(savedList()).findByText(/10g - 916/)).toBeInTheDocument();
+        expect(screen.queryByRole('button', { name: 'Delete saved calculation' })).not.toBeInTheDocument();
+        expect(screen.queryByText(/^GST/)).not.toBeInTheDocument();
+
+        await fill(user, PRICE, '7200');
+        await fill(user, WEIGHT, '10');
+        await fill(user, MIN, '5');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+        expect(screen.getByText('Staff minimum is 8%')).toBeInTheDocument();
+        expect(screen.queryByText(/^Details for/)).not.toBeInTheDocument();
+
+        await fill(user, MIN, '8');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+        expect(screen.getByText('Details for 8% Wastage')).toBeInTheDocument();
+        expect(screen.queryByRole('button', { name: 'Show profit margin' })).not.toBeInTheDocument();
+
+        await user.click(screen.getByRole('button', { name: 'Show to Customer' }));
+        const heading = screen.getByText('💰 Price Breakdown');
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+        fireEvent.pointerDown(heading);
+        act(() => vi.advanceTimersByTime(LONG_PRESS_MS));
+        vi.useRealTimers();
+        expect(heading).toBeInTheDocument();
+        await user.type(field('Staff PIN'), '1111');
+        await user.click(screen.getByRole('button', { name: 'Exit' }));
+        expect(screen.getByText('Wrong PIN')).toBeInTheDocument();
+        await user.type(field('Staff PIN'), '2468');
+        await user.click(screen.getByRole('button', { name: 'Exit' }));
+        expect(screen.queryByText('💰 Price Breakdown')).not.toBeInTheDocument();
+    });
+
+    it('keeps the rate locked for staff after loading a save whose rate was typed by hand', async () => {
+        window.localStorage.setItem('rateHistory', JSON.stringify([{ date: '2026-10-19', rates: { 'gold:999': 7200 } }]));
+        window.localStorage.setItem('goldCalculatorSaves', JSON.stringify([
+            { id: '1', price: '6900', weight: '10', purity: '916', minPercent: '8', maxPercent: '14' },
+        ]));
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="gold" access={staffAccess} />);
+        expect(field(PRICE)).toHaveAttribute('readonly');
+
+        await user.click(await within(savedList()).findByText(/10g - 916/));
+        expect(field(PRICE)).toHaveValue(6900);
+        expect(field(PRICE)).toHaveAttribute('readonly');
+        await user.type(field(PRICE), '1');
+        expect(field(PRICE)).toHaveValue(6900);
+    });
+
+    it('stops staff solving an agreed total below the minimum wastage', async () => {
+        window.localStorage.setItem('taxSettings', JSON.stringify({ enabled: false, metalRate: 3, makingRate: 5, supplyType: 'intraState' }));
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="gold" access={staffAccess} />);
+        await user.click(screen.getByRole('button', { name: 'Wastage for Price' }));
+        await fill(user, PRICE, '7200');
+        await fill(user, WEIGHT, '10');
+        await fill(user, 'Agreed Total (₹)', '70000');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+        expect(screen.getByText('Needs 5.22% wastage, below the staff minimum. Ask the owner.')).toBeInTheDocument();
+        expect(screen.queryByText(/^Details for/)).not.toBeInTheDocument();
+    });
+
+    it('holds a discount that takes the quote below the floor until the owner enters their PIN', async () => {
+        window.localStorage.setItem('purityCatalogue', JSON.stringify({
+            gold: [{ code: '916', name: '22 Karat', factor: 0.92, minWastage: 8, maxWastage: 14, floorWastage: 6 }],
+        }));
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="gold" access={staffAccess} />);
+        await fill(user, PRICE, '7200');
+        await fill(user, WEIGHT, '10');
+        await user.selectOptions(field('Discount'), 'percent');
+        await fill(user, 'Discount %', '3');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+
+        // ₹74,160.00 less 3% is ₹71,935.20, which is what 5% wastage costs
+        expect(screen.getByText('Final Total:').nextElementSibling).toHaveTextContent('₹71,935.20');
+        expect(screen.getByText(/Works out to 5% wastage, below the 6% floor/)).toBeInTheDocument();
+        expect(screen.getByRole('button', { name: 'Show to Customer' })).toBeDisabled();
+        expect(screen.getByRole('button', { name: 'Add to Bill' })).toBeDisabled();
+
+        await user.type(field('Owner PIN'), '2468');
+        await user.click(screen.getByRole('button', { name: 'Approve' }));
+        expect(screen.getByText('Wrong PIN')).toBeInTheDocument();
+        await user.type(field('Owner PIN'), '1357');
+        await user.click(screen.getByRole('button', { name: 'Approve' }));
+        expect(await screen.findByText('✅ Below the 6% floor, approved by Lakshmi')).toBeInTheDocument();
+
+        await user.click(screen.getByRole('button', { name: 'Show to Customer' }));
+        expect(screen.getByText('Less: Discount').nextElementSibling).toHaveTextContent('- ₹2,224.80');
+        expect(screen.getByText('Total Amount:').nextElementSibling).toHaveTextContent('₹71,935.20');
+        const override = JSON.parse(window.localStorage.getItem('auditLog')!).find((entry: { action: string }) => entry.action === 'floorOverride');
+        expect(override).toMatchObject({ approvedBy: 'Lakshmi', percent: 8 });
+        expect(override.discount).toBeCloseTo(2224.8, 6);
+    });
+
+    it('logs a wastage change against the discounted total it changed from', async () => {
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="gold" />);
+        await fill(user, PRICE, '7200');
+        await fill(user, WEIGHT, '10');
+        await user.selectOptions(field('Discount'), 'percent');
+        await fill(user, 'Discount %', '3');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+        await user.click(screen.getByText('10%'));
+
+        const log: Array<{ action: string; amount: number; previousAmount?: number }> = JSON.parse(window.localStorage.getItem('auditLog')!);
+        const calculated = log.find(entry => entry.action === 'calculated')!;
+        const changed = log.find(entry => entry.action === 'wastageChanged')!;
+        expect(changed.previousAmount).toBeCloseTo(calculated.amount, 6);
+        expect(changed.amount).toBeGreaterThan(calculated.amount);
+    });
+
+    it('keeps a quote below the floor off the counter display until the owner approves it', async () => {
+        window.localStorage.setItem('purityCatalogue', JSON.stringify({
+            gold: [{ code: '916', name: '22 Karat', factor: 0.92, minWastage: 8, maxWastage: 14, floorWastage: 6 }],
+        }));
+        const posted: DisplayMessage[] = [];
+        vi.stubGlobal('BroadcastChannel', class {
+            onmessage: ((event: MessageEvent) => void) | null = null;
+            postMessage(message: DisplayMessage) { posted.push(message); }
+            close() { }
+        });
+        const shown = () => posted.filter(message => message.type === 'show');
+        try {
+            const user = userEvent.setup();
+            render(<MetalCalculator metal="gold" access={staffAccess} />);
+            await fill(user, PRICE, '7200');
+            await fill(user, WEIGHT, '10');
+            await user.selectOptions(field('Discount'), 'percent');
+            await fill(user, 'Discount %', '3');
+            await user.click(screen.getByRole('button', { name: 'Calculate' }));
+
+            expect(screen.getByText(/Works out to 5% wastage, below the 6% floor/)).toBeInTheDocument();
+            expect(shown()).toEqual([]);
+
+            await user.type(field('Owner PIN'), '1357');
+            await user.click(screen.getByRole('button', { name: 'Approve' }));
+            expect(await screen.findByText('✅ Below the 6% floor, approved by Lakshmi')).toBeInTheDocument();
+            expect(shown().pop()).toMatchObject({ content: { total: expect.closeTo(71935.2, 6) } });
+        } finally {
+            vi.unstubAllGlobals();
+        }
+    });
+});
+
+const SILVER_PRICE = 'Silver Price (per gram)';
+
+describe('MetalCalculator for silver', () => {
+    it('quotes 999 silver at full purity', async () => {
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="silver" />);
+        await fill(user, SILVER_PRICE, '85');
+        await fill(user, WEIGHT, '50');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+
+        expect(screen.getByText('Details for 8% Wastage')).toBeInTheDocument();
+        expect(screen.getAllByText('₹4,590.00').length).toBeGreaterThan(0);
+        expect(screen.getByText('15%')).toBeInTheDocument();
+        expect(screen.getAllByText('₹4,887.50').length).toBeGreaterThan(0);
+    });
+
+    it('quotes 925 sterling with its own wastage range', async () => {
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="silver" />);
+        await user.selectOptions(field('Purity'), '925');
+        expect(field(MIN)).toHaveValue(12);
+        expect(field(MAX)).toHaveValue(20);
+
+        await fill(user, SILVER_PRICE, '100');
+        await fill(user, WEIGHT, '20');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+        expect(screen.getByText('Purity Value:').nextElementSibling).toHaveTextContent('₹1,850.00');
+
+        await user.click(screen.getByRole('button', { name: 'Show to Customer' }));
+        expect(screen.getByText('Silver Type:').nextElementSibling).toHaveTextContent('925 (Sterling Silver)');
+        expect(screen.getByText('92.5% Pure Silver')).toBeInTheDocument();
+    });
+
+    it('accepts a single-percent range', async () => {
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="silver" />);
+        await fill(user, SILVER_PRICE, '85');
+        await fill(user, WEIGHT, '50');
+        await fill(user, MIN, '10');
+        await fill(user, MAX, '10');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+
+        expect(screen.getAllByRole('listitem')).toHaveLength(1);
+        expect(screen.getByText('Details for 10% Wastage')).toBeInTheDocument();
+    });
+
+    it('rejects min above max', async () => {
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="silver" />);
+        await fill(user, SILVER_PRICE, '85');
+        await fill(user, WEIGHT, '50');
+        await fill(user, MIN, '20');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+
+        expect(screen.getByText('Max must be >= min')).toBeInTheDocument();
+    });
+
+    it('saves, reloads and deletes a calculation with the same total as the results', async () => {
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="silver" />);
+        await fill(user, SILVER_PRICE, '85');
+        await fill(user, WEIGHT, '50');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+        await user.click(screen.getByRole('button', { name: /^12%/ }));
+        await user.click(screen.getByRole('button', { name: 'Save' }));
+
+        const stored = JSON.parse(window.localStorage.getItem('silverCalculatorSaves')!);
+        expect(stored[0]).toMatchObject({ price: '85', weight: '50', purity: '999', selectedPercent: 12 });
+        expect(within(savedList()).getByText('Total: ₹4,760.00')).toBeInTheDocument();
+
+        await fill(user, WEIGHT, '1');
+        await user.click(within(savedList()).getByText(/50g - 999/));
+        expect(field(WEIGHT)).toHaveValue(50);
+        expect(screen.getByText('Details for 12% Wastage')).toBeInTheDocument();
+
+        await user.click(within(savedList()).getByRole('button', { name: 'Delete saved calculation' }));
+        expect(screen.getByText('No saved calculations yet.')).toBeInTheDocument();
+    });
+});
+
+describe('MetalCalculator for platinum', () => {
+    it('quotes 950 platinum by default with its own wastage range', async () => {
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="platinum" />);
+        expect(field('Purity')).toHaveValue('950');
+        expect(field(MIN)).toHaveValue(6);
+        expect(field(MAX)).toHaveValue(12);
+
+        await fill(user, 'Platinum Price (per gram)', '3200');
+        await fill(user, WEIGHT, '8');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+        expect(screen.getByText('Purity Value:').nextElementSibling).toHaveTextContent('₹24,320.00');
+
+        await user.click(screen.getByRole('button', { name: 'Show to Customer' }));
+        expect(screen.getByText('Platinum Type:').nextElementSibling).toHaveTextContent('950 (Platinum 950)');
+        expect(screen.getByText('95% Pure Platinum')).toBeInTheDocument();
+    });
+});
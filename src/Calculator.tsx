@@ -1,129 +1,164 @@
 import React, { useState, useCallback, useEffect } from 'react';
 import { useLocalStorage } from './hooks/useLocalStorage';
+import { useCustomers } from './hooks/useCustomers';
+import { useSavedCalculations } from './hooks/useSavedCalculations';
 import { DeleteIcon } from './Icons';
-import { SilverCalculator } from './SilverCalculator';
+import { calculateResult, calculateResults, getNetWeight, MAKING_CHARGE_LABELS, WASTAGE_STEPS, MakingChargeType, Metal, parseMakingCharge, parseStones, PricingInput, ResultDetail, StoneInput } from './utils/pricing';
+import { DEFAULT_PURITY_CATALOGUE, findPurity, getDefaultPurity, getPurityFactor, getPurityLabel, getPurityOptions, PurityCatalogue } from './utils/purity';
+import { describeMakingCharge, describeStone, formatCurrency, formatDateKey, formatPercent, toDateKey } from './utils/format';
+import { getMetal, getMetalName, METALS } from './utils/metals';
+import { DailyRates, getBaseRate, getLatestRates, getPurityRate, isStaleRate } from './utils/rates';
+import { BudgetResult, calculateBudgetResults, getMetalValueTotal, solveWastagePercent } from './utils/budget';
+import { calculateTax, DEFAULT_TAX_SETTINGS, getTaxLines, TaxSettings } from './utils/tax';
+import TaxSettingsPanel from './TaxSettingsPanel';
+import StonesEditor from './StonesEditor';
+import ExchangeSummary from './ExchangeSummary';
+import { formatExchangeText, OldMetalExchange } from './utils/exchange';
+import { shareOnWhatsApp, shareText } from './utils/share';
+import { BillItem } from './utils/bill';
+import { buildEstimateExchange, EstimateContent } from './utils/estimate';
+import RegisterPanel from './RegisterPanel';
+import WeightConverter from './WeightConverter';
+import { describeInUnit, fromGrams, toGrams, WEIGHT_UNITS, WeightUnit } from './utils/units';
+import { calculateTotalFromParams, CalculationParams, describeSavedWeight } from './utils/saves';
+import { Access, can, OPEN_ACCESS } from './utils/access';
+import CustomerDisplay from './CustomerDisplay';
+import PinPrompt from './PinPrompt';
+import { useCounterDisplay } from './hooks/useCounterDisplay';
+import { useAuditLog } from './hooks/useAuditLog';
+import { AuditAction, AuditDraft } from './utils/audit';
+import { calculateDiscount, DISCOUNT_LABELS, DiscountType, getEffectiveWastage, isBelowFloor, parseDiscount } from './utils/discount';
 
 interface CalculatorModalProps {
     isOpen: boolean;
     onClose: () => void;
 }
 
-interface CalculationParams {
-    id: string;
-    goldPrice: string;
-    goldWeight: string;
-    purity: '916' | '750';
-    minPercent: string;
-    maxPercent: string;
-    selectedPercent?: number;
-}
-
-interface ResultDetail {
-    percent: number;
-    wastageValue: number;
-    purityValue: number;
-    total: number;
-    wastageInGrams: number;
-}
+// Price a given weight, find the heaviest weight that fits the customer's budget,
+// or find the wastage % that an agreed total works out to
+type QuoteMode = 'weight' | 'budget' | 'target';
 
-const formatCurrency = (num: number) => num.toLocaleString("en-IN", {
-    style: 'currency',
-    currency: 'INR',
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-});
-
-// Helper function to calculate total price from saved calculation parameters
-const calculateTotalFromParams = (params: CalculationParams): number => {
-    const price = parseFloat(params.goldPrice);
-    const weight = parseFloat(params.goldWeight);
-    const purityDecimal = params.purity === '916' ? 0.92 : 0.75;
-    const percent = params.selectedPercent !== undefined ? params.selectedPercent : parseInt(params.minPercent, 10);
-
-    const wastagePercentDecimal = percent / 100;
-    const purityValue = weight * purityDecimal * price;
-    const wastageValue = weight * wastagePercentDecimal * price;
-    const total = purityValue + wastageValue;
-
-    return total;
+const QUOTE_MODE_LABELS: Record<QuoteMode, string> = {
+    weight: 'Price by Weight',
+    budget: 'Weight for Budget',
+    target: 'Wastage for Price',
 };
 
-const GoldCalculator: React.FC = () => {
-    const [goldPrice, setGoldPrice] = useState('');
-    const [goldWeight, setGoldWeight] = useState('');
-    const [purity, setPurity] = useState<'916' | '750'>('916');
-    const [minPercent, setMinPercent] = useState('8');
-    const [maxPercent, setMaxPercent] = useState('14');
-    const [errors, setErrors] = useState<Partial<Record<keyof Omit<CalculationParams, 'id' | 'purity' | 'selectedPercent'>, string>>>({});
+type FieldErrors = Partial<Record<keyof Omit<CalculationParams, 'id' | 'purity' | 'selectedPercent' | 'makingChargeType' | 'weightUnit'> | 'budget' | 'target' | 'discount', string>>;
 
+interface MetalCalculatorProps {
+    metal: Metal;
+    access?: Access;
+}
+
+const MetalCalculator: React.FC<MetalCalculatorProps> = ({ metal, access = OPEN_ACCESS }) => {
+    const definition = getMetal(metal);
+    const { theme } = definition;
+    const [rateHistory] = useLocalStorage<DailyRates[]>('rateHistory', []);
+    // Board the current rate came from; cleared as soon as the rate is edited by hand
+    const [rateSource, setRateSource] = useState<DailyRates | null>(() => {
+        const board = getLatestRates(rateHistory);
+        return getBaseRate(board, metal) !== undefined ? board : null;
+    });
+    const [metalPrice, setMetalPrice] = useState(() => String(getBaseRate(rateSource, metal) ?? ''));
+    // Once the board has a rate for this metal, only the owner may type one, whatever rate a loaded save carries
+    const rateLocked = getBaseRate(getLatestRates(rateHistory), metal) !== undefined && !can(access.role, 'editRates');
+    const [metalWeight, setMetalWeight] = useState('');
+    const [weightUnit, setWeightUnit] = useState<WeightUnit>('gram');
+    const [catalogue] = useLocalStorage<PurityCatalogue>('purityCatalogue', DEFAULT_PURITY_CATALOGUE);
+    const [purity, setPurity] = useState(() => getDefaultPurity(catalogue, metal, definition.defaultPurity));
+    const [minPercent, setMinPercent] = useState(String(definition.defaultWastage.min));
+    const [maxPercent, setMaxPercent] = useState(String(definition.defaultWastage.max));
+    const [wastageStep, setWastageStep] = useState('1');
+    const [stoneWeight, setStoneWeight] = useState('');
+    const [stones, setStones] = useState<StoneInput[]>([]);
+    const [makingChargeType, setMakingChargeType] = useState<MakingChargeType>('none');
+    const [makingCharge, setMakingCharge] = useState('');
+    const [discountType, setDiscountType] = useState<DiscountType>('none');
+    const [discountValue, setDiscountValue] = useState('');
+    // Owner sign-off for the quote that went below the floor; any change to the quote needs a new one
+    const [floorApproval, setFloorApproval] = useState<{ key: string; approvedBy: string } | null>(null);
+    const [errors, setErrors] = useState<FieldErrors>({});
+    const purityFactor = getPurityFactor(catalogue, metal, purity);
+    const purityLabel = getPurityLabel(catalogue, metal, purity);
+    const purityRate = getPurityRate(rateSource, metal, purity);
+    const rateIsStale = isStaleRate(rateSource, toDateKey(new Date()));
+    // Gross weight in grams, whichever unit it was entered in
+    const grossWeight = toGrams(parseFloat(metalWeight), weightUnit);
+
+    const [mode, setMode] = useState<QuoteMode>('weight');
+    const [budget, setBudget] = useState('');
+    const [targetTotal, setTargetTotal] = useState('');
+    const [budgetResults, setBudgetResults] = useState<BudgetResult[]>([]);
     const [results, setResults] = useState<ResultDetail[]>([]);
     const [selectedResult, setSelectedResult] = useState<ResultDetail | null>(null);
     const [showProfitMargin, setShowProfitMargin] = useState(false); // Default: hidden
     const [showCustomerView, setShowCustomerView] = useState(false); // Customer view modal
-    const [closeClickCount, setCloseClickCount] = useState(0); // Counter for 5-tap close
 
-    const [savedCalculations, setSavedCalculations] = useLocalStorage<CalculationParams[]>('goldCalculatorSaves', []);
-    const [loadRequest, setLoadRequest] = useState<CalculationParams | null>(null);
+    const { savedCalculations, saveCalculation, deleteCalculation } = useSavedCalculations(metal);
+    const [taxSettings, setTaxSettings] = useLocalStorage<TaxSettings>('taxSettings', DEFAULT_TAX_SETTINGS);
+    const [billItems, setBillItems] = useLocalStorage<BillItem[]>('currentBill', []);
+    const [activeExchange] = useLocalStorage<OldMetalExchange | null>('activeExchange', null);
+    const { customers, activeCustomer } = useCustomers();
+    const { logEvent } = useAuditLog(access);
+    const [loadRequest, setLoadRequest] = useState<Pick<CalculationParams, 'selectedPercent'> | null>(null);
+
+    // Staff quote inside the purity's wastage range from the catalogue; the owner can go outside it
+    const staffRange = can(access.role, 'editWastage') ? undefined : findPurity(catalogue, metal, purity);
 
     const validate = useCallback(() => {
-        const newErrors: Partial<Record<keyof Omit<CalculationParams, 'id' | 'purity' | 'selectedPercent'>, string>> = {};
-        if (!goldPrice || parseFloat(goldPrice) <= 0) newErrors.goldPrice = 'Invalid price';
-        if (!goldWeight || parseFloat(goldWeight) <= 0) newErrors.goldWeight = 'Invalid weight';
-        if (!minPercent || parseInt(minPercent, 10) < 0) newErrors.minPercent = 'Invalid %';
-        if (!maxPercent || parseInt(maxPercent, 10) < 0) newErrors.maxPercent = 'Invalid %';
-        if (parseInt(minPercent, 10) > parseInt(maxPercent, 10)) newErrors.maxPercent = 'Max must be >= min';
+        const newErrors: FieldErrors = {};
+        if (!metalPrice || parseFloat(metalPrice) <= 0) newErrors.price = 'Invalid price';
+        if (mode === 'budget') {
+            if (!budget || parseFloat(budget) <= 0) newErrors.budget = 'Invalid budget';
+        } else {
+            if (mode === 'target' && (!targetTotal || parseFloat(targetTotal) <= 0)) newErrors.target = 'Invalid total';
+            if (!metalWeight || parseFloat(metalWeight) <= 0) newErrors.weight = 'Invalid weight';
+            if (stoneWeight && (parseFloat(stoneWeight) < 0 || parseFloat(stoneWeight) >= grossWeight)) newErrors.stoneWeight = 'Must be less than gross weight';
+            if (stones.some(stone => !stone.price || parseFloat(stone.price) < 0)) newErrors.stones = 'Each stone needs a price';
+            if (discountType !== 'none' && (!discountValue || parseFloat(discountValue) < 0 || (discountType === 'percent' && parseFloat(discountValue) > 100))) {
+                newErrors.discount = 'Invalid discount';
+            }
+        }
+        if (!minPercent || parseFloat(minPercent) < 0) newErrors.minPercent = 'Invalid %';
+        if (!maxPercent || parseFloat(maxPercent) < 0) newErrors.maxPercent = 'Invalid %';
+        if (parseFloat(minPercent) > parseFloat(maxPercent)) newErrors.maxPercent = 'Max must be >= min';
+        if (staffRange && parseFloat(minPercent) < staffRange.minWastage) newErrors.minPercent = `Staff minimum is ${formatPercent(staffRange.minWastage)}`;
+        if (staffRange && parseFloat(maxPercent) > staffRange.maxWastage) newErrors.maxPercent = `Staff maximum is ${formatPercent(staffRange.maxWastage)}`;
+        if (makingChargeType !== 'none' && (!makingCharge || parseFloat(makingCharge) < 0)) newErrors.makingCharge = 'Invalid amount';
 
         setErrors(newErrors);
         return Object.keys(newErrors).length === 0;
-    }, [goldPrice, goldWeight, minPercent, maxPercent]);
+    }, [mode, budget, targetTotal, metalPrice, metalWeight, grossWeight, stoneWeight, stones, minPercent, maxPercent, makingChargeType, makingCharge, discountType, discountValue, staffRange]);
 
-    const calculateAndSelect = useCallback((selectedPercent?: number) => {
+    const calculateAndSelect = useCallback((selectedPercent?: number): ResultDetail | null => {
         if (!validate()) {
             setResults([]);
             setSelectedResult(null);
-            return;
+            return null;
         };
 
-        const price = parseFloat(goldPrice);
-        const weight = parseFloat(goldWeight);
-        const purityDecimal = purity === '916' ? 0.92 : 0.75;
-
-        const min = parseInt(minPercent, 10);
-        const max = parseInt(maxPercent, 10);
-        const newResults: ResultDetail[] = [];
-
-        for (let i = min; i <= max; i++) {
-            const wastagePercentDecimal = i / 100;
-            const purityValue = weight * purityDecimal * price;
-            const wastageValue = weight * wastagePercentDecimal * price;
-            const total = purityValue + wastageValue;
-
-            // As per user request: WastageInGrams = wastageValue / (pricePerGram × purity)
-            const rateOfAlloyedGold = price * purityDecimal;
-            const wastageInGrams = rateOfAlloyedGold > 0 ? wastageValue / rateOfAlloyedGold : 0;
-
-            newResults.push({ percent: i, wastageValue, purityValue, total, wastageInGrams });
-        }
+        const newResults = calculateResults(
+            { purityFactor, rate: parseFloat(metalPrice), purityRate, weight: grossWeight,
+                stoneWeight: parseFloat(stoneWeight) || 0, stones: parseStones(stones),
+                makingCharge: parseMakingCharge(makingChargeType, makingCharge) },
+            { minPercent: parseFloat(minPercent), maxPercent: parseFloat(maxPercent), step: parseFloat(wastageStep) },
+        );
         setResults(newResults);
 
-        if (selectedPercent !== undefined) {
-            const resultToSelect = newResults.find(r => r.percent === selectedPercent);
-            setSelectedResult(resultToSelect || newResults[0] || null);
-        } else {
-            setSelectedResult(newResults[0] || null);
-        }
-    }, [goldPrice, goldWeight, purity, minPercent, maxPercent, validate]);
+        const resultToSelect = (selectedPercent !== undefined && newResults.find(r => r.percent === selectedPercent)) || newResults[0] || null;
+        setSelectedResult(resultToSelect);
+        return resultToSelect;
+    }, [metalPrice, grossWeight, stoneWeight, stones, purity, minPercent, maxPercent, wastageStep, makingChargeType, makingCharge, purityFactor, purityRate, validate]);
 
-    // Auto-update wastage percentages based on purity
+    // Auto-update wastage percentages from the purity catalogue
     useEffect(() => {
-        if (purity === '916') {
-            setMinPercent('8');
-            setMaxPercent('14');
-        } else if (purity === '750') {
-            setMinPercent('10');
-            setMaxPercent('18');
+        const option = findPurity(catalogue, metal, purity);
+        if (option) {
+            setMinPercent(String(option.minWastage));
+            setMaxPercent(String(option.maxWastage));
         }
-    }, [purity]);
+    }, [catalogue, purity]);
 
     useEffect(() => {
         if (loadRequest) {
@@ -132,34 +167,265 @@ const GoldCalculator: React.FC = () => {
         }
     }, [loadRequest, calculateAndSelect]);
 
-    const handleCalculate = useCallback(() => {
-        calculateAndSelect();
-    }, [calculateAndSelect]);
+    const calculateBudget = (): boolean => {
+        if (!validate()) {
+            setBudgetResults([]);
+            return false;
+        }
+        setBudgetResults(calculateBudgetResults(
+            { purityFactor, rate: parseFloat(metalPrice), purityRate, budget: parseFloat(budget),
+                makingCharge: parseMakingCharge(makingChargeType, makingCharge) },
+            { minPercent: parseFloat(minPercent), maxPercent: parseFloat(maxPercent), step: parseFloat(wastageStep) },
+            taxSettings,
+        ));
+        return true;
+    };
+
+    // Wastage % is solved exactly rather than stepped, so the quote lands on the agreed total
+    const calculateTarget = (): ResultDetail | null => {
+        if (!validate()) {
+            setResults([]);
+            setSelectedResult(null);
+            return null;
+        }
+        const input: PricingInput = {
+            purityFactor, rate: parseFloat(metalPrice), purityRate, weight: grossWeight,
+            stoneWeight: parseFloat(stoneWeight) || 0, stones: parseStones(stones),
+            makingCharge: parseMakingCharge(makingChargeType, makingCharge),
+        };
+        // Below the metal value the total could only be reached with negative wastage
+        const metalValue = getMetalValueTotal(input, taxSettings);
+        if (parseFloat(targetTotal) < metalValue - 0.005) {
+            setErrors({ target: `Target is below the metal value of ${formatCurrency(metalValue)}` });
+            setResults([]);
+            setSelectedResult(null);
+            return null;
+        }
+        const result = calculateResult(input, solveWastagePercent(input, parseFloat(targetTotal), taxSettings));
+        if (staffRange && result.percent < staffRange.minWastage) {
+            setErrors({ target: `Needs ${formatPercent(result.percent)} wastage, below the staff minimum. Ask the owner.` });
+            setResults([]);
+            setSelectedResult(null);
+            return null;
+        }
+        setResults([result]);
+        setSelectedResult(result);
+        return result;
+    };
+
+    // Weight and purity as entered, to say which quote an audit entry is about
+    const quoteDescription = `${describeSavedWeight({ weight: metalWeight, weightUnit })} - ${purity}`;
+
+    const pricingInput: PricingInput = {
+        purityFactor, rate: parseFloat(metalPrice), purityRate, weight: grossWeight,
+        stoneWeight: parseFloat(stoneWeight) || 0, stones: parseStones(stones),
+        makingCharge: parseMakingCharge(makingChargeType, makingCharge),
+    };
+
+    // GST, then the discount off the total, and the wastage % the discounted total works out to
+    const priceQuote = (result: ResultDetail) => {
+        const tax = calculateTax(result, taxSettings);
+        const discount = calculateDiscount(parseDiscount(discountType, discountValue), tax.grandTotal);
+        const finalTotal = tax.grandTotal - discount;
+        return { tax, discount, finalTotal, effectivePercent: getEffectiveWastage(pricingInput, result.percent, finalTotal, discount, taxSettings) };
+    };
+
+    const floorWastage = findPurity(catalogue, metal, purity)?.floorWastage;
+    const selectedPrice = selectedResult ? priceQuote(selectedResult) : null;
+    const belowFloor = !!selectedPrice && isBelowFloor(selectedPrice.effectivePercent, floorWastage);
+    const approvalKey = selectedResult && selectedPrice ? `${quoteDescription}|${metalPrice}|${selectedResult.percent}|${selectedPrice.finalTotal.toFixed(2)}` : '';
+    const approvedBy = belowFloor && floorApproval?.key === approvalKey ? floorApproval.approvedBy : null;
+    const needsApproval = belowFloor && approvedBy === null;
+
+    const logQuote = (action: AuditAction, result: ResultDetail, changes: Partial<AuditDraft> = {}) => {
+        const { discount, finalTotal } = priceQuote(result);
+        logEvent({
+            action,
+            metal,
+            description: quoteDescription,
+            amount: finalTotal,
+            percent: result.percent,
+            ...(discount > 0 ? { discount } : {}),
+            ...changes,
+        });
+    };
+
+    const approveFloor = (approver: string) => {
+        if (!selectedResult || !selectedPrice) return;
+        setFloorApproval({ key: approvalKey, approvedBy: approver });
+        logQuote('floorOverride', selectedResult, { approvedBy: approver });
+    };
+
+    // A signed-in owner approves with a tap; anyone else needs an owner to enter their PIN
+    const approveWithPin = async (pin: string): Promise<boolean> => {
+        const approver = await access.checkPin(pin);
+        if (approver?.role !== 'owner') return false;
+        approveFloor(approver.name);
+        return true;
+    };
+
+    const handleCalculate = () => {
+        if (mode === 'budget') {
+            if (calculateBudget()) {
+                logEvent({ action: 'calculated', metal, description: `Budget ${formatCurrency(parseFloat(budget))} - ${purity}`, amount: parseFloat(budget) });
+            }
+            return;
+        }
+        const result = mode === 'target' ? calculateTarget() : calculateAndSelect();
+        if (result) logQuote('calculated', result);
+    };
+
+    const selectResult = (result: ResultDetail) => {
+        if (selectedResult && selectedResult.percent !== result.percent) {
+            logQuote('wastageChanged', result, { previousPercent: selectedResult.percent, previousAmount: priceQuote(selectedResult).finalTotal });
+        }
+        setSelectedResult(result);
+    };
+
+    const showToCustomer = () => {
+        if (needsApproval) return;
+        if (selectedResult) logQuote('shown', selectedResult);
+        setShowCustomerView(true);
+    };
+
+    const handleDelete = (params: CalculationParams) => {
+        deleteCalculation(params.id);
+        logEvent({
+            action: 'deleted',
+            metal,
+            description: `${describeSavedWeight(params)} - ${params.purity}`,
+            amount: calculateTotalFromParams(params, metal, catalogue),
+            percent: params.selectedPercent,
+        });
+    };
+
+    const changeMode = (next: QuoteMode) => {
+        setMode(next);
+        setErrors({});
+        setResults([]);
+        setSelectedResult(null);
+        setBudgetResults([]);
+    };
+
+    // Switches back to pricing by weight, quoting the weight the budget allows at that wastage
+    const quoteBudgetWeight = (fit: BudgetResult) => {
+        changeMode('weight');
+        // Rounded down in the chosen unit so the quoted weight still fits the budget
+        setMetalWeight(weightUnit === 'gram' ? fit.weight.toFixed(3) : String(Math.floor(fromGrams(fit.weight, weightUnit) * 1000 + 1e-9) / 1000));
+        setStoneWeight('');
+        setStones([]);
+        setLoadRequest({ selectedPercent: fit.percent });
+    };
 
     const handleSave = () => {
         if (!validate()) return;
         const newSave: CalculationParams = {
             id: Date.now().toString(),
-            goldPrice, goldWeight, purity, minPercent, maxPercent,
+            price: metalPrice, weight: metalWeight, weightUnit, stoneWeight, stones, purity, minPercent, maxPercent, wastageStep,
             selectedPercent: selectedResult?.percent,
+            makingChargeType, makingCharge,
+            rates: rateSource ?? undefined,
+            customerId: activeCustomer?.id,
         };
-        setSavedCalculations(prev => [newSave, ...prev.slice(0, 9)]); // Limit to 10 saves
+        saveCalculation(newSave);
+        logEvent({
+            action: 'saved',
+            metal,
+            description: quoteDescription,
+            amount: calculateTotalFromParams(newSave, metal, catalogue),
+            percent: newSave.selectedPercent,
+        });
+    };
+
+    const handleAddToBill = () => {
+        if (!selectedResult || !selectedPrice || needsApproval) return;
+        const item: BillItem = {
+            id: `${Date.now()}-${billItems.length}`,
+            metal,
+            purity,
+            rate: parseFloat(metalPrice),
+            weight: grossWeight,
+            result: selectedResult,
+            tax: selectedPrice.tax,
+            ...(selectedPrice.discount > 0 ? { discount: selectedPrice.discount } : {}),
+        };
+        setBillItems(prev => [...prev, item]);
     };
 
     const loadCalculation = (params: CalculationParams) => {
-        setGoldPrice(params.goldPrice);
-        setGoldWeight(params.goldWeight);
+        setMetalPrice(params.price);
+        setRateSource(params.rates ?? null);
+        setMetalWeight(params.weight);
+        setWeightUnit(params.weightUnit ?? 'gram');
+        setStoneWeight(params.stoneWeight ?? '');
+        setStones(params.stones ?? []);
         setPurity(params.purity);
         setMinPercent(params.minPercent);
         setMaxPercent(params.maxPercent);
+        setWastageStep(params.wastageStep ?? '1');
+        setMakingChargeType(params.makingChargeType ?? 'none');
+        setMakingCharge(params.makingCharge ?? '');
         setLoadRequest(params);
     };
 
-    const deleteCalculation = (id: string) => {
-        setSavedCalculations(prev => prev.filter(c => c.id !== id));
+    // Name of the directory customer a save belongs to, as a suffix for the saved list
+    const savedFor = (customerId?: string) => {
+        const customer = customers.find(c => c.id === customerId);
+        return customer ? ` · ${customer.name}` : '';
     };
 
-    const renderInputField = (label: string, value: string, setter: (val: string) => void, name: keyof typeof errors, placeholder: string) => (
+    const handleRateChange = (value: string) => {
+        setMetalPrice(value);
+        setRateSource(null);
+    };
+
+    // What the customer view, the register and the counter display show for a result
+    const buildEstimateContent = (result: ResultDetail): EstimateContent => {
+        const price = parseFloat(metalPrice);
+        const weight = grossWeight;
+        const purityPercentage = `${+(purityFactor * 100).toFixed(1)}%`;
+        const effectiveRate = purityRate ?? price * purityFactor;
+        const netWeight = result.netWeight;
+        const deductedWeight = weight - netWeight;
+        const pureMetalWeight = netWeight * purityFactor;
+        const pricedStones = parseStones(stones);
+        const selectedMakingCharge = parseMakingCharge(makingChargeType, makingCharge);
+        const makingChargeBasis = selectedMakingCharge ? describeMakingCharge(selectedMakingCharge, netWeight, result.purityValue) : '';
+        const { tax, discount, finalTotal } = priceQuote(result);
+
+        return {
+            title: `${definition.name} Price Breakdown`,
+            details: [
+                { label: `${definition.name} Type`, value: purityLabel },
+                ...(deductedWeight > 0
+                    ? [
+                        { label: 'Gross Weight', value: `${weight} grams${describeInUnit(weight, weightUnit)}` },
+                        { label: 'Stone Weight', value: `${deductedWeight.toFixed(3)} grams` },
+                        { label: 'Net Weight', value: `${netWeight.toFixed(3)} grams${describeInUnit(netWeight, weightUnit)}` },
+                    ]
+                    : [{ label: 'Total Weight', value: `${weight} grams${describeInUnit(weight, weightUnit)}` }]),
+                { label: 'Purity', value: `${purityPercentage} Pure ${definition.name}` },
+                { label: `Pure ${definition.name} Weight`, value: `${pureMetalWeight.toFixed(3)} grams` },
+                { label: `${definition.name} Rate (${definition.baseRateLabel}/gram)`, value: formatCurrency(price) },
+            ],
+            lines: [
+                { label: `${definition.name} Value`, amount: result.purityValue, note: `${netWeight.toFixed(3)} grams × ${formatCurrency(effectiveRate)}/gram` },
+                { label: 'Wastage Charges', amount: result.wastageValue, note: `Weight equivalent: ${result.wastageInGrams.toFixed(3)} grams` },
+                ...(result.makingCharge > 0 ? [{ label: 'Making Charges', amount: result.makingCharge, note: makingChargeBasis }] : []),
+                ...pricedStones.map(stone => ({ label: describeStone(stone), amount: stone.price })),
+            ],
+            subtotal: result.total,
+            taxLines: getTaxLines(tax, taxSettings),
+            discount: discount > 0 ? discount : undefined,
+            total: finalTotal,
+            exchange: activeExchange ? buildEstimateExchange(activeExchange, finalTotal) : undefined,
+        };
+    };
+
+    // A quote waiting for the owner's approval is not for the customer's eyes yet
+    useCounterDisplay(selectedResult && !needsApproval ? buildEstimateContent(selectedResult) : null);
+
+    const renderInputField = (label: string, value: string, setter: (val: string) => void, name: keyof typeof errors, placeholder: string, readOnly = false) => (
         <div>
             <label className="block text-xl md:text-lg font-medium text-text-main/90">{label}</label>
             <input
@@ -167,7 +433,8 @@ const GoldCalculator: React.FC = () => {
                 value={value}
                 onChange={e => setter(e.target.value)}
                 placeholder={placeholder}
-                className={`mt-1 block w-full px-4 py-4 md:py-3 bg-ivory/50 border ${errors[name] ? 'border-highlight-red' : 'border-primary-gold/50'} rounded-md shadow-sm focus:outline-none focus:ring-primary-gold focus:border-primary-gold text-xl md:text-lg`}
+                readOnly={readOnly}
+                className={`mt-1 block w-full px-4 py-4 md:py-3 ${theme.input} border ${errors[name] ? 'border-highlight-red' : theme.inputBorder} rounded-md shadow-sm focus:outline-none ${theme.focus} text-xl md:text-lg`}
             />
             {errors[name] && <p className="mt-1 text-base md:text-sm text-highlight-red">{errors[name]}</p>}
         </div>
@@ -177,48 +444,152 @@ const GoldCalculator: React.FC = () => {
         <div className="flex-grow p-4 md:p-6 grid grid-cols-1 md:grid-cols-2 gap-6 lg:gap-8 overflow-y-auto">
             {/* Left Column: Inputs & Saved */}
             <div className="flex flex-col gap-6">
-                <div className="bg-ivory/60 p-8 rounded-lg border border-primary-gold/20 shadow-sm">
-                    <h3 className="text-3xl md:text-2xl font-serif font-bold text-accent-maroon mb-4">Parameters</h3>
+                <div className={`${theme.panel} p-8 rounded-lg`}>
+                    <h3 className={`text-3xl md:text-2xl font-serif font-bold ${theme.heading} mb-4`}>Parameters</h3>
+                    {activeCustomer && (
+                        <p className="mb-4 text-lg md:text-base text-text-main/80">👤 Quoting for <span className="font-semibold">{activeCustomer.name}</span></p>
+                    )}
                     <div className="space-y-5">
-                        {renderInputField("Gold Price (per gram)", goldPrice, setGoldPrice, 'goldPrice', 'e.g., 7200')}
-                        {renderInputField("Gold Weight (grams)", goldWeight, setGoldWeight, 'goldWeight', 'e.g., 10')}
+                        <div className="grid grid-cols-3 gap-2" role="group" aria-label="Quote mode">
+                            {(Object.keys(QUOTE_MODE_LABELS) as QuoteMode[]).map(option => (
+                                <button
+                                    key={option}
+                                    onClick={() => changeMode(option)}
+                                    aria-pressed={mode === option}
+                                    className={`p-3 rounded-md font-semibold text-lg md:text-base transition-colors ${mode === option ? theme.rowSelected : theme.rowHover}`}
+                                >
+                                    {QUOTE_MODE_LABELS[option]}
+                                </button>
+                            ))}
+                        </div>
+                        <div>
+                            {renderInputField(`${definition.name} Price (per gram)`, metalPrice, handleRateChange, 'price', definition.ratePlaceholder, rateLocked)}
+                            {rateSource && (
+                                <p className={`mt-1 text-base md:text-sm ${rateIsStale ? 'text-highlight-red font-semibold' : 'text-text-main/60'}`}>
+                                    {rateIsStale ? `⚠️ Rate from ${formatDateKey(rateSource.date)}, not today. Update the Rates tab.` : "From today's rate board"}
+                                    {!can(access.role, 'editRates') && ' · 🔒 Set by the owner'}
+                                </p>
+                            )}
+                        </div>
+                        <div>
+                            <label className="block text-xl md:text-lg font-medium text-text-main/90">Weight Unit</label>
+                            <select value={weightUnit} onChange={e => setWeightUnit(e.target.value as WeightUnit)} className={`mt-1 block w-full px-4 py-4 md:py-3 ${theme.input} border ${theme.inputBorder} rounded-md shadow-sm focus:outline-none ${theme.focus} text-xl md:text-lg`}>
+                                {(Object.keys(WEIGHT_UNITS) as WeightUnit[]).map(unit => (
+                                    <option key={unit} value={unit}>{WEIGHT_UNITS[unit].name}</option>
+                                ))}
+                            </select>
+                        </div>
+                        {mode === 'budget' ? (
+                            <div>
+                                {renderInputField("Customer Budget (₹)", budget, setBudget, 'budget', 'e.g., 100000')}
+                                <p className="mt-1 text-base md:text-sm text-text-main/60">Fits a plain item: making charge and GST below are included, stones are not.</p>
+                            </div>
+                        ) : (
+                            <>
+                                <div className="grid grid-cols-2 gap-4">
+                                    {renderInputField(`Gross Weight (${WEIGHT_UNITS[weightUnit].label})`, metalWeight, setMetalWeight, 'weight', definition.weightPlaceholder)}
+                                    {renderInputField("Stone Weight (grams)", stoneWeight, setStoneWeight, 'stoneWeight', 'e.g., 0.5')}
+                                </div>
+                                {weightUnit !== 'gram' && grossWeight > 0 && (
+                                    <p className="text-lg md:text-base text-text-main/80">
+                                        Gross Weight: <span className="font-semibold">{grossWeight.toFixed(3)} grams</span>
+                                    </p>
+                                )}
+                                {parseFloat(stoneWeight) > 0 && grossWeight > 0 && (
+                                    <p className="text-lg md:text-base text-text-main/80">
+                                        Net Weight: <span className="font-semibold">{getNetWeight(grossWeight, parseFloat(stoneWeight)).toFixed(3)} grams</span>
+                                    </p>
+                                )}
+                                <StonesEditor stones={stones} onChange={setStones} error={errors.stones} />
+                                {mode === 'target' && (
+                                    <div>
+                                        {renderInputField("Agreed Total (₹)", targetTotal, setTargetTotal, 'target', 'e.g., 75000')}
+                                        <p className="mt-1 text-base md:text-sm text-text-main/60">The final price agreed with the customer{taxSettings.enabled ? ', including GST' : ''}.</p>
+                                    </div>
+                                )}
+                            </>
+                        )}
                         <div>
                             <label className="block text-xl md:text-lg font-medium text-text-main/90">Purity</label>
-                            <select value={purity} onChange={e => setPurity(e.target.value as '916' | '750')} className="mt-1 block w-full px-4 py-4 md:py-3 bg-ivory/50 border border-primary-gold/50 rounded-md shadow-sm focus:outline-none focus:ring-primary-gold focus:border-primary-gold text-xl md:text-lg">
-                                <option value="916">916 (22K)</option>
-                                <option value="750">750 (18K)</option>
+                            <select value={purity} onChange={e => setPurity(e.target.value)} className={`mt-1 block w-full px-4 py-4 md:py-3 border ${theme.puritySelect} rounded-md shadow-sm focus:outline-none text-xl md:text-lg`}>
+                                {getPurityOptions(catalogue, metal).map(option => (
+                                    <option key={option.code} value={option.code}>{option.code} ({option.name})</option>
+                                ))}
                             </select>
                         </div>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-xl md:text-lg font-medium text-text-main/90">Making Charge</label>
+                                <select value={makingChargeType} onChange={e => setMakingChargeType(e.target.value as MakingChargeType)} className={`mt-1 block w-full px-4 py-4 md:py-3 ${theme.input} border ${theme.inputBorder} rounded-md shadow-sm focus:outline-none ${theme.focus} text-xl md:text-lg`}>
+                                    {(Object.keys(MAKING_CHARGE_LABELS) as MakingChargeType[]).map(type => (
+                                        <option key={type} value={type}>{MAKING_CHARGE_LABELS[type]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            {makingChargeType !== 'none' && renderInputField(makingChargeType === 'percent' ? "Making %" : "Making (₹)", makingCharge, setMakingCharge, 'makingCharge', makingChargeType === 'percent' ? 'e.g., 5' : 'e.g., 500')}
+                        </div>
+                        {mode !== 'budget' && (
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-xl md:text-lg font-medium text-text-main/90">Discount</label>
+                                    <select value={discountType} onChange={e => setDiscountType(e.target.value as DiscountType)} className={`mt-1 block w-full px-4 py-4 md:py-3 ${theme.input} border ${theme.inputBorder} rounded-md shadow-sm focus:outline-none ${theme.focus} text-xl md:text-lg`}>
+                                        {(Object.keys(DISCOUNT_LABELS) as DiscountType[]).map(type => (
+                                            <option key={type} value={type}>{DISCOUNT_LABELS[type]}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                {discountType !== 'none' && renderInputField(discountType === 'percent' ? "Discount %" : "Discount (₹)", discountValue, setDiscountValue, 'discount', discountType === 'percent' ? 'e.g., 2' : 'e.g., 1000')}
+                            </div>
+                        )}
                         <div className="grid grid-cols-2 gap-4">
                             {renderInputField("Min Wastage %", minPercent, setMinPercent, 'minPercent', 'e.g., 3')}
                             {renderInputField("Max Wastage %", maxPercent, setMaxPercent, 'maxPercent', 'e.g., 10')}
                         </div>
+                        {mode !== 'target' && (
+                            <div>
+                                <label className="block text-xl md:text-lg font-medium text-text-main/90">Wastage Step</label>
+                                <select value={wastageStep} onChange={e => setWastageStep(e.target.value)} className={`mt-1 block w-full px-4 py-4 md:py-3 ${theme.input} border ${theme.inputBorder} rounded-md shadow-sm focus:outline-none ${theme.focus} text-xl md:text-lg`}>
+                                    {WASTAGE_STEPS.map(step => (
+                                        <option key={step} value={String(step)}>{formatPercent(step)}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+                        <WeightConverter />
+                        {can(access.role, 'editSettings') && <TaxSettingsPanel settings={taxSettings} onChange={setTaxSettings} />}
                         <div className="flex gap-4 pt-2">
-                            <button onClick={handleCalculate} className="w-full bg-primary-gold text-text-main font-bold py-4 md:py-3 px-4 rounded-lg hover:bg-button-hover-gold transition-colors text-xl md:text-lg">Calculate</button>
-                            <button onClick={handleSave} className="w-full bg-ivory border border-primary-gold text-primary-gold font-bold py-4 md:py-3 px-4 rounded-lg hover:bg-primary-gold/10 transition-colors text-xl md:text-lg">Save</button>
+                            <button onClick={handleCalculate} className={`w-full ${theme.primaryButton} font-bold py-4 md:py-3 px-4 rounded-lg text-xl md:text-lg`}>Calculate</button>
+                            {mode === 'weight' && (
+                                <button onClick={handleSave} className={`w-full ${theme.secondaryButton} font-bold py-4 md:py-3 px-4 rounded-lg text-xl md:text-lg`}>Save</button>
+                            )}
                         </div>
                     </div>
                 </div>
                 <div className="flex-grow flex flex-col">
-                    <h3 className="text-3xl md:text-2xl font-serif font-bold text-accent-maroon mb-2">Saved Calculations</h3>
-                    <div className="flex-grow bg-ivory/60 p-2 rounded-lg border border-primary-gold/20 shadow-sm overflow-y-auto">
+                    <h3 className={`text-3xl md:text-2xl font-serif font-bold ${theme.heading} mb-2`}>Saved Calculations</h3>
+                    <div className={`flex-grow ${theme.panel} p-2 rounded-lg overflow-y-auto`}>
                         {savedCalculations.length > 0 ? (
                             <ul className="space-y-2">
                                 {savedCalculations.map(c => (
-                                    <li key={c.id} className="group flex items-center justify-between p-4 md:p-3 rounded-md hover:bg-primary-gold/10 transition-colors">
+                                    <li key={c.id} className={`group flex items-center justify-between p-4 md:p-3 rounded-md ${theme.rowHover} transition-colors`}>
                                         <button onClick={() => loadCalculation(c)} className="text-left flex-grow">
                                             <p className="font-semibold text-text-main text-xl md:text-base">
-                                                {c.goldWeight}g - {c.purity}
+                                                {describeSavedWeight(c)} - {c.purity}
                                                 {c.selectedPercent !== undefined
-                                                    ? <span className="text-accent-maroon"> - Selected: {c.selectedPercent}%</span>
+                                                    ? <span className={theme.accentText}> - Selected: {formatPercent(c.selectedPercent)}</span>
                                                     : ` - ${c.minPercent}% to ${c.maxPercent}%`
                                                 }
                                             </p>
-                                            <p className="text-lg md:text-sm text-text-main/70">Total: {formatCurrency(calculateTotalFromParams(c))}</p>
-                                        </button>
-                                        <button onClick={() => deleteCalculation(c.id)} className="ml-2 p-1 text-highlight-red/50 hover:text-highlight-red opacity-0 group-hover:opacity-100 transition-opacity" aria-label="Delete saved calculation">
-                                            <DeleteIcon />
+                                            <p className="text-lg md:text-sm text-text-main/70">
+                                                Total: {formatCurrency(calculateTotalFromParams(c, metal, catalogue))}
+                                                {savedFor(c.customerId)}
+                                            </p>
                                         </button>
+                                        {can(access.role, 'deleteSaves') && (
+                                            <button onClick={() => handleDelete(c)} className="ml-2 p-1 text-highlight-red/50 hover:text-highlight-red opacity-0 group-hover:opacity-100 transition-opacity" aria-label="Delete saved calculation">
+                                                <DeleteIcon />
+                                            </button>
+                                        )}
                                     </li>
                                 ))}
                             </ul>
@@ -230,13 +601,13 @@ const GoldCalculator: React.FC = () => {
             </div>
 
             {/* Right Column: Results */}
-            <div className="bg-ivory/60 p-4 rounded-lg border border-primary-gold/20 shadow-sm flex flex-col">
+            <div className={`${theme.panel} p-4 rounded-lg flex flex-col`}>
                 <div className="flex justify-between items-center mb-4">
-                    <h3 className="text-3xl md:text-2xl font-serif font-bold text-accent-maroon">Results</h3>
-                    {results.length > 1 && (
+                    <h3 className={`text-3xl md:text-2xl font-serif font-bold ${theme.heading}`}>Results</h3>
+                    {results.length > 1 && can(access.role, 'viewProfit') && (
                         <button
                             onClick={() => setShowProfitMargin(!showProfitMargin)}
-                            className="p-2 bg-primary-gold/20 hover:bg-primary-gold/30 border border-primary-gold/40 rounded-md transition-colors text-accent-maroon"
+                            className={`p-2 ${theme.iconButton} rounded-md transition-colors`}
                             aria-label={showProfitMargin ? "Hide profit margin" : "Show profit margin"}
                         >
                             {showProfitMargin ? (
@@ -254,36 +625,69 @@ const GoldCalculator: React.FC = () => {
                 </div>
 
                 {/* Profit Indicator */}
-                {showProfitMargin && results.length > 1 && selectedResult && (() => {
+                {showProfitMargin && can(access.role, 'viewProfit') && results.length > 1 && selectedResult && selectedPrice && (() => {
                     const minResult = results[0]; // First result (minimum percentage)
-                    const profit = selectedResult.total - minResult.total;
+                    // A discount comes out of the wastage, so profit is taken at the wastage the customer actually pays
+                    const paidResult = selectedPrice.discount > 0 ? calculateResult(pricingInput, selectedPrice.effectivePercent) : selectedResult;
+                    const profit = paidResult.total - minResult.total;
 
                     return (
                         <div className="mb-4 bg-gradient-to-r from-green-50 to-emerald-50 p-5 md:p-4 rounded-md shadow-sm border-2 border-green-400/50">
                             <h4 className="font-semibold text-green-800 text-center mb-2 text-xl md:text-base">💰 Profit Margin</h4>
                             <div className="space-y-1 text-lg md:text-sm">
                                 <div className="flex justify-between">
-                                    <span className="text-green-700/80">Selected ({selectedResult.percent}%):</span>
+                                    <span className="text-green-700/80">Selected ({formatPercent(selectedResult.percent)}):</span>
                                     <span className="font-medium text-green-800">{formatCurrency(selectedResult.total)}</span>
                                 </div>
+                                {selectedPrice.discount > 0 && (
+                                    <div className="flex justify-between">
+                                        <span className="text-green-700/80">After discount ({formatPercent(selectedPrice.effectivePercent)}):</span>
+                                        <span className="font-medium text-green-800">{formatCurrency(paidResult.total)}</span>
+                                    </div>
+                                )}
                                 <div className="flex justify-between">
-                                    <span className="text-green-700/80">Minimum ({minResult.percent}%):</span>
+                                    <span className="text-green-700/80">Minimum ({formatPercent(minResult.percent)}):</span>
                                     <span className="font-medium text-green-800">{formatCurrency(minResult.total)}</span>
                                 </div>
                                 <div className="flex justify-between font-bold text-lg border-t-2 pt-2 mt-2 border-green-400/30 text-green-900">
                                     <span>Profit:</span>
                                     <span className="text-green-600">{formatCurrency(profit)}</span>
                                 </div>
+                                {approvedBy !== null && (
+                                    <p className="pt-1 text-center font-semibold text-highlight-red">Below the {formatPercent(floorWastage ?? 0)} floor, approved by {approvedBy || 'the owner'}</p>
+                                )}
                             </div>
                         </div>
                     );
                 })()}
 
                 {results.length > 0 && selectedResult ? (
-                    <div className="mb-4 bg-white/50 p-4 rounded-md shadow-inner border border-primary-gold/10">
+                    <div className={`mb-4 bg-white/50 p-4 rounded-md shadow-inner border ${theme.sectionDivider}`}>
                         <h4 className="font-semibold text-text-main text-center mb-3 text-2xl md:text-xl">
-                            Details for {selectedResult.percent}% Wastage
+                            Details for {formatPercent(selectedResult.percent)} Wastage
                         </h4>
+                        {mode === 'target' && selectedResult.percent < parseFloat(minPercent) && (
+                            <p className="mb-3 text-center text-lg md:text-base font-semibold text-highlight-red">⚠️ Below the {formatPercent(parseFloat(minPercent))} minimum wastage</p>
+                        )}
+                        {rateIsStale && rateSource && (
+                            <p className="mb-3 text-center text-lg md:text-base font-semibold text-highlight-red">⚠️ Quoted at the {formatDateKey(rateSource.date)} rate</p>
+                        )}
+                        {selectedPrice && belowFloor && (approvedBy !== null ? (
+                            <p className="mb-3 text-center text-lg md:text-base font-semibold text-text-main/80">✅ Below the {formatPercent(floorWastage ?? 0)} floor, approved by {approvedBy || 'the owner'}</p>
+                        ) : (
+                            <div className="mb-3 space-y-2">
+                                <p className="text-center text-lg md:text-base font-semibold text-highlight-red">
+                                    ⚠️ Works out to {formatPercent(selectedPrice.effectivePercent)} wastage, below the {formatPercent(floorWastage ?? 0)} floor. Needs the owner's approval.
+                                </p>
+                                {can(access.role, 'approveFloor') ? (
+                                    <button onClick={() => approveFloor(access.user?.name ?? '')} className={`w-full ${theme.secondaryButton} font-bold py-3 px-4 rounded-lg text-lg md:text-base`}>
+                                        Approve Below Floor
+                                    </button>
+                                ) : (
+                                    <PinPrompt label="Owner PIN" submitLabel="Approve" onSubmit={approveWithPin} />
+                                )}
+                            </div>
+                        ))}
                         <div className="space-y-2 text-xl md:text-lg">
                             <div className="flex justify-between">
                                 <span className="text-text-main/80">Purity Value:</span>
@@ -293,17 +697,63 @@ const GoldCalculator: React.FC = () => {
                                 <span className="text-text-main/80">Wastage ({selectedResult.wastageInGrams.toFixed(3)} gm):</span>
                                 <span className="font-medium text-text-main">{formatCurrency(selectedResult.wastageValue)}</span>
                             </div>
-                            <div className="flex justify-between font-bold text-3xl md:text-2xl border-t-2 pt-2 mt-2 border-primary-gold/30 text-accent-maroon">
+                            {selectedResult.makingCharge > 0 && (
+                                <div className="flex justify-between">
+                                    <span className="text-text-main/80">Making Charges:</span>
+                                    <span className="font-medium text-text-main">{formatCurrency(selectedResult.makingCharge)}</span>
+                                </div>
+                            )}
+                            {selectedResult.stoneValue > 0 && (
+                                <div className="flex justify-between">
+                                    <span className="text-text-main/80">Stones:</span>
+                                    <span className="font-medium text-text-main">{formatCurrency(selectedResult.stoneValue)}</span>
+                                </div>
+                            )}
+                            <div className={`flex justify-between font-bold text-3xl md:text-2xl border-t-2 pt-2 mt-2 ${theme.divider} ${theme.heading}`}>
                                 <span>Total Price:</span>
                                 <span>{formatCurrency(selectedResult.total)}</span>
                             </div>
+                            {taxSettings.enabled && (() => {
+                                const tax = calculateTax(selectedResult, taxSettings);
+                                return (
+                                    <>
+                                        {getTaxLines(tax, taxSettings).map(line => (
+                                            <div key={line.label} className="flex justify-between">
+                                                <span className="text-text-main/80">{line.label}:</span>
+                                                <span className="font-medium text-text-main">{formatCurrency(line.amount)}</span>
+                                            </div>
+                                        ))}
+                                        <div className={`flex justify-between font-bold text-3xl md:text-2xl border-t-2 pt-2 mt-2 ${theme.divider} ${theme.heading}`}>
+                                            <span>Total incl. GST:</span>
+                                            <span>{formatCurrency(tax.grandTotal)}</span>
+                                        </div>
+                                    </>
+                                );
+                            })()}
+                            {selectedPrice && selectedPrice.discount > 0 && (
+                                <>
+                                    <div className="flex justify-between">
+                                        <span className="text-text-main/80">Discount:</span>
+                                        <span className="font-medium text-text-main">- {formatCurrency(selectedPrice.discount)}</span>
+                                    </div>
+                                    <div className={`flex justify-between font-bold text-3xl md:text-2xl border-t-2 pt-2 mt-2 ${theme.divider} ${theme.heading}`}>
+                                        <span>Final Total:</span>
+                                        <span>{formatCurrency(selectedPrice.finalTotal)}</span>
+                                    </div>
+                                </>
+                            )}
+                            {activeExchange && selectedPrice && (
+                                <ExchangeSummary
+                                    exchange={activeExchange}
+                                    newItemTotal={selectedPrice.finalTotal}
+                                    className={`border-t-2 pt-2 mt-2 ${theme.divider}`}
+                                />
+                            )}
                         </div>
                         <button
-                            onClick={() => {
-                                setShowCustomerView(true);
-                                setCloseClickCount(0); // Reset counter when opening
-                            }}
-                            className="mt-4 w-full bg-accent-maroon text-white font-bold py-4 md:py-3 px-4 rounded-lg hover:bg-accent-maroon/90 transition-colors flex items-center justify-center gap-2 text-xl md:text-lg"
+                            onClick={showToCustomer}
+                            disabled={needsApproval}
+                            className={`mt-4 w-full ${theme.customerButton} font-bold py-4 md:py-3 px-4 rounded-lg flex items-center justify-center gap-2 text-xl md:text-lg disabled:opacity-50`}
                         >
                             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
@@ -311,24 +761,58 @@ const GoldCalculator: React.FC = () => {
                             </svg>
                             Show to Customer
                         </button>
+                        <button onClick={handleAddToBill} disabled={needsApproval} className={`mt-2 w-full ${theme.secondaryButton} font-bold py-4 md:py-3 px-4 rounded-lg text-xl md:text-lg disabled:opacity-50`}>
+                            Add to Bill
+                        </button>
+                        {billItems.length > 0 && (
+                            <p className="mt-2 text-center text-lg md:text-sm text-text-main/70">🧾 {billItems.length} item{billItems.length === 1 ? '' : 's'} in bill</p>
+                        )}
                     </div>
                 ) : null}
 
                 <div className="flex-grow overflow-y-auto pr-2 -mr-2">
-                    {results.length > 0 ? (
+                    {mode === 'budget' && budgetResults.length > 0 ? (
+                        <ul className="space-y-1">
+                            {budgetResults.map(fit => (
+                                <li key={fit.percent}>
+                                    <button
+                                        onClick={() => quoteBudgetWeight(fit)}
+                                        disabled={fit.weight <= 0}
+                                        className={`w-full flex justify-between items-center p-3 rounded-md text-lg md:text-base transition-colors ${theme.rowHover} disabled:opacity-50`}
+                                    >
+                                        <span className={`font-bold text-2xl md:text-lg ${theme.accentText}`}>{formatPercent(fit.percent)}</span>
+                                        <div className="text-right">
+                                            <p className="font-semibold text-lg md:text-base">Up to {fit.weight.toFixed(3)} g{describeInUnit(fit.weight, weightUnit)}</p>
+                                            <p className="text-base md:text-sm text-text-main/70">
+                                                Price: {formatCurrency(fit.grandTotal)}{taxSettings.enabled ? ' incl. GST' : ''}
+                                            </p>
+                                            {fit.result.makingCharge > 0 && (
+                                                <p className="text-base md:text-sm text-text-main/70">Making: {formatCurrency(fit.result.makingCharge)}</p>
+                                            )}
+                                        </div>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    ) : results.length > 0 ? (
                         <ul className="space-y-1">
                             {results.map(r => (
                                 <li key={r.percent}>
                                     <button
-                                        onClick={() => setSelectedResult(r)}
-                                        className={`w-full flex justify-between items-center p-3 rounded-md text-lg md:text-base transition-colors ${selectedResult?.percent === r.percent ? 'bg-primary-gold text-text-main shadow-sm' : 'hover:bg-primary-gold/10'}`}
+                                        onClick={() => selectResult(r)}
+                                        className={`w-full flex justify-between items-center p-3 rounded-md text-lg md:text-base transition-colors ${selectedResult?.percent === r.percent ? theme.rowSelected : theme.rowHover}`}
                                     >
-                                        <span className={`font-bold text-2xl md:text-lg ${selectedResult?.percent === r.percent ? '' : 'text-accent-maroon'}`}>{r.percent}%</span>
+                                        <span className={`font-bold text-2xl md:text-lg ${selectedResult?.percent === r.percent ? '' : theme.accentText}`}>{formatPercent(r.percent)}</span>
                                         <div className="text-right">
                                             <p className="font-semibold text-lg md:text-base">{formatCurrency(r.total)}</p>
                                             <p className={`text-base md:text-sm ${selectedResult?.percent === r.percent ? 'text-text-main/80' : 'text-text-main/70'}`}>
                                                 Wastage: {formatCurrency(r.wastageValue)} ({r.wastageInGrams.toFixed(3)} gm)
                                             </p>
+                                            {r.makingCharge > 0 && (
+                                                <p className={`text-base md:text-sm ${selectedResult?.percent === r.percent ? 'text-text-main/80' : 'text-text-main/70'}`}>
+                                                    Making: {formatCurrency(r.makingCharge)}
+                                                </p>
+                                            )}
                                         </div>
                                     </button>
                                 </li>
@@ -344,176 +828,145 @@ const GoldCalculator: React.FC = () => {
 
             {/* Customer View Modal */}
             {showCustomerView && selectedResult && (() => {
-                const price = parseFloat(goldPrice);
-                const weight = parseFloat(goldWeight);
-                const purityDecimal = purity === '916' ? 0.92 : 0.75;
-                const purityPercentage = purity === '916' ? '92%' : '75%';
-                const effectiveGoldRate = price * purityDecimal;
-                const pureGoldWeight = weight * purityDecimal;
+                // Everything shown and shared here comes from the same content as the counter display and the register
+                const estimateContent = buildEstimateContent(selectedResult);
+                const { details, lines, subtotal, taxLines, discount, total } = estimateContent;
+                const totalTax = taxLines.reduce((sum, line) => sum + line.amount, 0);
+                const netWeight = selectedResult.netWeight;
 
                 const handleShare = async () => {
-                    const shareText = `🏪 *NL JEWELLERS*\n\n💰 *GOLD PRICE BREAKDOWN*\n\n📊 Item Details:\n• Gold Type: ${purity} (${purity === '916' ? '22 Karat' : '18 Karat'})\n• Total Weight: ${weight} grams\n• Purity: ${purityPercentage} Pure Gold\n• Pure Gold Weight: ${pureGoldWeight.toFixed(3)} grams\n\n💵 Rate Information:\n• Gold Rate (24K/gram): ${formatCurrency(price)}\n• Effective Rate (${purity}): ${formatCurrency(effectiveGoldRate)}/gram\n\n🧮 Price Calculation:\n1. Gold Value: ${formatCurrency(selectedResult.purityValue)}\n   (${weight} grams × ${formatCurrency(effectiveGoldRate)}/gram)\n\n2. Wastage Charges: ${formatCurrency(selectedResult.wastageValue)}\n   (Weight equivalent: ${selectedResult.wastageInGrams.toFixed(3)} grams)\n\n✨ *TOTAL AMOUNT: ${formatCurrency(selectedResult.total)}*\n\n📏 Per Gram Summary:\n• Effective cost per gram: ${formatCurrency(selectedResult.total / weight)}/gram\n• Pure gold per gram: ${formatCurrency(selectedResult.purityValue / weight)}/gram`;
-
-                    if (navigator.share) {
-                        try {
-                            await navigator.share({
-                                title: 'NL Jewellers - Gold Price Breakdown',
-                                text: shareText,
-                            });
-                        } catch (err) {
-                            if ((err as Error).name !== 'AbortError') {
-                                console.error('Error sharing:', err);
-                            }
-                        }
-                    } else {
-                        // Fallback: Copy to clipboard
-                        try {
-                            await navigator.clipboard.writeText(shareText);
-                            alert('Price breakdown copied to clipboard!');
-                        } catch (err) {
-                            console.error('Error copying to clipboard:', err);
-                            alert('Unable to share. Please try again.');
-                        }
-                    }
+                    const detailsText = details.map(detail => `• ${detail.label}: ${detail.value}`).join('\n');
+                    const linesText = lines
+                        .map((line, index) => `${index + 1}. ${line.label}: ${formatCurrency(line.amount)}${line.note ? `\n   (${line.note})` : ''}`)
+                        .join('\n\n');
+                    const taxText = taxLines.length > 0
+                        ? `\n\n🧾 GST:\n• Subtotal: ${formatCurrency(subtotal)}\n${taxLines.map(line => `• ${line.label}: ${formatCurrency(line.amount)}`).join('\n')}`
+                        : '';
+                    const discountText = discount ? `\n\n🎁 Discount: - ${formatCurrency(discount)}` : '';
+                    const text = `🏪 *NL JEWELLERS*\n\n${definition.icon} *${estimateContent.title.toUpperCase()}*\n\n📊 Item Details:\n${detailsText}\n\n🧮 Price Calculation:\n${linesText}${taxText}${discountText}\n\n✨ *TOTAL AMOUNT: ${formatCurrency(total)}*${activeExchange ? `\n\n${formatExchangeText(activeExchange, total)}` : ''}\n\n📏 Per Gram Summary:\n• Effective cost per gram: ${formatCurrency(subtotal / netWeight)}/gram\n• Pure ${definition.name.toLowerCase()} per gram: ${formatCurrency(selectedResult.purityValue / netWeight)}/gram`;
+
+                    logQuote('shared', selectedResult);
+                    if (activeCustomer?.phone) shareOnWhatsApp(activeCustomer.phone, text);
+                    else await shareText(`NL Jewellers - ${estimateContent.title}`, text);
                 };
 
                 return (
-                    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4">
-                        <div className="bg-ivory rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
-                            {/* NL Jewellers Branding Header */}
-                            <div className="rounded-t-xl p-6" style={{ background: 'linear-gradient(to right, #800000, #990000)' }}>
-                                <h1 className="text-3xl font-serif font-bold text-center tracking-wide mb-1" style={{ color: '#D4AF37', textShadow: '1px 1px 3px rgba(0,0,0,0.3)' }}>NL JEWELLERS</h1>
-                                <p className="text-lg text-center" style={{ color: 'rgba(255, 248, 231, 0.8)' }}>Gold</p>
-                            </div>
-
-                            <div className="p-6">
-                                <div className="mb-6">
-                                    <h2
-                                        className="text-2xl font-serif font-bold text-accent-maroon cursor-pointer select-none text-center"
-                                        onClick={() => {
-                                            const newCount = closeClickCount + 1;
-                                            setCloseClickCount(newCount);
-                                            if (newCount >= 5) {
-                                                setShowCustomerView(false);
-                                                setCloseClickCount(0);
-                                            }
-                                        }}
-                                    >
-                                        💰 Price Breakdown
-                                    </h2>
-                                </div>
-
-                                <div className="space-y-4">
-                                    {/* Basic Details */}
-                                    <div className="bg-white/50 p-5 rounded-lg border border-primary-gold/30">
-                                        <h3 className="font-semibold text-accent-maroon mb-3 text-center text-lg">📊 Item Details</h3>
-                                        <div className="space-y-2 text-base">
-                                            <div className="flex justify-between">
-                                                <span className="text-text-main/70">Gold Type:</span>
-                                                <span className="font-semibold text-text-main">{purity} ({purity === '916' ? '22 Karat' : '18 Karat'})</span>
-                                            </div>
-                                            <div className="flex justify-between">
-                                                <span className="text-text-main/70">Total Weight:</span>
-                                                <span className="font-semibold text-text-main">{weight} grams</span>
-                                            </div>
-                                            <div className="flex justify-between">
-                                                <span className="text-text-main/70">Purity:</span>
-                                                <span className="font-semibold text-text-main">{purityPercentage} Pure Gold</span>
-                                            </div>
-                                            <div className="flex justify-between">
-                                                <span className="text-text-main/70">Pure Gold Weight:</span>
-                                                <span className="font-semibold text-text-main">{pureGoldWeight.toFixed(3)} grams</span>
-                                            </div>
+                    <CustomerDisplay
+                        access={access}
+                        subtitle={definition.name}
+                        heading="💰 Price Breakdown"
+                        headingClassName={theme.accentText}
+                        className={theme.modal}
+                        onExit={() => setShowCustomerView(false)}
+                    >
+                        <div className="space-y-4">
+                            {/* Basic Details */}
+                            <div className={`${theme.section} p-5 rounded-lg`}>
+                                <h3 className={`font-semibold ${theme.accentText} mb-3 text-center text-lg`}>📊 Item Details</h3>
+                                <div className="space-y-2 text-base">
+                                    {details.map(detail => (
+                                        <div key={detail.label} className="flex justify-between">
+                                            <span className="text-text-main/70">{detail.label}:</span>
+                                            <span className="font-semibold text-text-main">{detail.value}</span>
                                         </div>
-                                    </div>
+                                    ))}
+                                </div>
+                            </div>
 
-                                    {/* Rate Information */}
-                                    <div className="bg-white/50 p-5 rounded-lg border border-primary-gold/30">
-                                        <h3 className="font-semibold text-accent-maroon mb-3 text-center text-lg">💵 Rate Information</h3>
-                                        <div className="space-y-2 text-base">
-                                            <div className="flex justify-between">
-                                                <span className="text-text-main/70">Gold Rate (24K/gram):</span>
-                                                <span className="font-semibold text-text-main">{formatCurrency(price)}</span>
-                                            </div>
+                            {/* Detailed Calculation */}
+                            <div className={`${theme.section} p-5 rounded-lg`}>
+                                <h3 className={`font-semibold ${theme.accentText} mb-3 text-center text-lg`}>🧮 Price Calculation</h3>
+                                <div className="space-y-3 text-base">
+                                    {lines.map((line, index) => (
+                                        <div key={index} className={index > 0 ? `pt-2 border-t ${theme.sectionDivider}` : ''}>
                                             <div className="flex justify-between">
-                                                <span className="text-text-main/70">Effective Rate ({purity}):</span>
-                                                <span className="font-semibold text-text-main">{formatCurrency(effectiveGoldRate)}/gram</span>
-                                            </div>
-                                            <div className="text-xs text-text-main/60 pl-4 italic">
-                                                ({formatCurrency(price)} × {purityPercentage})
+                                                <span className="text-text-main/70 font-medium">{index + 1}. {line.label}:</span>
+                                                <span className="font-semibold text-text-main">{formatCurrency(line.amount)}</span>
                                             </div>
-                                        </div>
-                                    </div>
-
-                                    {/* Detailed Calculation */}
-                                    <div className="bg-white/50 p-5 rounded-lg border border-primary-gold/30">
-                                        <h3 className="font-semibold text-accent-maroon mb-3 text-center text-lg">🧮 Price Calculation</h3>
-                                        <div className="space-y-3 text-base">
-                                            {/* Gold Value */}
-                                            <div>
-                                                <div className="flex justify-between">
-                                                    <span className="text-text-main/70 font-medium">1. Gold Value:</span>
-                                                    <span className="font-semibold text-text-main">{formatCurrency(selectedResult.purityValue)}</span>
-                                                </div>
+                                            {line.note && (
                                                 <div className="text-sm text-text-main/60 pl-4 mt-1">
-                                                    {weight} grams × {formatCurrency(effectiveGoldRate)}/gram
-                                                </div>
-                                            </div>
-
-                                            {/* Wastage Charges */}
-                                            <div className="pt-2 border-t border-primary-gold/20">
-                                                <div className="flex justify-between">
-                                                    <span className="text-text-main/70 font-medium">2. Wastage Charges:</span>
-                                                    <span className="font-semibold text-text-main">{formatCurrency(selectedResult.wastageValue)}</span>
+                                                    {line.note}
                                                 </div>
-                                                <div className="text-sm text-text-main/60 pl-4 mt-1">
-                                                    Weight equivalent: {selectedResult.wastageInGrams.toFixed(3)} grams
-                                                </div>
-                                            </div>
+                                            )}
                                         </div>
-                                    </div>
+                                    ))}
+                                </div>
+                            </div>
 
-                                    {/* Total */}
-                                    <div className="bg-gradient-to-r from-primary-gold/30 to-primary-gold/20 p-5 rounded-lg border-2 border-primary-gold/50">
-                                        <div className="flex justify-between items-center mb-2">
-                                            <span className="font-bold text-xl text-accent-maroon">Total Amount:</span>
-                                            <span className="font-bold text-2xl text-accent-maroon">{formatCurrency(selectedResult.total)}</span>
-                                        </div>
-                                        <div className="text-sm text-text-main/70 text-center">
-                                            ({formatCurrency(selectedResult.purityValue)} + {formatCurrency(selectedResult.wastageValue)})
+                            {/* Total */}
+                            <div className={`${theme.totalBox} p-5 rounded-lg`}>
+                                {taxLines.length > 0 && (
+                                    <div className={`space-y-1 text-base mb-3 pb-3 border-b ${theme.totalDivider}`}>
+                                        <div className="flex justify-between">
+                                            <span className="text-text-main/70">Subtotal:</span>
+                                            <span className="font-semibold text-text-main">{formatCurrency(subtotal)}</span>
                                         </div>
+                                        {taxLines.map(line => (
+                                            <div key={line.label} className="flex justify-between">
+                                                <span className="text-text-main/70">{line.label}:</span>
+                                                <span className="font-semibold text-text-main">{formatCurrency(line.amount)}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                                {!!discount && (
+                                    <div className={`flex justify-between text-base mb-3 pb-3 border-b ${theme.totalDivider}`}>
+                                        <span className="text-text-main/70">Less: Discount</span>
+                                        <span className="font-semibold text-text-main">- {formatCurrency(discount)}</span>
                                     </div>
+                                )}
+                                <div className="flex justify-between items-center mb-2">
+                                    <span className={`font-bold text-xl ${theme.accentText}`}>Total Amount:</span>
+                                    <span className={`font-bold text-2xl ${theme.accentText}`}>{formatCurrency(total)}</span>
+                                </div>
+                                <div className="text-sm text-text-main/70 text-center">
+                                    ({lines.map(line => formatCurrency(line.amount)).join(' + ')}{totalTax > 0 && ` + ${formatCurrency(totalTax)} GST`}{!!discount && ` - ${formatCurrency(discount)} discount`})
+                                </div>
+                            </div>
 
-                                    {/* Per Gram Summary */}
-                                    <div className="bg-white/50 p-4 rounded-lg border border-primary-gold/20">
-                                        <h4 className="font-semibold text-accent-maroon mb-2 text-center">📏 Per Gram Summary</h4>
-                                        <div className="text-sm space-y-1">
-                                            <div className="flex justify-between">
-                                                <span className="text-text-main/70">Effective cost per gram:</span>
-                                                <span className="font-medium">{formatCurrency(selectedResult.total / weight)}/gram</span>
-                                            </div>
-                                            <div className="flex justify-between">
-                                                <span className="text-text-main/70">Pure gold per gram:</span>
-                                                <span className="font-medium">{formatCurrency(selectedResult.purityValue / weight)}/gram</span>
-                                            </div>
+                            {/* Old Metal Exchange */}
+                            {activeExchange && (
+                                <div className={`${theme.section} p-5 rounded-lg`}>
+                                    <h3 className={`font-semibold ${theme.accentText} mb-3 text-center text-lg`}>🔄 Old {getMetalName(activeExchange.metal)} Exchange</h3>
+                                    <div className="text-base space-y-1 mb-2">
+                                        <div className="flex justify-between">
+                                            <span className="text-text-main/70">New Item Total:</span>
+                                            <span className="font-semibold text-text-main">{formatCurrency(total)}</span>
                                         </div>
                                     </div>
+                                    <ExchangeSummary exchange={activeExchange} newItemTotal={total} className="text-base" />
                                 </div>
+                            )}
 
-                                <div className="mt-6">
-                                    <button
-                                        onClick={handleShare}
-                                        className="w-full bg-green-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center gap-2"
-                                    >
-                                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
-                                        </svg>
-                                        Share
-                                    </button>
+                            {/* Per Gram Summary */}
+                            <div className={`${theme.section} p-4 rounded-lg`}>
+                                <h4 className={`font-semibold ${theme.accentText} mb-2 text-center`}>📏 Per Gram Summary</h4>
+                                <div className="text-sm space-y-1">
+                                    <div className="flex justify-between">
+                                        <span className="text-text-main/70">Effective cost per gram:</span>
+                                        <span className="font-medium">{formatCurrency(subtotal / netWeight)}/gram</span>
+                                    </div>
+                                    <div className="flex justify-between">
+                                        <span className="text-text-main/70">Pure {definition.name.toLowerCase()} per gram:</span>
+                                        <span className="font-medium">{formatCurrency(selectedResult.purityValue / netWeight)}/gram</span>
+                                    </div>
                                 </div>
                             </div>
                         </div>
-                    </div>
+
+                        <div className="mt-6 space-y-3">
+                            <button
+                                onClick={handleShare}
+                                className="w-full bg-green-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center gap-2"
+                            >
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
+                                </svg>
+                                {activeCustomer?.phone ? `Share to ${activeCustomer.name} on WhatsApp` : 'Share as Text'}
+                            </button>
+                            <RegisterPanel content={estimateContent} onShare={() => logQuote('shared', selectedResult)} />
+                        </div>
+                    </CustomerDisplay>
                 );
             })()}
         </div>
@@ -522,7 +975,7 @@ const GoldCalculator: React.FC = () => {
 
 
 const CalculatorModal: React.FC<CalculatorModalProps> = ({ isOpen, onClose }) => {
-    const [activeTab, setActiveTab] = useState<'gold' | 'silver'>('gold');
+    const [activeTab, setActiveTab] = useState<Metal>(METALS[0].id);
 
     if (!isOpen) return null;
 
@@ -541,34 +994,26 @@ const CalculatorModal: React.FC<CalculatorModalProps> = ({ isOpen, onClose }) =>
             >
                 <div className="p-4 border-b border-primary-gold/20 flex justify-between items-center flex-shrink-0">
                     <div className="flex gap-2">
-                        <button
-                            onClick={() => setActiveTab('gold')}
-                            className={`px-4 py-2 rounded-lg font-semibold transition-colors ${activeTab === 'gold'
-                                ? 'bg-primary-gold text-text-main shadow-md'
-                                : 'bg-ivory/50 text-text-main/60 hover:bg-primary-gold/20'
-                                }`}
-                        >
-                            💛 Gold
-                        </button>
-                        <button
-                            onClick={() => setActiveTab('silver')}
-                            className={`px-4 py-2 rounded-lg font-semibold transition-colors ${activeTab === 'silver'
-                                ? 'bg-gray-400 text-white shadow-md'
-                                : 'bg-ivory/50 text-text-main/60 hover:bg-gray-200'
-                                }`}
-                        >
-                            🤍 Silver
-                        </button>
+                        {METALS.map(definition => (
+                            <button
+                                key={definition.id}
+                                onClick={() => setActiveTab(definition.id)}
+                                className={`px-4 py-2 rounded-lg font-semibold transition-colors ${activeTab === definition.id ? 'shadow-md' : 'bg-ivory/50 text-text-main/60 hover:bg-primary-gold/20'}`}
+                                style={activeTab === definition.id ? { background: definition.tabColor, color: definition.tabTextColor } : undefined}
+                            >
+                                {definition.icon} {definition.name}
+                            </button>
+                        ))}
                     </div>
                     <button onClick={onClose} className="text-text-main/60 hover:text-accent-maroon" aria-label="Close">
                         <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
                     </button>
                 </div>
-                {activeTab === 'gold' ? <GoldCalculator /> : <SilverCalculator />}
+                <MetalCalculator key={activeTab} metal={activeTab} />
             </div>
         </div>
     );
 };
 
-export { GoldCalculator };
-export default CalculatorModal;
\ No newline at end of file
+export { MetalCalculator };
+export default CalculatorModal;
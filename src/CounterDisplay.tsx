@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { useWakeLock } from './hooks/useWakeLock';
+import { DisplayMessage, openDisplayChannel } from './utils/display';
+import { EstimateContent } from './utils/estimate';
+import { formatCurrency } from './utils/format';
+
+// Runs in its own window on a screen facing the customer, showing whatever quote the staff have selected
+const CounterDisplay: React.FC = () => {
+    const [content, setContent] = useState<EstimateContent | null>(null);
+    const [supported] = useState(() => typeof BroadcastChannel !== 'undefined');
+    const [fullscreen, setFullscreen] = useState(false);
+    useWakeLock(true);
+
+    useEffect(() => {
+        const channel = openDisplayChannel();
+        if (!channel) return;
+        channel.onmessage = (event: MessageEvent<DisplayMessage>) => {
+            if (event.data.type === 'show') setContent(event.data.content);
+            else if (event.data.type === 'clear') setContent(null);
+        };
+        channel.postMessage({ type: 'request' } as DisplayMessage);
+        return () => channel.close();
+    }, []);
+
+    // Browsers only allow full screen from a tap
+    const enterFullscreen = () => {
+        document.documentElement.requestFullscreen?.().then(() => setFullscreen(true)).catch(() => undefined);
+    };
+
+    return (
+        <div className="min-h-screen flex flex-col" style={{ background: 'linear-gradient(135deg, #FFF8E7 0%, #F5EDD8 100%)' }}>
+            <header className="p-8 text-center" style={{ background: 'linear-gradient(to right, #800000, #990000)' }}>
+                <h1 className="text-5xl font-serif font-bold tracking-wide" style={{ color: '#D4AF37', textShadow: '1px 1px 3px rgba(0,0,0,0.3)' }}>NL JEWELLERS</h1>
+                {content && <p className="mt-2 text-2xl" style={{ color: 'rgba(255, 248, 231, 0.8)' }}>{content.title}</p>}
+            </header>
+
+            <main className="flex-grow flex items-center justify-center p-8">
+                {!supported ? (
+                    <p className="text-2xl text-text-main/70 text-center">This browser cannot mirror quotes. Open the counter display in Chrome, Edge or Firefox.</p>
+                ) : content ? (
+                    <div className="w-full max-w-3xl space-y-6 text-2xl" aria-label="Quote on display">
+                        <div className="bg-white/50 p-6 rounded-lg border border-primary-gold/30 space-y-2">
+                            {content.details.map(detail => (
+                                <div key={detail.label} className="flex justify-between gap-4">
+                                    <span className="text-text-main/70">{detail.label}:</span>
+                                    <span className="font-semibold text-text-main">{detail.value}</span>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="bg-white/50 p-6 rounded-lg border border-primary-gold/30 space-y-3">
+                            {content.lines.map((line, index) => (
+                                <div key={index}>
+                                    <div className="flex justify-between gap-4">
+                                        <span className="text-text-main/80">{line.label}</span>
+                                        <span className="font-semibold text-text-main">{formatCurrency(line.amount)}</span>
+                                    </div>
+                                    {line.note && <p className="text-lg text-text-main/60 pl-4">{line.note}</p>}
+                                </div>
+                            ))}
+                            {content.taxLines.length > 0 && (
+                                <div className="pt-3 border-t border-primary-gold/30 space-y-1">
+                                    <div className="flex justify-between">
+                                        <span className="text-text-main/70">Subtotal:</span>
+                                        <span className="font-semibold text-text-main">{formatCurrency(content.subtotal)}</span>
+                                    </div>
+                                    {content.taxLines.map(line => (
+                                        <div key={line.label} className="flex justify-between">
+                                            <span className="text-text-main/70">{line.label}:</span>
+                                            <span className="font-semibold text-text-main">{formatCurrency(line.amount)}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                            {!!content.discount && (
+                                <div className="pt-3 border-t border-primary-gold/30 flex justify-between">
+                                    <span className="text-text-main/70">Less: Discount</span>
+                                    <span className="font-semibold text-text-main">- {formatCurrency(content.discount)}</span>
+                                </div>
+                            )}
+                        </div>
+                        <div className="p-6 rounded-lg border-2 border-primary-gold/50 bg-primary-gold/10 flex justify-between items-center">
+                            <span className="font-bold text-3xl text-accent-maroon">Total Amount:</span>
+                            <span className="font-bold text-5xl text-accent-maroon">{formatCurrency(content.total)}</span>
+                        </div>
+                        {content.exchange && (
+                            <div className="bg-white/50 p-6 rounded-lg border border-primary-gold/30 space-y-1">
+                                <div className="flex justify-between">
+                                    <span className="text-text-main/70">Less: {content.exchange.label}</span>
+                                    <span className="font-semibold text-text-main">- {formatCurrency(content.exchange.value)}</span>
+                                </div>
+                                <div className="flex justify-between font-bold text-accent-maroon">
+                                    <span>{content.exchange.balanceLabel}:</span>
+                                    <span>{formatCurrency(Math.abs(content.exchange.balance))}</span>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                ) : (
+                    <p className="text-4xl font-serif text-accent-maroon text-center">Welcome to NL Jewellers</p>
+                )}
+            </main>
+
+            {!fullscreen && (
+                <button onClick={enterFullscreen} className="m-4 self-center text-lg font-semibold text-text-main/60 hover:text-text-main">
+                    Tap for full screen
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default CounterDisplay;
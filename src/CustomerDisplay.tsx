@@ -0,0 +1,85 @@
+import React, { useEffect, useRef, useState } from 'react';
+import PinPrompt from './PinPrompt';
+import { useWakeLock } from './hooks/useWakeLock';
+import { Access } from './utils/access';
+import { LONG_PRESS_MS } from './utils/display';
+
+interface CustomerDisplayProps {
+    access: Access;
+    subtitle: string;
+    heading: string;
+    headingClassName: string;
+    className: string;
+    onExit: () => void;
+    children: React.ReactNode;
+}
+
+// The screen turned to face the customer: full screen, kept awake, and left only by holding the
+// heading. Once an owner PIN is set, holding the heading asks for a staff PIN instead
+const CustomerDisplay: React.FC<CustomerDisplayProps> = ({ access, subtitle, heading, headingClassName, className, onExit, children }) => {
+    const [askExitPin, setAskExitPin] = useState(false);
+    const pressTimer = useRef<number | undefined>(undefined);
+    useWakeLock(true);
+
+    useEffect(() => {
+        document.documentElement.requestFullscreen?.().catch(() => undefined);
+        return () => {
+            window.clearTimeout(pressTimer.current);
+            if (document.fullscreenElement) document.exitFullscreen().catch(() => undefined);
+        };
+    }, []);
+
+    const startPress = () => {
+        window.clearTimeout(pressTimer.current);
+        pressTimer.current = window.setTimeout(() => {
+            if (access.locked) setAskExitPin(true);
+            else onExit();
+        }, LONG_PRESS_MS);
+    };
+
+    const cancelPress = () => window.clearTimeout(pressTimer.current);
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4">
+            <div className={`${className} rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto`} onClick={(e) => e.stopPropagation()}>
+                {/* NL Jewellers Branding Header */}
+                <div className="rounded-t-xl p-6" style={{ background: 'linear-gradient(to right, #800000, #990000)' }}>
+                    <h1 className="text-3xl font-serif font-bold text-center tracking-wide mb-1" style={{ color: '#D4AF37', textShadow: '1px 1px 3px rgba(0,0,0,0.3)' }}>NL JEWELLERS</h1>
+                    <p className="text-lg text-center" style={{ color: 'rgba(255, 248, 231, 0.8)' }}>{subtitle}</p>
+                </div>
+
+                <div className="p-6">
+                    <div className="mb-6">
+                        <h2
+                            className={`text-2xl font-serif font-bold ${headingClassName} cursor-pointer select-none text-center`}
+                            onPointerDown={startPress}
+                            onPointerUp={cancelPress}
+                            onPointerLeave={cancelPress}
+                            onPointerCancel={cancelPress}
+                            onContextMenu={e => e.preventDefault()}
+                        >
+                            {heading}
+                        </h2>
+                        {askExitPin && (
+                            <div className="mt-4">
+                                <PinPrompt
+                                    label="Staff PIN"
+                                    submitLabel="Exit"
+                                    onSubmit={async pin => {
+                                        if (!(await access.checkPin(pin))) return false;
+                                        onExit();
+                                        return true;
+                                    }}
+                                />
+                            </div>
+                        )}
+                    </div>
+
+                    {children}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CustomerDisplay;
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import CustomersView from './CustomersView';
+import RegisterPanel from './RegisterPanel';
+import { MetalCalculator } from './Calculator';
+import { EstimateContent } from './utils/estimate';
+import { field } from './test/fields';
+
+const content: EstimateContent = {
+    title: 'Gold Price Breakdown',
+    details: [],
+    lines: [{ label: 'Gold Value', amount: 66240 }],
+    subtotal: 66240,
+    taxLines: [],
+    total: 66240,
+};
+
+const addCustomer = async (user: ReturnType<typeof userEvent.setup>, name: string, phone: string) => {
+    await user.click(screen.getByRole('button', { name: '+ New Customer' }));
+    const form = screen.getByRole('button', { name: 'Add Customer' }).parentElement!;
+    await user.type(field('Name', form), name);
+    await user.type(field('Phone', form), phone);
+    await user.click(screen.getByRole('button', { name: 'Add Customer' }));
+};
+
+describe('CustomersView', () => {
+    it('adds customers, requires a name and searches the book', async () => {
+        const user = userEvent.setup();
+        render(<CustomersView />);
+        await user.click(screen.getByRole('button', { name: '+ New Customer' }));
+        await user.click(screen.getByRole('button', { name: 'Add Customer' }));
+        expect(screen.getByText('Name is required')).toBeInTheDocument();
+        await user.click(screen.getByRole('button', { name: 'Cancel' }));
+
+        await addCustomer(user, 'Ravi', '98765 43210');
+        await addCustomer(user, 'Anitha', '90000 11111');
+        expect(screen.getByRole('heading', { name: 'Anitha' })).toBeInTheDocument();
+
+        await user.type(screen.getByLabelText('Search customers'), '98765');
+        expect(screen.getByRole('button', { name: /^Ravi/ })).toBeInTheDocument();
+        expect(screen.queryByRole('button', { name: /^Anitha/ })).not.toBeInTheDocument();
+    });
+
+    it("shows the open customer's quotes, purchases and saved calculations", async () => {
+        const user = userEvent.setup();
+        const directory = render(<CustomersView />);
+        await addCustomer(user, 'Ravi', '98765 43210');
+        directory.unmount();
+
+        // Quotes and saves made while Ravi is open are attached to him
+        const panel = render(<RegisterPanel content={content} />);
+        expect(screen.getByLabelText('Customer name')).toHaveValue('Ravi');
+        await user.click(screen.getByRole('button', { name: 'Save Quote' }));
+        panel.unmount();
+
+        const calculator = render(<MetalCalculator metal="gold" />);
+        expect(screen.getByText('Ravi')).toBeInTheDocument();
+        await user.type(screen.getByText('Gold Price (per gram)').parentElement!.querySelector('input')!, '7200');
+        await user.type(screen.getByText('Gross Weight (grams)').parentElement!.querySelector('input')!, '10');
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+        await user.click(screen.getByRole('button', { name: 'Save' }));
+        expect(screen.getByText(/Total: ₹72,000.00 · Ravi/)).toBeInTheDocument();
+        calculator.unmount();
+
+        render(<CustomersView />);
+        const history = within(screen.getByText('Quotes & Purchases').parentElement!);
+        expect(history.getByText(/EST\/\d{4}-\d{2}\/0001 · Estimate/)).toBeInTheDocument();
+        expect(history.getByText('₹66,240.00')).toBeInTheDocument();
+        const saves = within(screen.getByText('Saved Calculations').parentElement!);
+        expect(await saves.findByText('916 Gold · 10g · 8% wastage')).toBeInTheDocument();
+        expect(saves.getByText('₹72,000.00')).toBeInTheDocument();
+
+        await user.click(screen.getByRole('button', { name: 'Close' }));
+        expect(screen.getByText('Open a customer to see their quotes and purchases.')).toBeInTheDocument();
+    });
+
+    it('edits the open customer', async () => {
+        const user = userEvent.setup();
+        render(<CustomersView />);
+        await addCustomer(user, 'Ravi', '98765 43210');
+        await user.click(screen.getByText('Details'));
+        await user.type(field('Notes'), 'Ring size 14');
+        await user.click(screen.getByRole('button', { name: 'Save Changes' }));
+        expect(screen.getByText('📝 Ring size 14')).toBeInTheDocument();
+        expect(JSON.parse(window.localStorage.getItem('customers')!)[0]).toMatchObject({ name: 'Ravi', notes: 'Ring size 14' });
+    });
+});
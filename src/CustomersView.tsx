@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { useLocalStorage } from './hooks/useLocalStorage';
+import { useCustomers } from './hooks/useCustomers';
+import { useRegister } from './hooks/useRegister';
+import { useSavedCalculations } from './hooks/useSavedCalculations';
+import { DeleteIcon } from './Icons';
+import { CustomerDraft, EMPTY_CUSTOMER, getCustomerRecords, searchCustomers } from './utils/customers';
+import { formatCurrency, formatPercent } from './utils/format';
+import { getMetal, METALS } from './utils/metals';
+import { Metal } from './utils/pricing';
+import { DEFAULT_PURITY_CATALOGUE, PurityCatalogue } from './utils/purity';
+import { DOCUMENT_KIND_LABELS, RECORD_STATUS_LABELS } from './utils/register';
+import { calculateTotalFromParams, describeSavedWeight } from './utils/saves';
+
+const inputClassName = 'mt-1 block w-full px-3 py-3 md:py-2 bg-white/50 border border-text-main/20 rounded-md shadow-sm focus:outline-none text-lg md:text-base';
+
+interface CustomerFormProps {
+    initial: CustomerDraft;
+    submitLabel: string;
+    onSubmit: (draft: CustomerDraft) => void;
+}
+
+const CustomerForm: React.FC<CustomerFormProps> = ({ initial, submitLabel, onSubmit }) => {
+    const [draft, setDraft] = useState(initial);
+    const [error, setError] = useState('');
+    const update = (changes: Partial<CustomerDraft>) => setDraft(prev => ({ ...prev, ...changes }));
+
+    const submit = () => {
+        if (!draft.name.trim()) {
+            setError('Name is required');
+            return;
+        }
+        setError('');
+        onSubmit(draft);
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label className="block text-lg md:text-base text-text-main/90">Name</label>
+                    <input type="text" value={draft.name} onChange={e => update({ name: e.target.value })} className={inputClassName} />
+                    {error && <p className="mt-1 text-base md:text-sm text-highlight-red">{error}</p>}
+                </div>
+                <div>
+                    <label className="block text-lg md:text-base text-text-main/90">Phone</label>
+                    <input type="tel" value={draft.phone} onChange={e => update({ phone: e.target.value })} placeholder="e.g., 98765 43210" className={inputClassName} />
+                </div>
+            </div>
+            <div>
+                <label className="block text-lg md:text-base text-text-main/90">Address</label>
+                <input type="text" value={draft.address} onChange={e => update({ address: e.target.value })} className={inputClassName} />
+            </div>
+            <div>
+                <label className="block text-lg md:text-base text-text-main/90">Notes</label>
+                <textarea value={draft.notes} onChange={e => update({ notes: e.target.value })} rows={2} placeholder="Ring size, preferred designs, occasions" className={inputClassName} />
+            </div>
+            <button onClick={submit} className="w-full bg-accent-maroon text-white font-bold py-3 px-4 rounded-lg hover:bg-accent-maroon/90 transition-colors">
+                {submitLabel}
+            </button>
+        </div>
+    );
+};
+
+interface CustomerSavesProps {
+    metal: Metal;
+    customerId: string;
+    catalogue: PurityCatalogue;
+}
+
+// Saved calculations for one metal that were made for this customer
+const CustomerSaves: React.FC<CustomerSavesProps> = ({ metal, customerId, catalogue }) => {
+    const saves = useSavedCalculations(metal).savedCalculations.filter(c => c.customerId === customerId);
+    const { name } = getMetal(metal);
+
+    return (
+        <>
+            {saves.map(c => (
+                <li key={c.id} className="flex justify-between p-3 rounded-md bg-white/40 text-lg md:text-base">
+                    <span>
+                        {c.purity} {name} · {describeSavedWeight(c)}
+                        {c.selectedPercent !== undefined && ` · ${formatPercent(c.selectedPercent)} wastage`}
+                    </span>
+                    <span className="font-medium">{formatCurrency(calculateTotalFromParams(c, metal, catalogue))}</span>
+                </li>
+            ))}
+        </>
+    );
+};
+
+const CustomersView: React.FC = () => {
+    const { customers, activeCustomer, setActiveCustomerId, addCustomer, editCustomer, removeCustomer } = useCustomers();
+    const { records } = useRegister();
+    const [catalogue] = useLocalStorage<PurityCatalogue>('purityCatalogue', DEFAULT_PURITY_CATALOGUE);
+    const [query, setQuery] = useState('');
+    const [adding, setAdding] = useState(false);
+
+    const visibleCustomers = searchCustomers(customers, query);
+    const history = activeCustomer ? getCustomerRecords(records, activeCustomer) : [];
+
+    const handleAdd = (draft: CustomerDraft) => {
+        const customer = addCustomer(draft);
+        setActiveCustomerId(customer.id);
+        setAdding(false);
+    };
+
+    return (
+        <div className="flex-grow p-4 md:p-6 grid grid-cols-1 md:grid-cols-2 gap-6 lg:gap-8 overflow-y-auto">
+            {/* Left Column: Directory */}
+            <div className="flex flex-col gap-4">
+                <div className="flex justify-between items-center">
+                    <h3 className="text-3xl md:text-2xl font-serif font-bold text-accent-maroon">Customers</h3>
+                    <button onClick={() => setAdding(!adding)} className="text-lg md:text-base font-semibold text-text-main/80 hover:text-text-main">
+                        {adding ? 'Cancel' : '+ New Customer'}
+                    </button>
+                </div>
+                {adding && (
+                    <div className="bg-ivory/60 p-4 rounded-lg border border-primary-gold/20 shadow-sm">
+                        <CustomerForm initial={EMPTY_CUSTOMER} submitLabel="Add Customer" onSubmit={handleAdd} />
+                    </div>
+                )}
+                <input
+                    type="search"
+                    value={query}
+                    onChange={e => setQuery(e.target.value)}
+                    placeholder="Search name or phone"
+                    aria-label="Search customers"
+                    className={inputClassName}
+                />
+                <div className="flex-grow bg-ivory/60 p-2 rounded-lg border border-primary-gold/20 shadow-sm overflow-y-auto">
+                    {visibleCustomers.length > 0 ? (
+                        <ul className="space-y-2">
+                            {visibleCustomers.map(customer => (
+                                <li key={customer.id} className={`group flex items-center justify-between p-4 md:p-3 rounded-md transition-colors ${customer.id === activeCustomer?.id ? 'bg-primary-gold/20' : 'hover:bg-primary-gold/10'}`}>
+                                    <button onClick={() => setActiveCustomerId(customer.id)} className="text-left flex-grow">
+                                        <p className="font-semibold text-text-main text-xl md:text-base">{customer.name}</p>
+                                        {customer.phone && <p className="text-lg md:text-sm text-text-main/70">{customer.phone}</p>}
+                                    </button>
+                                    <button onClick={() => removeCustomer(customer.id)} className="ml-2 p-1 text-highlight-red/50 hover:text-highlight-red opacity-0 group-hover:opacity-100 transition-opacity" aria-label={`Delete ${customer.name}`}>
+                                        <DeleteIcon />
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    ) : (
+                        <p className="text-center text-sm text-text-main/60 p-4">
+                            {customers.length > 0 ? 'No customers match this search.' : "No customers yet. Use '+ New Customer' to add one."}
+                        </p>
+                    )}
+                </div>
+            </div>
+
+            {/* Right Column: Open Customer */}
+            <div className="bg-ivory/60 p-4 rounded-lg border border-primary-gold/20 shadow-sm flex flex-col gap-4">
+                {activeCustomer ? (
+                    <>
+                        <div className="flex justify-between items-center">
+                            <h3 className="text-3xl md:text-2xl font-serif font-bold text-accent-maroon">{activeCustomer.name}</h3>
+                            <button onClick={() => setActiveCustomerId(null)} className="text-lg md:text-base font-semibold text-text-main/80 hover:text-text-main">
+                                Close
+                            </button>
+                        </div>
+                        <p className="text-base md:text-sm text-text-main/60">New quotes, saves and shares go to this customer until they are closed.</p>
+                        <details className="rounded-md border border-text-main/10 bg-white/40 p-4">
+                            <summary className="cursor-pointer text-xl md:text-lg font-medium text-text-main/90">Details</summary>
+                            <div className="mt-3">
+                                <CustomerForm
+                                    key={activeCustomer.id}
+                                    initial={activeCustomer}
+                                    submitLabel="Save Changes"
+                                    onSubmit={draft => editCustomer(activeCustomer.id, draft)}
+                                />
+                            </div>
+                        </details>
+                        {activeCustomer.address && <p className="text-lg md:text-base text-text-main/80">📍 {activeCustomer.address}</p>}
+                        {activeCustomer.notes && <p className="text-lg md:text-base text-text-main/80">📝 {activeCustomer.notes}</p>}
+
+                        <div>
+                            <h4 className="font-semibold text-accent-maroon mb-2 text-xl md:text-lg">Quotes & Purchases</h4>
+                            {history.length > 0 ? (
+                                <ul className="space-y-2">
+                                    {history.map(record => (
+                                        <li key={record.id} className="flex justify-between p-3 rounded-md bg-white/40 text-lg md:text-base">
+                                            <span>
+                                                {record.number} · {DOCUMENT_KIND_LABELS[record.kind]} · {new Date(record.createdAt).toLocaleDateString('en-IN')}
+                                                <span className="ml-2 text-text-main/60">{RECORD_STATUS_LABELS[record.status]}</span>
+                                            </span>
+                                            <span className="font-medium">{formatCurrency(record.snapshot.total)}</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            ) : (
+                                <p className="text-sm text-text-main/60">No estimates or invoices yet.</p>
+                            )}
+                        </div>
+                        <div>
+                            <h4 className="font-semibold text-accent-maroon mb-2 text-xl md:text-lg">Saved Calculations</h4>
+                            <ul className="space-y-2">
+                                {METALS.map(metal => (
+                                    <CustomerSaves key={metal.id} metal={metal.id} customerId={activeCustomer.id} catalogue={catalogue} />
+                                ))}
+                            </ul>
+                        </div>
+                    </>
+                ) : (
+                    <div className="flex items-center justify-center h-full">
+                        <p className="text-center text-text-main/60 p-4">Open a customer to see their quotes and purchases.</p>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default CustomersView;
@@ -0,0 +1,108 @@
+import React from 'react';
+import { ESTIMATE_TERMS, EstimateDocument, INVOICE_TERMS, PrintLayout } from './utils/estimate';
+import { formatCurrency } from './utils/format';
+
+interface EstimatePrintProps {
+    estimate: EstimateDocument;
+    layout: PrintLayout;
+}
+
+const PAGE_STYLES: Record<PrintLayout, { size: string; margin: string; width: string; fontSize: string }> = {
+    a5: { size: 'A5', margin: '10mm', width: '100%', fontSize: '11pt' },
+    a4: { size: 'A4', margin: '15mm', width: '100%', fontSize: '12pt' },
+    thermal58: { size: '58mm auto', margin: '2mm', width: '54mm', fontSize: '8pt' },
+    thermal80: { size: '80mm auto', margin: '3mm', width: '74mm', fontSize: '9pt' },
+};
+
+const Row: React.FC<{ label: string; value: string; bold?: boolean }> = ({ label, value, bold }) => (
+    <div style={{ display: 'flex', justifyContent: 'space-between', gap: '8px', fontWeight: bold ? 'bold' : 'normal' }}>
+        <span>{label}</span>
+        <span style={{ whiteSpace: 'nowrap' }}>{value}</span>
+    </div>
+);
+
+// Print-only rendering of an estimate; hidden on screen by the .print-only rule in index.css
+const EstimatePrint: React.FC<EstimatePrintProps> = ({ estimate, layout }) => {
+    const page = PAGE_STYLES[layout];
+    const isThermal = layout === 'thermal58' || layout === 'thermal80';
+    const rule = isThermal ? '1px dashed #000' : '1px solid #D4AF37';
+    const isInvoice = estimate.kind === 'invoice';
+    const terms = isInvoice ? INVOICE_TERMS : ESTIMATE_TERMS;
+
+    return (
+        <div className="print-only" style={{ width: page.width, fontSize: page.fontSize, color: '#222', fontFamily: isThermal ? 'monospace' : '\'Poppins\', sans-serif' }}>
+            <style>{`@page { size: ${page.size}; margin: ${page.margin}; }`}</style>
+
+            {/* Header */}
+            {isThermal ? (
+                <div style={{ textAlign: 'center', marginBottom: '4px' }}>
+                    <div style={{ fontWeight: 'bold', fontSize: '1.4em' }}>NL JEWELLERS</div>
+                    <div>{estimate.title}</div>
+                </div>
+            ) : (
+                <div style={{ background: 'linear-gradient(to right, #800000, #990000)', padding: '12px', textAlign: 'center', borderRadius: '6px', marginBottom: '12px' }}>
+                    <div style={{ fontFamily: '\'Playfair Display\', serif', fontWeight: 'bold', fontSize: '2em', color: '#D4AF37' }}>NL JEWELLERS</div>
+                    <div style={{ color: 'rgba(255, 248, 231, 0.9)' }}>{estimate.title}</div>
+                </div>
+            )}
+
+            <div style={{ borderBottom: rule, paddingBottom: '4px', marginBottom: '6px' }}>
+                <Row label={isInvoice ? 'Invoice No:' : 'Estimate No:'} value={estimate.number} bold />
+                <Row label="Date:" value={estimate.date} />
+                {estimate.customerName && <Row label="Customer:" value={estimate.customerName} />}
+                {estimate.customerPhone && <Row label="Phone:" value={estimate.customerPhone} />}
+            </div>
+
+            {/* Item Details */}
+            <div style={{ borderBottom: rule, paddingBottom: '4px', marginBottom: '6px' }}>
+                {estimate.details.map(detail => (
+                    <Row key={detail.label} label={`${detail.label}:`} value={detail.value} />
+                ))}
+            </div>
+
+            {/* Price Calculation */}
+            <div style={{ borderBottom: rule, paddingBottom: '4px', marginBottom: '6px' }}>
+                {estimate.lines.map((line, index) => (
+                    <div key={index} style={{ marginBottom: '3px' }}>
+                        <Row label={line.label} value={formatCurrency(line.amount)} />
+                        {line.note && <div style={{ fontSize: '0.85em', color: '#555', paddingLeft: '8px' }}>{line.note}</div>}
+                    </div>
+                ))}
+            </div>
+
+            {/* Totals */}
+            <div style={{ borderBottom: rule, paddingBottom: '4px', marginBottom: '6px' }}>
+                {estimate.taxLines.length > 0 && (
+                    <>
+                        <Row label="Subtotal:" value={formatCurrency(estimate.subtotal)} />
+                        {estimate.taxLines.map(line => (
+                            <Row key={line.label} label={`${line.label}:`} value={formatCurrency(line.amount)} />
+                        ))}
+                    </>
+                )}
+                {!!estimate.discount && <Row label="Less: Discount" value={`- ${formatCurrency(estimate.discount)}`} />}
+                <div style={{ fontSize: '1.2em', marginTop: '4px', color: isThermal ? '#000' : '#800000' }}>
+                    <Row label="Total Amount:" value={formatCurrency(estimate.total)} bold />
+                </div>
+            </div>
+
+            {estimate.exchange && (
+                <div style={{ borderBottom: rule, paddingBottom: '4px', marginBottom: '6px' }}>
+                    <Row label={`Less: ${estimate.exchange.label}`} value={`- ${formatCurrency(estimate.exchange.value)}`} />
+                    <Row label={`${estimate.exchange.balanceLabel}:`} value={formatCurrency(Math.abs(estimate.exchange.balance))} bold />
+                </div>
+            )}
+
+            {/* Terms */}
+            <div style={{ fontSize: '0.8em', color: '#444' }}>
+                <div style={{ fontWeight: 'bold', marginBottom: '2px' }}>Terms</div>
+                {terms.map((term, index) => (
+                    <div key={index}>{index + 1}. {term}</div>
+                ))}
+                <div style={{ textAlign: 'center', marginTop: '8px' }}>Thank you for visiting NL Jewellers</div>
+            </div>
+        </div>
+    );
+};
+
+export default EstimatePrint;
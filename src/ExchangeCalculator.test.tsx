@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import ExchangeCalculator from './ExchangeCalculator';
+import { MetalCalculator } from './Calculator';
+import { fill } from './test/fields';
+
+describe('ExchangeCalculator', () => {
+    it('values the old item and applies it to the next quote', async () => {
+        const user = userEvent.setup();
+        render(<ExchangeCalculator />);
+        await fill(user, 'Gross Weight (grams)', '15');
+        await fill(user, 'Touch %', '84');
+        await fill(user, 'Buy-back Rate (per gram, pure)', '7000');
+
+        expect(screen.getByText('Net Fine Weight:').nextElementSibling).toHaveTextContent('12.348 gm');
+        expect(screen.getByText('Exchange Value:').nextElementSibling).toHaveTextContent('₹86,436.00');
+
+        await user.click(screen.getByRole('button', { name: 'Apply to New Item Quote' }));
+        expect(JSON.parse(window.localStorage.getItem('activeExchange')!)).toEqual({
+            metal: 'gold', grossWeight: 15, touchPercent: 84, deductionPercent: 2, rate: 7000,
+        });
+
+        await user.click(screen.getByRole('button', { name: 'Remove' }));
+        expect(window.localStorage.getItem('activeExchange')).toBe('null');
+    });
+
+    it('rejects a touch above 100%', async () => {
+        const user = userEvent.setup();
+        render(<ExchangeCalculator />);
+        await fill(user, 'Gross Weight (grams)', '15');
+        await fill(user, 'Touch %', '120');
+        await fill(user, 'Buy-back Rate (per gram, pure)', '7000');
+        await user.click(screen.getByRole('button', { name: 'Apply to New Item Quote' }));
+
+        expect(screen.getByText('Must be 0-100')).toBeInTheDocument();
+        expect(window.localStorage.getItem('activeExchange')).toBe('null');
+    });
+
+    it('nets the applied exchange against the new gold quote in the customer view', async () => {
+        window.localStorage.setItem('activeExchange', JSON.stringify({ metal: 'gold', grossWeight: 15, touchPercent: 84, deductionPercent: 2, rate: 7000 }));
+        const user = userEvent.setup();
+        render(<MetalCalculator metal="gold" />);
+        await fill(user, 'Gold Price (per gram)', '7200');
+        await fill(user, 'Gross Weight (grams)', '10');
+        await user.click(screen.getByRole('checkbox', { name: 'Apply GST' }));
+        await user.click(screen.getByRole('button', { name: 'Calculate' }));
+        await user.click(screen.getByRole('button', { name: 'Show to Customer' }));
+
+        expect(screen.getByText('🔄 Old Gold Exchange')).toBeInTheDocument();
+        const refunds = screen.getAllByText('Refund to Customer:');
+        expect(refunds[refunds.length - 1].nextElementSibling).toHaveTextContent('₹14,436.00');
+    });
+});
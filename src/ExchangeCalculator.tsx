@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { useLocalStorage } from './hooks/useLocalStorage';
+import { calculateExchange, OldMetalExchange } from './utils/exchange';
+import { formatCurrency } from './utils/format';
+import { getMetal, METALS } from './utils/metals';
+import { Metal } from './utils/pricing';
+
+type ExchangeField = 'grossWeight' | 'touchPercent' | 'deductionPercent' | 'rate';
+
+const ExchangeCalculator: React.FC = () => {
+    const [activeExchange, setActiveExchange] = useLocalStorage<OldMetalExchange | null>('activeExchange', null);
+
+    const [metal, setMetal] = useState<Metal>(activeExchange?.metal ?? 'gold');
+    const [grossWeight, setGrossWeight] = useState(activeExchange ? String(activeExchange.grossWeight) : '');
+    const [touchPercent, setTouchPercent] = useState(activeExchange ? String(activeExchange.touchPercent) : '');
+    const [deductionPercent, setDeductionPercent] = useState(activeExchange ? String(activeExchange.deductionPercent) : '2');
+    const [rate, setRate] = useState(activeExchange ? String(activeExchange.rate) : '');
+    const [errors, setErrors] = useState<Partial<Record<ExchangeField, string>>>({});
+
+    const validate = () => {
+        const newErrors: Partial<Record<ExchangeField, string>> = {};
+        if (!grossWeight || parseFloat(grossWeight) <= 0) newErrors.grossWeight = 'Invalid weight';
+        if (!touchPercent || parseFloat(touchPercent) <= 0 || parseFloat(touchPercent) > 100) newErrors.touchPercent = 'Must be 0-100';
+        if (!deductionPercent || parseFloat(deductionPercent) < 0 || parseFloat(deductionPercent) >= 100) newErrors.deductionPercent = 'Invalid %';
+        if (!rate || parseFloat(rate) <= 0) newErrors.rate = 'Invalid rate';
+
+        setErrors(newErrors);
+        return Object.keys(newErrors).length === 0;
+    };
+
+    const exchange: OldMetalExchange = {
+        metal,
+        grossWeight: parseFloat(grossWeight) || 0,
+        touchPercent: parseFloat(touchPercent) || 0,
+        deductionPercent: parseFloat(deductionPercent) || 0,
+        rate: parseFloat(rate) || 0,
+    };
+    const result = calculateExchange(exchange);
+
+    const handleApply = () => {
+        if (!validate()) return;
+        setActiveExchange(exchange);
+    };
+
+    const renderInputField = (label: string, value: string, setter: (val: string) => void, name: ExchangeField, placeholder: string) => (
+        <div>
+            <label className="block text-xl md:text-lg font-medium text-text-main/90">{label}</label>
+            <input
+                type="number"
+                value={value}
+                onChange={e => setter(e.target.value)}
+                placeholder={placeholder}
+                className={`mt-1 block w-full px-4 py-4 md:py-3 bg-ivory/50 border ${errors[name] ? 'border-highlight-red' : 'border-accent-maroon/30'} rounded-md shadow-sm focus:outline-none focus:ring-accent-maroon focus:border-accent-maroon text-xl md:text-lg`}
+            />
+            {errors[name] && <p className="mt-1 text-base md:text-sm text-highlight-red">{errors[name]}</p>}
+        </div>
+    );
+
+    return (
+        <div className="flex-grow p-4 md:p-6 grid grid-cols-1 md:grid-cols-2 gap-6 lg:gap-8 overflow-y-auto">
+            {/* Left Column: Old Item */}
+            <div className="bg-ivory/60 p-8 rounded-lg border border-accent-maroon/20 shadow-sm">
+                <h3 className="text-3xl md:text-2xl font-serif font-bold text-accent-maroon mb-4">Old Item</h3>
+                <div className="space-y-5">
+                    <div>
+                        <label className="block text-xl md:text-lg font-medium text-text-main/90">Metal</label>
+                        <select value={metal} onChange={e => setMetal(e.target.value as Metal)} className="mt-1 block w-full px-4 py-4 md:py-3 bg-ivory/50 border border-accent-maroon/30 rounded-md shadow-sm focus:outline-none focus:ring-accent-maroon focus:border-accent-maroon text-xl md:text-lg">
+                            {METALS.map(definition => (
+                                <option key={definition.id} value={definition.id}>Old {definition.name}</option>
+                            ))}
+                        </select>
+                    </div>
+                    {renderInputField("Gross Weight (grams)", grossWeight, setGrossWeight, 'grossWeight', 'e.g., 15')}
+                    <div className="grid grid-cols-2 gap-4">
+                        {renderInputField("Touch %", touchPercent, setTouchPercent, 'touchPercent', 'e.g., 84')}
+                        {renderInputField("Melting / Deduction %", deductionPercent, setDeductionPercent, 'deductionPercent', 'e.g., 2')}
+                    </div>
+                    {renderInputField("Buy-back Rate (per gram, pure)", rate, setRate, 'rate', getMetal(metal).ratePlaceholder)}
+                    <div className="flex gap-4 pt-2">
+                        <button onClick={handleApply} className="w-full bg-accent-maroon text-white font-bold py-4 md:py-3 px-4 rounded-lg hover:bg-accent-maroon/90 transition-colors text-xl md:text-lg">Apply to New Item Quote</button>
+                        {activeExchange && (
+                            <button onClick={() => setActiveExchange(null)} className="w-full bg-ivory border border-accent-maroon text-accent-maroon font-bold py-4 md:py-3 px-4 rounded-lg hover:bg-accent-maroon/10 transition-colors text-xl md:text-lg">Remove</button>
+                        )}
+                    </div>
+                </div>
+            </div>
+
+            {/* Right Column: Exchange Value */}
+            <div className="bg-ivory/60 p-4 rounded-lg border border-accent-maroon/20 shadow-sm flex flex-col">
+                <h3 className="text-3xl md:text-2xl font-serif font-bold text-accent-maroon mb-4">Exchange Value</h3>
+                <div className="bg-white/50 p-4 rounded-md shadow-inner border border-accent-maroon/10 space-y-2 text-xl md:text-lg">
+                    <div className="flex justify-between">
+                        <span className="text-text-main/80">Fine Weight:</span>
+                        <span className="font-medium text-text-main">{result.fineWeight.toFixed(3)} gm</span>
+                    </div>
+                    <div className="flex justify-between">
+                        <span className="text-text-main/80">Less Melting ({exchange.deductionPercent}%):</span>
+                        <span className="font-medium text-text-main">{result.deductionWeight.toFixed(3)} gm</span>
+                    </div>
+                    <div className="flex justify-between">
+                        <span className="text-text-main/80">Net Fine Weight:</span>
+                        <span className="font-medium text-text-main">{result.netFineWeight.toFixed(3)} gm</span>
+                    </div>
+                    <div className="flex justify-between font-bold text-3xl md:text-2xl border-t-2 pt-2 mt-2 border-accent-maroon/20 text-accent-maroon">
+                        <span>Exchange Value:</span>
+                        <span>{formatCurrency(result.value)}</span>
+                    </div>
+                </div>
+                <p className="mt-4 text-lg md:text-base text-text-main/70 text-center">
+                    {activeExchange
+                        ? `Applied: ${formatCurrency(calculateExchange(activeExchange).value)} will be netted against the next Gold or Silver quote.`
+                        : 'Apply the exchange, then quote the new item on the Gold or Silver tab to see the balance.'}
+                </p>
+            </div>
+        </div>
+    );
+};
+
+export default ExchangeCalculator;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { calculateBalance, calculateExchange, getBalanceLabel, getExchangeLabel, OldMetalExchange } from './utils/exchange';
+import { formatCurrency } from './utils/format';
+
+interface ExchangeSummaryProps {
+    exchange: OldMetalExchange;
+    newItemTotal: number;
+    className?: string;
+}
+
+// Nets an applied old-metal exchange against the new item's total
+const ExchangeSummary: React.FC<ExchangeSummaryProps> = ({ exchange, newItemTotal, className = '' }) => {
+    const result = calculateExchange(exchange);
+    const balance = calculateBalance(newItemTotal, result.value);
+
+    return (
+        <div className={`space-y-1 ${className}`}>
+            <div className="flex justify-between">
+                <span className="text-text-main/70">Less: {getExchangeLabel(exchange)}:</span>
+                <span className="font-semibold text-text-main">- {formatCurrency(result.value)}</span>
+            </div>
+            <div className="text-sm text-text-main/60 pl-4">
+                {result.netFineWeight.toFixed(3)} grams fine after {exchange.deductionPercent}% melting × {formatCurrency(exchange.rate)}/gram
+            </div>
+            <div className={`flex justify-between font-bold text-xl pt-1 ${balance >= 0 ? 'text-accent-maroon' : 'text-green-700'}`}>
+                <span>{getBalanceLabel(balance)}:</span>
+                <span>{formatCurrency(Math.abs(balance))}</span>
+            </div>
+        </div>
+    );
+};
+
+export default ExchangeSummary;
@@ -0,0 +1,41 @@
+import React, { useState } from 'react';
+
+interface PinPromptProps {
+    label: string;
+    submitLabel: string;
+    onSubmit: (pin: string) => Promise<boolean>;    // False when the PIN is wrong
+}
+
+const PinPrompt: React.FC<PinPromptProps> = ({ label, submitLabel, onSubmit }) => {
+    const [pin, setPin] = useState('');
+    const [error, setError] = useState('');
+
+    const submit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const accepted = await onSubmit(pin);
+        setPin('');
+        setError(accepted ? '' : 'Wrong PIN');
+    };
+
+    return (
+        <form onSubmit={submit} className="flex flex-wrap items-end gap-2">
+            <div className="flex-grow">
+                <label className="block text-lg md:text-base text-text-main/90">{label}</label>
+                <input
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    value={pin}
+                    onChange={e => setPin(e.target.value)}
+                    className="mt-1 block w-full px-3 py-3 md:py-2 bg-white/50 border border-text-main/20 rounded-md shadow-sm focus:outline-none text-lg md:text-base"
+                />
+            </div>
+            <button type="submit" className="bg-accent-maroon text-white font-bold py-3 md:py-2 px-4 rounded-lg hover:bg-accent-maroon/90 transition-colors text-lg md:text-base">
+                {submitLabel}
+            </button>
+            {error && <p className="w-full text-base md:text-sm text-highlight-red">{error}</p>}
+        </form>
+    );
+};
+
+export default PinPrompt;
@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import PrintControls from './PrintControls';
+import { EstimateDocument } from './utils/estimate';
+
+const estimate: EstimateDocument = {
+    kind: 'estimate',
+    number: 'EST/2026-27/0001',
+    date: '19/10/2026',
+    customerName: 'Lakshmi',
+    customerPhone: '98400 12345',
+    title: 'Gold Price Breakdown',
+    details: [{ label: 'Gold Type', value: '916 (22 Karat)' }],
+    lines: [
+        { label: 'Gold Value', amount: 66240, note: '10.000 grams × ₹6,624.00/gram' },
+        { label: 'Wastage Charges', amount: 5760 },
+    ],
+    subtotal: 72000,
+    taxLines: [{ label: 'CGST (1.5%)', amount: 1080 }, { label: 'SGST (1.5%)', amount: 1080 }],
+    total: 74160,
+};
+
+describe('PrintControls', () => {
+    it('prints the supplied estimate outside the app root and removes it afterwards', async () => {
+        const printed: string[] = [];
+        const print = vi.spyOn(window, 'print').mockImplementation(() => {
+            printed.push(document.querySelector('.print-only')?.textContent ?? '');
+        });
+        const user = userEvent.setup();
+        render(<PrintControls getDocument={() => estimate} />);
+
+        await user.click(screen.getByRole('button', { name: 'Print Estimate' }));
+
+        expect(print).toHaveBeenCalledTimes(1);
+        expect(printed[0]).toContain('Estimate No:EST/2026-27/0001');
+        expect(printed[0]).toContain('Customer:Lakshmi');
+        expect(printed[0]).toContain('Total Amount:₹74,160.00');
+        expect(printed[0]).toContain('This is an estimate and not a tax invoice.');
+        expect(document.querySelector('.print-only')).toBeNull();
+        print.mockRestore();
+    });
+
+    it('remembers the chosen layout and sizes the page for it', async () => {
+        let pageRule = '';
+        const print = vi.spyOn(window, 'print').mockImplementation(() => {
+            pageRule = document.querySelector('.print-only style')?.textContent ?? '';
+        });
+        const user = userEvent.setup();
+        render(<PrintControls getDocument={() => estimate} />);
+
+        await user.selectOptions(screen.getByLabelText('Print layout'), 'thermal58');
+        await user.click(screen.getByRole('button', { name: 'Print Estimate' }));
+
+        expect(pageRule).toContain('size: 58mm auto');
+        expect(JSON.parse(window.localStorage.getItem('printLayout')!)).toBe('thermal58');
+        print.mockRestore();
+    });
+
+    it('prints invoices with the invoice number and terms', async () => {
+        let printed = '';
+        const print = vi.spyOn(window, 'print').mockImplementation(() => {
+            printed = document.querySelector('.print-only')?.textContent ?? '';
+        });
+        const user = userEvent.setup();
+        render(<PrintControls getDocument={() => ({ ...estimate, kind: 'invoice', number: 'INV/2026-27/0001' })} label="Print Invoice" />);
+
+        await user.click(screen.getByRole('button', { name: 'Print Invoice' }));
+
+        expect(printed).toContain('Invoice No:INV/2026-27/0001');
+        expect(printed).not.toContain('This is an estimate and not a tax invoice.');
+        print.mockRestore();
+    });
+});
@@ -0,0 +1,49 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useLocalStorage } from './hooks/useLocalStorage';
+import EstimatePrint from './EstimatePrint';
+import { EstimateDocument, PRINT_LAYOUT_LABELS, PrintLayout } from './utils/estimate';
+
+interface PrintControlsProps {
+    getDocument: () => EstimateDocument; // Called on print so a register number is only issued when needed
+    label?: string;
+}
+
+const PrintControls: React.FC<PrintControlsProps> = ({ getDocument, label = 'Print Estimate' }) => {
+    const [layout, setLayout] = useLocalStorage<PrintLayout>('printLayout', 'a5');
+    const [printing, setPrinting] = useState<EstimateDocument | null>(null);
+
+    // Print once the estimate has been rendered into the portal, then tear it down
+    useEffect(() => {
+        if (!printing) return;
+        window.print();
+        setPrinting(null);
+    }, [printing]);
+
+    return (
+        <div className="flex gap-2">
+            <select
+                value={layout}
+                onChange={e => setLayout(e.target.value as PrintLayout)}
+                aria-label="Print layout"
+                className="px-3 py-3 bg-white/60 border border-text-main/20 rounded-lg text-base"
+            >
+                {(Object.keys(PRINT_LAYOUT_LABELS) as PrintLayout[]).map(option => (
+                    <option key={option} value={option}>{PRINT_LAYOUT_LABELS[option]}</option>
+                ))}
+            </select>
+            <button
+                onClick={() => setPrinting(getDocument())}
+                className="flex-grow bg-text-main text-white font-bold py-3 px-4 rounded-lg hover:bg-text-main/90 transition-colors flex items-center justify-center gap-2"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" />
+                </svg>
+                {label}
+            </button>
+            {printing && createPortal(<EstimatePrint estimate={printing} layout={layout} />, document.body)}
+        </div>
+    );
+};
+
+export default PrintControls;
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { DeleteIcon } from './Icons';
+import { Metal } from './utils/pricing';
+import { getMetalName, METALS } from './utils/metals';
+import { DEFAULT_PURITY_CATALOGUE, getPurityOptions, PurityCatalogue, PurityOption, validatePurityOptions } from './utils/purity';
+
+interface PurityCatalogueEditorProps {
+    catalogue: PurityCatalogue;
+    onChange: (catalogue: PurityCatalogue) => void;
+}
+
+// Purity rows as typed into the editor
+interface PurityOptionInput {
+    code: string;
+    name: string;
+    factor: string;
+    minWastage: string;
+    maxWastage: string;
+    floorWastage: string;   // Blank for no floor
+}
+
+type CatalogueDraft = Record<Metal, PurityOptionInput[]>;
+
+const inputClassName = 'block w-full px-3 py-3 md:py-2 bg-white/50 border border-text-main/20 rounded-md shadow-sm focus:outline-none text-lg md:text-base';
+
+const emptyOption: PurityOptionInput = { code: '', name: '', factor: '', minWastage: '', maxWastage: '', floorWastage: '' };
+
+const toInput = (option: PurityOption): PurityOptionInput => ({
+    code: option.code,
+    name: option.name,
+    factor: String(option.factor),
+    minWastage: String(option.minWastage),
+    maxWastage: String(option.maxWastage),
+    floorWastage: option.floorWastage !== undefined ? String(option.floorWastage) : '',
+});
+
+const toDraft = (catalogue: PurityCatalogue): CatalogueDraft =>
+    Object.fromEntries(METALS.map(metal => [metal.id, getPurityOptions(catalogue, metal.id).map(toInput)])) as CatalogueDraft;
+
+const parseOption = (input: PurityOptionInput): PurityOption => ({
+    code: input.code.trim(),
+    name: input.name.trim(),
+    factor: parseFloat(input.factor),
+    minWastage: parseFloat(input.minWastage),
+    maxWastage: parseFloat(input.maxWastage),
+    ...(input.floorWastage.trim() ? { floorWastage: parseFloat(input.floorWastage) } : {}),
+});
+
+const PurityCatalogueEditor: React.FC<PurityCatalogueEditorProps> = ({ catalogue, onChange }) => {
+    const [draft, setDraft] = useState<CatalogueDraft>(() => toDraft(catalogue));
+    const [error, setError] = useState('');
+    const [saved, setSaved] = useState(false);
+
+    const updateOption = (metal: Metal, index: number, changes: Partial<PurityOptionInput>) => {
+        setDraft(prev => ({ ...prev, [metal]: prev[metal].map((option, i) => i === index ? { ...option, ...changes } : option) }));
+        setSaved(false);
+    };
+
+    const setOptions = (metal: Metal, options: PurityOptionInput[]) => {
+        setDraft(prev => ({ ...prev, [metal]: options }));
+        setSaved(false);
+    };
+
+    const handleSave = () => {
+        const next: PurityCatalogue = {};
+        for (const { id: metal } of METALS) {
+            const options = draft[metal].map(parseOption);
+            const problem = validatePurityOptions(options);
+            if (problem) {
+                setError(`${getMetalName(metal)}: ${problem}`);
+                return;
+            }
+            next[metal] = options;
+        }
+        setError('');
+        setSaved(true);
+        onChange(next);
+    };
+
+    const handleReset = () => {
+        setDraft(toDraft(DEFAULT_PURITY_CATALOGUE));
+        setSaved(false);
+    };
+
+    return (
+        <details className="rounded-md border border-text-main/10 bg-white/40 p-4">
+            <summary className="cursor-pointer text-xl md:text-lg font-medium text-text-main/90">Purity Catalogue</summary>
+            <div className="mt-3 space-y-5">
+                {METALS.map(({ id: metal }) => (
+                    <div key={metal}>
+                        <div className="flex justify-between items-center">
+                            <h4 className="text-xl md:text-lg font-semibold text-accent-maroon">{getMetalName(metal)}</h4>
+                            <button
+                                type="button"
+                                onClick={() => setOptions(metal, [...draft[metal], emptyOption])}
+                                className="text-lg md:text-base font-semibold text-text-main/80 hover:text-text-main"
+                            >
+                                + Add Purity
+                            </button>
+                        </div>
+                        <div className="mt-2 grid grid-cols-[1fr_2fr_1fr_1fr_1fr_1fr_auto] gap-2 text-sm text-text-main/60">
+                            <span>Code</span><span>Name</span><span>Fineness</span><span>Min %</span><span>Max %</span><span>Floor %</span><span />
+                        </div>
+                        <ul className="space-y-2">
+                            {draft[metal].map((option, index) => (
+                                <li key={index} aria-label={`${getMetalName(metal)} purity ${index + 1}`} className="grid grid-cols-[1fr_2fr_1fr_1fr_1fr_1fr_auto] gap-2 items-center">
+                                    <input type="text" value={option.code} onChange={e => updateOption(metal, index, { code: e.target.value })} aria-label="Purity code" className={inputClassName} />
+                                    <input type="text" value={option.name} onChange={e => updateOption(metal, index, { name: e.target.value })} aria-label="Purity name" className={inputClassName} />
+                                    <input type="number" step="0.001" value={option.factor} onChange={e => updateOption(metal, index, { factor: e.target.value })} aria-label="Fineness" className={inputClassName} />
+                                    <input type="number" value={option.minWastage} onChange={e => updateOption(metal, index, { minWastage: e.target.value })} aria-label="Min wastage %" className={inputClassName} />
+                                    <input type="number" value={option.maxWastage} onChange={e => updateOption(metal, index, { maxWastage: e.target.value })} aria-label="Max wastage %" className={inputClassName} />
+                                    <input type="number" value={option.floorWastage} onChange={e => updateOption(metal, index, { floorWastage: e.target.value })} placeholder="None" aria-label="Floor wastage %" className={inputClassName} />
+                                    <button
+                                        type="button"
+                                        onClick={() => setOptions(metal, draft[metal].filter((_, i) => i !== index))}
+                                        className="p-1 text-highlight-red/60 hover:text-highlight-red"
+                                        aria-label="Remove purity"
+                                    >
+                                        <DeleteIcon />
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                ))}
+                {error && <p className="text-base md:text-sm text-highlight-red">{error}</p>}
+                {saved && <p className="text-base md:text-sm text-text-main/70">Catalogue saved.</p>}
+                <div className="flex gap-4">
+                    <button onClick={handleSave} className="w-full bg-primary-gold text-text-main font-bold py-3 px-4 rounded-lg hover:bg-button-hover-gold transition-colors text-lg md:text-base">
+                        Save Catalogue
+                    </button>
+                    <button onClick={handleReset} className="w-full bg-ivory border border-primary-gold text-primary-gold font-bold py-3 px-4 rounded-lg hover:bg-primary-gold/10 transition-colors text-lg md:text-base">
+                        Reset to Defaults
+                    </button>
+                </div>
+            </div>
+        </details>
+    );
+};
+
+export default PurityCatalogueEditor;
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import RateBoard from './RateBoard';
+import { field } from './test/fields';
+
+describe('RateBoard', () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date(2026, 9, 19, 11));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("saves today's rates into the history, replacing an earlier save the same day", async () => {
+        window.localStorage.setItem('rateHistory', JSON.stringify([{ date: '2026-10-18', rates: { 'gold:999': 7150, 'silver:999': 94 } }]));
+        const user = userEvent.setup();
+        render(<RateBoard />);
+
+        expect(screen.getByText("⚠️ Last updated 18/10/2026. Set today's rates.")).toBeInTheDocument();
+        expect(field('Gold 999 (24 Karat) (per gram)')).toHaveValue(7150);
+
+        await user.clear(field('Gold 999 (24 Karat) (per gram)'));
+        await user.type(field('Gold 999 (24 Karat) (per gram)'), '7200');
+        await user.click(screen.getByRole('button', { name: "Save Today's Rates" }));
+        await user.type(field('Gold 916 (22 Karat) (per gram)'), '6650');
+        await user.click(screen.getByRole('button', { name: "Save Today's Rates" }));
+
+        expect(screen.getByText('Updated today.')).toBeInTheDocument();
+        expect(screen.getByRole('img', { name: 'Rate history chart' })).toBeInTheDocument();
+        expect(JSON.parse(window.localStorage.getItem('rateHistory')!)).toEqual([
+            { date: '2026-10-18', rates: { 'gold:999': 7150, 'silver:999': 94 } },
+            { date: '2026-10-19', rates: { 'gold:999': 7200, 'gold:916': 6650, 'silver:999': 94 } },
+        ]);
+    });
+
+    it('rejects a board with no rates', async () => {
+        const user = userEvent.setup();
+        render(<RateBoard />);
+
+        await user.click(screen.getByRole('button', { name: "Save Today's Rates" }));
+        expect(screen.getByText('Enter at least one rate')).toBeInTheDocument();
+        expect(JSON.parse(window.localStorage.getItem('rateHistory')!)).toEqual([]);
+    });
+
+    it('edits the purity catalogue and offers a rate for each purity', async () => {
+        const user = userEvent.setup();
+        render(<RateBoard />);
+
+        await user.click(screen.getByText('Purity Catalogue'));
+        const silverRows = screen.getAllByRole('listitem').filter(row => row.getAttribute('aria-label')?.startsWith('Silver'));
+        expect(silverRows.map(row => (within(row).getByLabelText('Purity code') as HTMLInputElement).value)).toEqual(['999', '958', '925', '800']);
+
+        await user.click(within(silverRows[3]).getByRole('button', { name: 'Remove purity' }));
+        const sterling = within(silverRows[2]);
+        await user.clear(sterling.getByLabelText('Min wastage %'));
+        await user.type(sterling.getByLabelText('Min wastage %'), '25');
+        await user.click(screen.getByRole('button', { name: 'Save Catalogue' }));
+        expect(screen.getByText('Silver: Wastage range for 925 is invalid')).toBeInTheDocument();
+
+        await user.clear(sterling.getByLabelText('Min wastage %'));
+        await user.type(sterling.getByLabelText('Min wastage %'), '14');
+        await user.click(screen.getByRole('button', { name: 'Save Catalogue' }));
+
+        const stored = JSON.parse(window.localStorage.getItem('purityCatalogue')!);
+        expect(stored.silver.map((option: { code: string }) => option.code)).toEqual(['999', '958', '925']);
+        expect(stored.silver[2]).toMatchObject({ code: '925', minWastage: 14, maxWastage: 20 });
+        expect(screen.getByText('Silver 925 (Sterling Silver) (per gram)')).toBeInTheDocument();
+        expect(screen.queryByText('Silver 800 (80 Touch Silver) (per gram)')).not.toBeInTheDocument();
+    });
+});
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { useLocalStorage } from './hooks/useLocalStorage';
+import { formatCurrency, formatDateKey, toDateKey } from './utils/format';
+import { DailyRates, getLatestRates, getRateKey, getRateSeries, getRateSlots, isStaleRate, upsertDailyRates } from './utils/rates';
+import { DEFAULT_PURITY_CATALOGUE, PurityCatalogue } from './utils/purity';
+import PurityCatalogueEditor from './PurityCatalogueEditor';
+import { Access, can, OPEN_ACCESS } from './utils/access';
+import { useAuditLog } from './hooks/useAuditLog';
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 200;
+const CHART_DAYS = 30;
+
+const RateChart: React.FC<{ series: Array<{ date: string; rate: number }> }> = ({ series }) => {
+    if (series.length < 2) {
+        return <p className="text-center text-sm text-text-main/60 p-4">Save rates on at least two days to see a trend.</p>;
+    }
+
+    const rates = series.map(point => point.rate);
+    const min = Math.min(...rates);
+    const max = Math.max(...rates);
+    const spread = max - min || 1;
+    const points = series
+        .map((point, index) => {
+            const x = (index / (series.length - 1)) * CHART_WIDTH;
+            const y = CHART_HEIGHT - ((point.rate - min) / spread) * (CHART_HEIGHT - 20) - 10;
+            return `${x.toFixed(1)},${y.toFixed(1)}`;
+        })
+        .join(' ');
+
+    return (
+        <div>
+            <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-48" role="img" aria-label="Rate history chart">
+                <polyline points={points} fill="none" stroke="#800000" strokeWidth={3} strokeLinejoin="round" />
+            </svg>
+            <div className="flex justify-between text-sm text-text-main/70">
+                <span>{formatDateKey(series[0].date)}</span>
+                <span>Low {formatCurrency(min)} · High {formatCurrency(max)}</span>
+                <span>{formatDateKey(series[series.length - 1].date)}</span>
+            </div>
+        </div>
+    );
+};
+
+interface RateBoardProps {
+    access?: Access;
+}
+
+const RateBoard: React.FC<RateBoardProps> = ({ access = OPEN_ACCESS }) => {
+    const [rateHistory, setRateHistory] = useLocalStorage<DailyRates[]>('rateHistory', []);
+    const [catalogue, setCatalogue] = useLocalStorage<PurityCatalogue>('purityCatalogue', DEFAULT_PURITY_CATALOGUE);
+    const rateSlots = getRateSlots(catalogue);
+    const latest = getLatestRates(rateHistory);
+    const today = toDateKey(new Date());
+    const canEditRates = can(access.role, 'editRates');
+    const { logEvent } = useAuditLog(access);
+
+    const [values, setValues] = useState<Record<string, string>>(() =>
+        Object.fromEntries(Object.entries(latest?.rates ?? {}).map(([key, rate]) => [key, String(rate)])));
+    const [error, setError] = useState('');
+    const [chartKey, setChartKey] = useState(getRateKey(rateSlots[0].metal, rateSlots[0].purity));
+
+    const handleSave = () => {
+        const rates: Record<string, number> = {};
+        for (const [key, value] of Object.entries(values)) {
+            if (!value) continue;
+            const rate = parseFloat(value);
+            if (!(rate > 0)) {
+                setError('Rates must be greater than zero');
+                return;
+            }
+            rates[key] = rate;
+        }
+        if (Object.keys(rates).length === 0) {
+            setError('Enter at least one rate');
+            return;
+        }
+        setError('');
+        setRateHistory(prev => upsertDailyRates(prev, { date: today, rates }));
+        // One entry per rate that moved from the last board
+        logEvent(...rateSlots.flatMap(slot => {
+            const key = getRateKey(slot.metal, slot.purity);
+            const previous = latest?.rates[key];
+            if (rates[key] === undefined || rates[key] === previous) return [];
+            return [{ action: 'rateChanged' as const, metal: slot.metal, description: slot.label, amount: rates[key], previousAmount: previous }];
+        }));
+    };
+
+    const chartSlot = rateSlots.find(slot => getRateKey(slot.metal, slot.purity) === chartKey) ?? rateSlots[0];
+    const series = getRateSeries(rateHistory, chartSlot.metal, chartSlot.purity).slice(-CHART_DAYS);
+
+    return (
+        <div className="flex-grow p-4 md:p-6 grid grid-cols-1 md:grid-cols-2 gap-6 lg:gap-8 overflow-y-auto">
+            {/* Left Column: Today's Rates */}
+            <div className="bg-ivory/60 p-8 rounded-lg border border-primary-gold/20 shadow-sm">
+                <h3 className="text-3xl md:text-2xl font-serif font-bold text-accent-maroon mb-2">Today's Rates</h3>
+                <p className={`mb-4 text-lg md:text-base ${isStaleRate(latest, today) ? 'text-highlight-red font-semibold' : 'text-text-main/70'}`}>
+                    {!latest && 'No rates set yet.'}
+                    {latest && (isStaleRate(latest, today) ? `⚠️ Last updated ${formatDateKey(latest.date)}. Set today's rates.` : 'Updated today.')}
+                </p>
+                <div className="space-y-4">
+                    {rateSlots.map(slot => {
+                        const key = getRateKey(slot.metal, slot.purity);
+                        return (
+                            <div key={key}>
+                                <label className="block text-xl md:text-lg font-medium text-text-main/90">{slot.label} (per gram)</label>
+                                <input
+                                    type="number"
+                                    value={values[key] ?? ''}
+                                    onChange={e => setValues(prev => ({ ...prev, [key]: e.target.value }))}
+                                    disabled={!canEditRates}
+                                    className="mt-1 block w-full px-4 py-4 md:py-3 bg-ivory/50 border border-primary-gold/50 rounded-md shadow-sm focus:outline-none focus:ring-primary-gold focus:border-primary-gold text-xl md:text-lg disabled:opacity-60"
+                                />
+                            </div>
+                        );
+                    })}
+                    <p className="text-base md:text-sm text-text-main/60">Leave a purity blank to price it from the 999 rate by its fineness.</p>
+                    {error && <p className="text-base md:text-sm text-highlight-red">{error}</p>}
+                    {canEditRates ? (
+                        <button onClick={handleSave} className="w-full bg-primary-gold text-text-main font-bold py-4 md:py-3 px-4 rounded-lg hover:bg-button-hover-gold transition-colors text-xl md:text-lg">
+                            Save Today's Rates
+                        </button>
+                    ) : (
+                        <p className="text-lg md:text-base font-semibold text-text-main/70">🔒 Only the owner can change rates and the purity catalogue.</p>
+                    )}
+                    {can(access.role, 'editWastage') && <PurityCatalogueEditor catalogue={catalogue} onChange={setCatalogue} />}
+                </div>
+            </div>
+
+            {/* Right Column: History */}
+            <div className="bg-ivory/60 p-4 rounded-lg border border-primary-gold/20 shadow-sm flex flex-col gap-4">
+                <div className="flex justify-between items-center">
+                    <h3 className="text-3xl md:text-2xl font-serif font-bold text-accent-maroon">Rate History</h3>
+                    <select
+                        value={chartKey}
+                        onChange={e => setChartKey(e.target.value)}
+                        aria-label="Chart rate"
+                        className="px-3 py-2 bg-white/60 border border-text-main/20 rounded-md text-base"
+                    >
+                        {rateSlots.map(slot => (
+                            <option key={getRateKey(slot.metal, slot.purity)} value={getRateKey(slot.metal, slot.purity)}>{slot.label}</option>
+                        ))}
+                    </select>
+                </div>
+                <RateChart series={series} />
+                {rateHistory.length > 0 && (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-base md:text-sm">
+                            <thead>
+                                <tr className="text-left text-text-main/70">
+                                    <th className="p-2">Date</th>
+                                    {rateSlots.map(slot => <th key={getRateKey(slot.metal, slot.purity)} className="p-2 text-right">{slot.label}</th>)}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {[...rateHistory].reverse().map(entry => (
+                                    <tr key={entry.date} className="border-t border-primary-gold/20">
+                                        <td className="p-2">{formatDateKey(entry.date)}</td>
+                                        {rateSlots.map(slot => {
+                                            const rate = entry.rates[getRateKey(slot.metal, slot.purity)];
+                                            return <td key={getRateKey(slot.metal, slot.purity)} className="p-2 text-right">{rate !== undefined ? formatCurrency(rate) : '—'}</td>;
+                                        })}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default RateBoard;
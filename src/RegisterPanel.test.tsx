@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import RegisterPanel from './RegisterPanel';
+import { EstimateContent } from './utils/estimate';
+import { RegisterRecord } from './utils/register';
+
+const content: EstimateContent = {
+    title: 'Gold Price Breakdown',
+    details: [{ label: 'Gold Type', value: '916 (22 Karat)' }],
+    lines: [{ label: 'Gold Value', amount: 66240 }],
+    subtotal: 66240,
+    taxLines: [],
+    total: 66240,
+};
+
+const storedRegister = (): RegisterRecord[] => JSON.parse(window.localStorage.getItem('estimateRegister') ?? '[]');
+
+describe('RegisterPanel', () => {
+    let printed: string[];
+
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date(2026, 9, 19, 11));
+        printed = [];
+        vi.spyOn(window, 'print').mockImplementation(() => {
+            printed.push(document.querySelector('.print-only')?.textContent ?? '');
+        });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('saves the quote with customer details when printed and reuses its number', async () => {
+        const user = userEvent.setup();
+        render(<RegisterPanel content={content} />);
+
+        await user.type(screen.getByLabelText('Customer name'), 'Lakshmi');
+        await user.type(screen.getByLabelText('Customer phone'), '9840012345');
+        await user.click(screen.getByRole('button', { name: 'Print Estimate' }));
+        await user.click(screen.getByRole('button', { name: 'Print Estimate' }));
+
+        expect(screen.getByText('Saved as EST/2026-27/0001')).toBeInTheDocument();
+        expect(printed[0]).toContain('Estimate No:EST/2026-27/0001');
+        expect(printed[1]).toContain('Estimate No:EST/2026-27/0001');
+        expect(printed[0]).toContain('Customer:Lakshmi');
+
+        const register = storedRegister();
+        expect(register).toHaveLength(1);
+        expect(register[0]).toMatchObject({ status: 'quoted', customerName: 'Lakshmi', customerPhone: '9840012345', snapshot: content });
+    });
+
+    it('marks a saved draft as quoted once printed', async () => {
+        const user = userEvent.setup();
+        render(<RegisterPanel content={content} />);
+
+        await user.click(screen.getByRole('button', { name: 'Save Draft' }));
+        expect(storedRegister()[0].status).toBe('draft');
+
+        await user.click(screen.getByRole('button', { name: 'Print Estimate' }));
+        expect(storedRegister()).toHaveLength(1);
+        expect(storedRegister()[0].status).toBe('quoted');
+    });
+});
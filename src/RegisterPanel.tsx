@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { useRegister } from './hooks/useRegister';
+import { useCustomers } from './hooks/useCustomers';
+import PrintControls from './PrintControls';
+import ShareControls from './ShareControls';
+import { EstimateContent } from './utils/estimate';
+import { RecordStatus, RegisterRecord, toEstimateDocument } from './utils/register';
+
+interface RegisterPanelProps {
+    content: EstimateContent;
+    onShare?: () => void;
+}
+
+const inputClassName = 'block w-full px-3 py-3 bg-white/60 border border-text-main/20 rounded-lg text-base disabled:opacity-60';
+
+// Saves the quote on screen to the estimate register and prints or shares it under its register number
+const RegisterPanel: React.FC<RegisterPanelProps> = ({ content, onShare }) => {
+    const { addRecord, setStatus } = useRegister();
+    const { customers, activeCustomer } = useCustomers();
+    // Starts on the open customer, if any; picking from the directory fills in their details
+    const [customerId, setCustomerId] = useState(activeCustomer?.id ?? '');
+    const [customerName, setCustomerName] = useState(activeCustomer?.name ?? '');
+    const [customerPhone, setCustomerPhone] = useState(activeCustomer?.phone ?? '');
+    const [saved, setSaved] = useState<RegisterRecord | null>(null);
+
+    const save = (status: RecordStatus): RegisterRecord => {
+        const record = addRecord({
+            kind: 'estimate',
+            status,
+            customerName: customerName.trim(),
+            customerPhone: customerPhone.trim(),
+            customerId: customerId || undefined,
+            snapshot: content,
+        });
+        setSaved(record);
+        return record;
+    };
+
+    const pickCustomer = (id: string) => {
+        const customer = customers.find(c => c.id === id);
+        setCustomerId(id);
+        setCustomerName(customer?.name ?? '');
+        setCustomerPhone(customer?.phone ?? '');
+    };
+
+    // Printing or sharing hands the estimate to the customer, so a draft becomes quoted
+    const getDocument = () => {
+        if (!saved) return toEstimateDocument(save('quoted'));
+        if (saved.status === 'draft') {
+            setStatus(saved.id, 'quoted');
+            setSaved({ ...saved, status: 'quoted' });
+        }
+        return toEstimateDocument(saved);
+    };
+
+    return (
+        <div className="space-y-3">
+            {customers.length > 0 && (
+                <select
+                    value={customerId}
+                    onChange={e => pickCustomer(e.target.value)}
+                    aria-label="Customer from directory"
+                    disabled={!!saved}
+                    className={inputClassName}
+                >
+                    <option value="">Walk-in customer</option>
+                    {customers.map(customer => (
+                        <option key={customer.id} value={customer.id}>{customer.name}{customer.phone && ` (${customer.phone})`}</option>
+                    ))}
+                </select>
+            )}
+            <div className="grid grid-cols-2 gap-2">
+                <input
+                    type="text"
+                    value={customerName}
+                    onChange={e => setCustomerName(e.target.value)}
+                    placeholder="Customer name"
+                    aria-label="Customer name"
+                    disabled={!!saved}
+                    className={inputClassName}
+                />
+                <input
+                    type="tel"
+                    value={customerPhone}
+                    onChange={e => setCustomerPhone(e.target.value)}
+                    placeholder="Phone"
+                    aria-label="Customer phone"
+                    disabled={!!saved}
+                    className={inputClassName}
+                />
+            </div>
+            {saved ? (
+                <p className="text-center text-base font-semibold text-accent-maroon">Saved as {saved.number}</p>
+            ) : (
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => save('draft')}
+                        className="flex-1 bg-white/60 border border-accent-maroon/40 text-accent-maroon font-bold py-3 px-4 rounded-lg hover:bg-white transition-colors"
+                    >
+                        Save Draft
+                    </button>
+                    <button
+                        onClick={() => save('quoted')}
+                        className="flex-1 bg-accent-maroon text-white font-bold py-3 px-4 rounded-lg hover:bg-accent-maroon/90 transition-colors"
+                    >
+                        Save Quote
+                    </button>
+                </div>
+            )}
+            <ShareControls getDocument={getDocument} onShare={onShare} />
+            <PrintControls getDocument={getDocument} />
+        </div>
+    );
+};
+
+export default RegisterPanel;
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import RegisterPanel from './RegisterPanel';
+import RegisterView from './RegisterView';
+import { Access } from './utils/access';
+import { EstimateContent } from './utils/estimate';
+
+const content: EstimateContent = {
+    title: 'Gold Price Breakdown',
+    details: [{ label: 'Gold Type', value: '916 (22 Karat)' }],
+    lines: [{ label: 'Gold Value', amount: 66240 }],
+    subtotal: 66240,
+    taxLines: [],
+    total: 66240,
+};
+
+const staffAccess: Access = { role: 'staff', user: null, locked: true, checkPin: async () => null };
+
+describe('RegisterView', () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date(2026, 9, 19, 11));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    const saveQuote = async (name: string) => {
+        const user = userEvent.setup();
+        const { unmount } = render(<RegisterPanel content={content} />);
+        await user.type(screen.getByLabelText('Customer name'), name);
+        await user.click(screen.getByRole('button', { name: 'Save Quote' }));
+        unmount();
+    };
+
+    it('keeps every record and searches by customer', async () => {
+        for (let i = 1; i <= 12; i++) await saveQuote(i === 12 ? 'Ravi' : `Customer ${i}`);
+        const user = userEvent.setup();
+        render(<RegisterView />);
+
+        expect(screen.getByText('Showing 12 of 12 records')).toBeInTheDocument();
+        await user.type(screen.getByPlaceholderText('Number, name or phone'), 'ravi');
+        expect(screen.getByText('Showing 1 of 12 records')).toBeInTheDocument();
+        expect(screen.getByText('EST/2026-27/0012')).toBeInTheDocument();
+    });
+
+    it('converts an estimate into a numbered invoice', async () => {
+        await saveQuote('Lakshmi');
+        const user = userEvent.setup();
+        render(<RegisterView />);
+
+        await user.click(screen.getByText('EST/2026-27/0001'));
+        await user.click(screen.getByRole('button', { name: 'Convert to Invoice' }));
+
+        expect(screen.getByText('INV/2026-27/0001')).toBeInTheDocument();
+        expect(screen.getByText('Raised from EST/2026-27/0001')).toBeInTheDocument();
+        expect(screen.getByLabelText('Status of EST/2026-27/0001')).toHaveValue('converted');
+        expect(screen.queryByRole('button', { name: 'Convert to Invoice' })).toBeNull();
+
+        await user.selectOptions(screen.getByText('Type').parentElement!.querySelector('select')!, 'invoice');
+        expect(screen.getByText('Showing 1 of 2 records')).toBeInTheDocument();
+    });
+
+    it('lets staff invoice a quote but not change statuses or numbering', async () => {
+        await saveQuote('Lakshmi');
+        const user = userEvent.setup();
+        render(<RegisterView access={staffAccess} />);
+
+        expect(screen.getByLabelText('Status of EST/2026-27/0001')).toBeDisabled();
+        expect(screen.getByText('🔒 Only the owner can change the numbering.')).toBeInTheDocument();
+        expect(screen.queryByText('Estimate Prefix')).toBeNull();
+
+        await user.click(screen.getByText('EST/2026-27/0001'));
+        await user.click(screen.getByRole('button', { name: 'Convert to Invoice' }));
+        expect(screen.getByText('INV/2026-27/0001')).toBeInTheDocument();
+    });
+});
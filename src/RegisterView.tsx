@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import { useRegister } from './hooks/useRegister';
+import PrintControls from './PrintControls';
+import ShareControls from './ShareControls';
+import { Access, can, OPEN_ACCESS } from './utils/access';
+import { DocumentKind } from './utils/estimate';
+import { formatCurrency } from './utils/format';
+import {
+    DOCUMENT_KIND_LABELS,
+    filterRecords,
+    RECORD_STATUS_LABELS,
+    RecordStatus,
+    RegisterFilter,
+    RegisterRecord,
+    toEstimateDocument,
+} from './utils/register';
+
+const inputClassName = 'mt-1 block w-full px-3 py-3 md:py-2 bg-white/50 border border-text-main/20 rounded-md shadow-sm focus:outline-none text-lg md:text-base';
+
+const EMPTY_FILTER: RegisterFilter = { query: '', fromDate: '', toDate: '', status: 'all', kind: 'all' };
+
+interface RegisterViewProps {
+    access?: Access;
+}
+
+// Anyone can look up, print and invoice records; changing a status by hand or the numbering is for the owner
+const RegisterView: React.FC<RegisterViewProps> = ({ access = OPEN_ACCESS }) => {
+    const canEditSettings = can(access.role, 'editSettings');
+    const { records, numbering, setNumbering, addRecord, setStatus } = useRegister();
+    const [filter, setFilter] = useState<RegisterFilter>(EMPTY_FILTER);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    const visibleRecords = filterRecords(records, filter);
+    const updateFilter = (changes: Partial<RegisterFilter>) => setFilter(prev => ({ ...prev, ...changes }));
+
+    const convertToInvoice = (estimate: RegisterRecord) => {
+        const invoice = addRecord({
+            kind: 'invoice',
+            status: 'converted',
+            customerName: estimate.customerName,
+            customerPhone: estimate.customerPhone,
+            customerId: estimate.customerId,
+            snapshot: estimate.snapshot,
+            convertedFrom: estimate.number,
+        });
+        setStatus(estimate.id, 'converted');
+        setExpandedId(invoice.id);
+    };
+
+    return (
+        <div className="flex-grow p-4 md:p-6 flex flex-col gap-4 overflow-y-auto">
+            <div className="flex justify-between items-center">
+                <h3 className="text-3xl md:text-2xl font-serif font-bold text-accent-maroon">Estimate Register</h3>
+                <span className="text-lg md:text-base text-text-main/70">Showing {visibleRecords.length} of {records.length} records</span>
+            </div>
+
+            {/* Filters */}
+            <div className="bg-ivory/60 p-4 rounded-lg border border-primary-gold/20 shadow-sm grid grid-cols-2 md:grid-cols-5 gap-3">
+                <div className="col-span-2 md:col-span-1">
+                    <label className="block text-lg md:text-base text-text-main/90">Search</label>
+                    <input
+                        type="search"
+                        value={filter.query}
+                        onChange={e => updateFilter({ query: e.target.value })}
+                        placeholder="Number, name or phone"
+                        className={inputClassName}
+                    />
+                </div>
+                <div>
+                    <label className="block text-lg md:text-base text-text-main/90">From</label>
+                    <input type="date" value={filter.fromDate} onChange={e => updateFilter({ fromDate: e.target.value })} className={inputClassName} />
+                </div>
+                <div>
+                    <label className="block text-lg md:text-base text-text-main/90">To</label>
+                    <input type="date" value={filter.toDate} onChange={e => updateFilter({ toDate: e.target.value })} className={inputClassName} />
+                </div>
+                <div>
+                    <label className="block text-lg md:text-base text-text-main/90">Status</label>
+                    <select value={filter.status} onChange={e => updateFilter({ status: e.target.value as RegisterFilter['status'] })} className={inputClassName}>
+                        <option value="all">All</option>
+                        {(Object.keys(RECORD_STATUS_LABELS) as RecordStatus[]).map(status => (
+                            <option key={status} value={status}>{RECORD_STATUS_LABELS[status]}</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-lg md:text-base text-text-main/90">Type</label>
+                    <select value={filter.kind} onChange={e => updateFilter({ kind: e.target.value as RegisterFilter['kind'] })} className={inputClassName}>
+                        <option value="all">All</option>
+                        {(Object.keys(DOCUMENT_KIND_LABELS) as DocumentKind[]).map(kind => (
+                            <option key={kind} value={kind}>{DOCUMENT_KIND_LABELS[kind]}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            {/* Records */}
+            <div className="bg-ivory/60 p-2 rounded-lg border border-primary-gold/20 shadow-sm">
+                {visibleRecords.length > 0 ? (
+                    <ul className="space-y-2">
+                        {visibleRecords.map(record => (
+                            <li key={record.id} className="p-4 md:p-3 rounded-md bg-white/40">
+                                <div className="flex flex-wrap items-center justify-between gap-2">
+                                    <button onClick={() => setExpandedId(expandedId === record.id ? null : record.id)} className="text-left flex-grow">
+                                        <p className="font-semibold text-text-main text-xl md:text-base">
+                                            {record.number}
+                                            <span className="ml-2 text-base md:text-sm font-normal text-text-main/60">{DOCUMENT_KIND_LABELS[record.kind]}</span>
+                                        </p>
+                                        <p className="text-lg md:text-sm text-text-main/70">
+                                            {new Date(record.createdAt).toLocaleDateString('en-IN')}
+                                            {record.customerName && ` · ${record.customerName}`}
+                                            {record.customerPhone && ` · ${record.customerPhone}`}
+                                            {` · ${formatCurrency(record.snapshot.total)}`}
+                                        </p>
+                                    </button>
+                                    <select
+                                        value={record.status}
+                                        onChange={e => setStatus(record.id, e.target.value as RecordStatus)}
+                                        aria-label={`Status of ${record.number}`}
+                                        disabled={!canEditSettings}
+                                        className="px-3 py-2 bg-white/60 border border-text-main/20 rounded-md text-base disabled:opacity-60"
+                                    >
+                                        {(Object.keys(RECORD_STATUS_LABELS) as RecordStatus[]).map(status => (
+                                            <option key={status} value={status}>{RECORD_STATUS_LABELS[status]}</option>
+                                        ))}
+                                    </select>
+                                </div>
+
+                                {expandedId === record.id && (
+                                    <div className="mt-3 pt-3 border-t border-primary-gold/20 space-y-3">
+                                        <p className="font-semibold text-accent-maroon">{record.snapshot.title}</p>
+                                        {record.convertedFrom && <p className="text-sm text-text-main/70">Raised from {record.convertedFrom}</p>}
+                                        <div className="space-y-1 text-base">
+                                            {record.snapshot.details.map(detail => (
+                                                <div key={detail.label} className="flex justify-between">
+                                                    <span className="text-text-main/70">{detail.label}:</span>
+                                                    <span className="font-medium">{detail.value}</span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                        <div className="space-y-1 text-base pt-2 border-t border-primary-gold/20">
+                                            {record.snapshot.lines.map((line, index) => (
+                                                <div key={index} className="flex justify-between">
+                                                    <span className="text-text-main/70">{line.label}</span>
+                                                    <span className="font-medium">{formatCurrency(line.amount)}</span>
+                                                </div>
+                                            ))}
+                                            {record.snapshot.taxLines.map(line => (
+                                                <div key={line.label} className="flex justify-between">
+                                                    <span className="text-text-main/70">{line.label}:</span>
+                                                    <span className="font-medium">{formatCurrency(line.amount)}</span>
+                                                </div>
+                                            ))}
+                                            {!!record.snapshot.discount && (
+                                                <div className="flex justify-between">
+                                                    <span className="text-text-main/70">Less: Discount</span>
+                                                    <span className="font-medium">- {formatCurrency(record.snapshot.discount)}</span>
+                                                </div>
+                                            )}
+                                            <div className="flex justify-between font-bold text-accent-maroon">
+                                                <span>Total Amount:</span>
+                                                <span>{formatCurrency(record.snapshot.total)}</span>
+                                            </div>
+                                        </div>
+                                        <ShareControls getDocument={() => toEstimateDocument(record)} />
+                                        <PrintControls getDocument={() => toEstimateDocument(record)} label={`Print ${DOCUMENT_KIND_LABELS[record.kind]}`} />
+                                        {record.kind === 'estimate' && (record.status === 'draft' || record.status === 'quoted') && (
+                                            <button
+                                                onClick={() => convertToInvoice(record)}
+                                                className="w-full bg-accent-maroon text-white font-bold py-3 px-4 rounded-lg hover:bg-accent-maroon/90 transition-colors"
+                                            >
+                                                Convert to Invoice
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="text-center text-sm text-text-main/60 p-4">
+                        {records.length > 0 ? 'No records match these filters.' : "No estimates yet. Use 'Save Quote' or 'Print Estimate' on a customer view."}
+                    </p>
+                )}
+            </div>
+
+            {/* Numbering */}
+            <details className="rounded-md border border-text-main/10 bg-white/40 p-4">
+                <summary className="cursor-pointer text-xl md:text-lg font-medium text-text-main/90">Numbering</summary>
+                {canEditSettings ? (
+                    <div className="mt-3 grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-lg md:text-base text-text-main/90">Estimate Prefix</label>
+                            <input
+                                type="text"
+                                value={numbering.estimatePrefix}
+                                onChange={e => setNumbering({ ...numbering, estimatePrefix: e.target.value.trim() })}
+                                className={inputClassName}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-lg md:text-base text-text-main/90">Invoice Prefix</label>
+                            <input
+                                type="text"
+                                value={numbering.invoicePrefix}
+                                onChange={e => setNumbering({ ...numbering, invoicePrefix: e.target.value.trim() })}
+                                className={inputClassName}
+                            />
+                        </div>
+                    </div>
+                ) : (
+                    <p className="mt-3 text-lg md:text-base font-semibold text-text-main/70">🔒 Only the owner can change the numbering.</p>
+                )}
+                <p className="mt-2 text-sm text-text-main/60">Numbers restart at 1 every financial year (April to March).</p>
+            </details>
+        </div>
+    );
+};
+
+export default RegisterView;
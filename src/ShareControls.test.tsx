@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import ShareControls from './ShareControls';
+import { EstimateDocument } from './utils/estimate';
+
+// jsdom cannot draw on a canvas, so the card is stood in for by a file of the right name and type
+vi.mock('./utils/shareCard', async importOriginal => ({
+    ...await importOriginal<typeof import('./utils/shareCard')>(),
+    renderEstimateFile: vi.fn(async (estimate: EstimateDocument, format: 'png' | 'pdf') =>
+        new File(['card'], `NL-Jewellers-${estimate.number.replace(/\//g, '-')}.${format}`, { type: format === 'png' ? 'image/png' : 'application/pdf' })),
+}));
+
+const estimate: EstimateDocument = {
+    kind: 'estimate',
+    number: 'EST/2026-27/0001',
+    date: '19/10/2026',
+    customerName: '',
+    customerPhone: '',
+    title: 'Gold Price Breakdown',
+    details: [],
+    lines: [{ label: 'Gold Value', amount: 66240 }],
+    subtotal: 66240,
+    taxLines: [],
+    total: 66240,
+};
+
+const setNavigator = (name: 'share' | 'canShare', value: unknown) => {
+    Object.defineProperty(navigator, name, { value, configurable: true, writable: true });
+};
+
+describe('ShareControls', () => {
+    afterEach(() => {
+        delete (navigator as Partial<Navigator>).share;
+        delete (navigator as Partial<Navigator>).canShare;
+        vi.restoreAllMocks();
+    });
+
+    it('shares the image through the share sheet where files can be shared', async () => {
+        const share = vi.fn().mockResolvedValue(undefined);
+        setNavigator('share', share);
+        setNavigator('canShare', () => true);
+        const getDocument = vi.fn(() => estimate);
+        const onShare = vi.fn();
+        const user = userEvent.setup();
+        render(<ShareControls getDocument={getDocument} onShare={onShare} />);
+
+        await user.click(screen.getByRole('button', { name: 'Share Image' }));
+
+        expect(getDocument).toHaveBeenCalledTimes(1);
+        expect(onShare).toHaveBeenCalledTimes(1);
+        expect(share).toHaveBeenCalledTimes(1);
+        const { title, files } = share.mock.calls[0][0];
+        expect(title).toBe('NL Jewellers - Gold Price Breakdown');
+        expect(files[0].name).toBe('NL-Jewellers-EST-2026-27-0001.png');
+        expect(files[0].type).toBe('image/png');
+    });
+
+    it('downloads the PDF when the browser cannot share files', async () => {
+        const share = vi.fn();
+        setNavigator('share', share);
+        setNavigator('canShare', () => false);
+        const downloads: string[] = [];
+        vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+            downloads.push(this.download);
+        });
+        URL.createObjectURL = vi.fn(() => 'blob:card');
+        URL.revokeObjectURL = vi.fn();
+        const user = userEvent.setup();
+        render(<ShareControls getDocument={() => estimate} />);
+
+        await user.click(screen.getByRole('button', { name: 'Share PDF' }));
+
+        expect(share).not.toHaveBeenCalled();
+        expect(downloads).toEqual(['NL-Jewellers-EST-2026-27-0001.pdf']);
+    });
+
+    it('downloads the file when the browser refuses the share, and only then records it', async () => {
+        const share = vi.fn().mockRejectedValue(new DOMException('The request is not allowed.', 'NotAllowedError'));
+        setNavigator('share', share);
+        setNavigator('canShare', () => true);
+        const downloads: string[] = [];
+        vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+            downloads.push(this.download);
+        });
+        URL.createObjectURL = vi.fn(() => 'blob:card');
+        URL.revokeObjectURL = vi.fn();
+        const onShare = vi.fn();
+        const user = userEvent.setup();
+        render(<ShareControls getDocument={() => estimate} onShare={onShare} />);
+
+        await user.click(screen.getByRole('button', { name: 'Share Image' }));
+
+        expect(share).toHaveBeenCalledTimes(1);
+        expect(downloads).toEqual(['NL-Jewellers-EST-2026-27-0001.png']);
+        expect(onShare).toHaveBeenCalledTimes(1);
+    });
+
+    it('records nothing when the share sheet is closed without sharing', async () => {
+        setNavigator('share', vi.fn().mockRejectedValue(new DOMException('Share canceled', 'AbortError')));
+        setNavigator('canShare', () => true);
+        const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => { });
+        const onShare = vi.fn();
+        const user = userEvent.setup();
+        render(<ShareControls getDocument={() => estimate} onShare={onShare} />);
+
+        await user.click(screen.getByRole('button', { name: 'Share PDF' }));
+
+        expect(await screen.findByRole('button', { name: 'Share PDF' })).toBeEnabled();
+        expect(click).not.toHaveBeenCalled();
+        expect(onShare).not.toHaveBeenCalled();
+    });
+});
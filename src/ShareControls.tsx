@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+import { EstimateDocument } from './utils/estimate';
+import { renderEstimateFile, SHARE_FORMAT_LABELS, ShareFormat } from './utils/shareCard';
+import { shareFiles } from './utils/share';
+
+interface ShareControlsProps {
+    getDocument: () => EstimateDocument; // Called on share, like printing, so the card carries a register number
+    onShare?: () => void;                // Once the file has been shared or downloaded
+}
+
+// Shares the estimate as a branded image or PDF, made on the phone from the same rows as the printout
+const ShareControls: React.FC<ShareControlsProps> = ({ getDocument, onShare }) => {
+    const [sharing, setSharing] = useState<ShareFormat | null>(null);
+
+    const share = async (format: ShareFormat) => {
+        setSharing(format);
+        try {
+            const estimate = getDocument();
+            const file = await renderEstimateFile(estimate, format);
+            if (await shareFiles(`NL Jewellers - ${estimate.title}`, [file])) onShare?.();
+        } catch (err) {
+            console.error('Error creating share file:', err);
+            alert('Unable to create the file. Please try again.');
+        } finally {
+            setSharing(null);
+        }
+    };
+
+    return (
+        <div className="flex gap-2">
+            {(Object.keys(SHARE_FORMAT_LABELS) as ShareFormat[]).map(format => (
+                <button
+                    key={format}
+                    onClick={() => share(format)}
+                    disabled={sharing !== null}
+                    className="flex-1 bg-green-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-60"
+                >
+                    {sharing === format ? 'Preparing…' : `Share ${SHARE_FORMAT_LABELS[format]}`}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+export default ShareControls;
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import AccessBar from './AccessBar';
+import RateBoard from './RateBoard';
+import StaffView from './StaffView';
+import { useAccess } from './hooks/useAccess';
+import { field } from './test/fields';
+
+// Wires the screens together the way App does
+const Shop = () => {
+    const { access, users, signIn, signOut, addUser, removeUser, resetPin } = useAccess();
+    return (
+        <>
+            <AccessBar access={access} onSignIn={async pin => !!(await signIn(pin))} onSignOut={signOut} />
+            <StaffView access={access} users={users} onAdd={addUser} onRemove={removeUser} onChangePin={resetPin} />
+            <RateBoard access={access} />
+        </>
+    );
+};
+
+describe('StaffView', () => {
+    it('sets an owner PIN, adds staff and locks rates for anyone not signed in as the owner', async () => {
+        const user = userEvent.setup();
+        render(<Shop />);
+        expect(screen.getByRole('button', { name: "Save Today's Rates" })).toBeInTheDocument();
+
+        await user.type(field('Name'), 'Lakshmi');
+        await user.type(field('PIN'), '2580');
+        await user.type(field('Confirm PIN'), '2581');
+        await user.click(screen.getByRole('button', { name: 'Set Owner PIN' }));
+        expect(await screen.findByText('PINs do not match')).toBeInTheDocument();
+        await user.clear(field('Confirm PIN'));
+        await user.type(field('Confirm PIN'), '2580');
+        await user.click(screen.getByRole('button', { name: 'Set Owner PIN' }));
+
+        // Whoever sets the owner PIN stays signed in as the owner
+        expect(await screen.findByText(/Signed in as/)).toHaveTextContent('Signed in as Lakshmi (Owner)');
+
+        await user.type(field('Name'), 'Meena');
+        await user.type(field('PIN'), '2468');
+        await user.type(field('Confirm PIN'), '2468');
+        await user.click(screen.getByRole('button', { name: 'Add Profile' }));
+        const profiles = screen.getByRole('list', { name: 'Staff profiles' });
+        expect(await within(profiles).findByText('Meena')).toBeInTheDocument();
+        expect(within(profiles).getByText('Lakshmi')).toBeInTheDocument();
+        expect(within(profiles).queryByRole('button', { name: 'Remove Lakshmi' })).not.toBeInTheDocument();
+        expect(JSON.parse(window.localStorage.getItem('staffUsers')!).map((u: object) => Object.keys(u).sort()))
+            .toEqual([['createdAt', 'id', 'name', 'pinHash', 'role', 'salt'], ['createdAt', 'id', 'name', 'pinHash', 'role', 'salt']]);
+
+        await user.click(screen.getByRole('button', { name: 'Sign Out' }));
+        expect(screen.getByText('🔒 Staff mode: profit, rates and settings are locked')).toBeInTheDocument();
+        expect(screen.getByText('Only the owner can manage staff. Sign in with the owner PIN above.')).toBeInTheDocument();
+        expect(screen.queryByRole('button', { name: "Save Today's Rates" })).not.toBeInTheDocument();
+
+        await user.type(field('PIN'), '2468');
+        await user.click(screen.getByRole('button', { name: 'Sign In' }));
+        expect(await screen.findByText(/Signed in as/)).toHaveTextContent('Signed in as Meena (Staff)');
+        expect(screen.queryByRole('button', { name: "Save Today's Rates" })).not.toBeInTheDocument();
+
+        await user.click(screen.getByRole('button', { name: 'Sign Out' }));
+        await user.type(field('PIN'), '9999');
+        await user.click(screen.getByRole('button', { name: 'Sign In' }));
+        expect(await screen.findByText('Wrong PIN')).toBeInTheDocument();
+        await user.type(field('PIN'), '2580');
+        await user.click(screen.getByRole('button', { name: 'Sign In' }));
+        expect(await screen.findByRole('button', { name: "Save Today's Rates" })).toBeInTheDocument();
+    });
+});
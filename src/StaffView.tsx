@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { DeleteIcon } from './Icons';
+import { Access, can, Role, ROLE_LABELS, StaffDraft, StaffUser, validateStaffDraft } from './utils/access';
+
+const inputClassName = 'mt-1 block w-full px-3 py-3 md:py-2 bg-white/50 border border-text-main/20 rounded-md shadow-sm focus:outline-none text-lg md:text-base';
+
+interface StaffFormProps {
+    users: StaffUser[];
+    fixedRole?: Role;   // Skips the role choice, e.g. for the first owner
+    submitLabel: string;
+    onSubmit: (draft: StaffDraft) => Promise<void>;
+}
+
+const StaffForm: React.FC<StaffFormProps> = ({ users, fixedRole, submitLabel, onSubmit }) => {
+    const [draft, setDraft] = useState<StaffDraft>({ name: '', role: fixedRole ?? 'staff', pin: '' });
+    const [confirmPin, setConfirmPin] = useState('');
+    const [error, setError] = useState('');
+    const update = (changes: Partial<StaffDraft>) => setDraft(prev => ({ ...prev, ...changes }));
+
+    const submit = async () => {
+        const problem = await validateStaffDraft(users, draft) ?? (draft.pin !== confirmPin ? 'PINs do not match' : null);
+        if (problem) {
+            setError(problem);
+            return;
+        }
+        setError('');
+        await onSubmit(draft);
+        setDraft({ name: '', role: fixedRole ?? 'staff', pin: '' });
+        setConfirmPin('');
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className={`grid ${fixedRole ? 'grid-cols-1' : 'grid-cols-2'} gap-3`}>
+                <div>
+                    <label className="block text-lg md:text-base text-text-main/90">Name</label>
+                    <input type="text" value={draft.name} onChange={e => update({ name: e.target.value })} className={inputClassName} />
+                </div>
+                {!fixedRole && (
+                    <div>
+                        <label className="block text-lg md:text-base text-text-main/90">Role</label>
+                        <select value={draft.role} onChange={e => update({ role: e.target.value as Role })} className={inputClassName}>
+                            {(Object.keys(ROLE_LABELS) as Role[]).map(role => (
+                                <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label className="block text-lg md:text-base text-text-main/90">PIN</label>
+                    <input type="password" inputMode="numeric" autoComplete="off" value={draft.pin} onChange={e => update({ pin: e.target.value })} className={inputClassName} />
+                </div>
+                <div>
+                    <label className="block text-lg md:text-base text-text-main/90">Confirm PIN</label>
+                    <input type="password" inputMode="numeric" autoComplete="off" value={confirmPin} onChange={e => setConfirmPin(e.target.value)} className={inputClassName} />
+                </div>
+            </div>
+            {error && <p className="text-base md:text-sm text-highlight-red">{error}</p>}
+            <button onClick={submit} className="w-full bg-accent-maroon text-white font-bold py-3 px-4 rounded-lg hover:bg-accent-maroon/90 transition-colors">
+                {submitLabel}
+            </button>
+        </div>
+    );
+};
+
+interface ChangePinFormProps {
+    users: StaffUser[];
+    user: StaffUser;
+    onSubmit: (pin: string) => Promise<void>;
+}
+
+const ChangePinForm: React.FC<ChangePinFormProps> = ({ users, user, onSubmit }) => {
+    const [pin, setPin] = useState('');
+    const [error, setError] = useState('');
+    const [changed, setChanged] = useState(false);
+
+    const submit = async () => {
+        const problem = await validateStaffDraft(users, { name: user.name, role: user.role, pin }, user.id);
+        setError(problem ?? '');
+        setChanged(!problem);
+        if (problem) return;
+        await onSubmit(pin);
+        setPin('');
+    };
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <label className="block text-lg md:text-base text-text-main/90">New PIN</label>
+                <input type="password" inputMode="numeric" autoComplete="off" value={pin} onChange={e => setPin(e.target.value)} className={inputClassName} />
+            </div>
+            {error && <p className="text-base md:text-sm text-highlight-red">{error}</p>}
+            {changed && <p className="text-base md:text-sm font-semibold text-accent-maroon">PIN changed</p>}
+            <button onClick={submit} className="w-full bg-white/60 border border-accent-maroon text-accent-maroon font-bold py-3 px-4 rounded-lg hover:bg-white transition-colors">
+                Change My PIN
+            </button>
+        </div>
+    );
+};
+
+interface StaffViewProps {
+    access: Access;
+    users: StaffUser[];
+    onAdd: (draft: StaffDraft) => Promise<void>;
+    onRemove: (id: string) => void;
+    onChangePin: (id: string, pin: string) => Promise<void>;
+}
+
+const StaffView: React.FC<StaffViewProps> = ({ access, users, onAdd, onRemove, onChangePin }) => {
+    const owners = users.filter(user => user.role === 'owner');
+
+    if (!access.locked) {
+        return (
+            <div className="flex-grow p-4 md:p-6 overflow-y-auto">
+                <div className="max-w-xl mx-auto bg-ivory/60 p-8 rounded-lg border border-primary-gold/20 shadow-sm space-y-4">
+                    <h3 className="text-3xl md:text-2xl font-serif font-bold text-accent-maroon">Set Owner PIN</h3>
+                    <p className="text-lg md:text-base text-text-main/80">
+                        Anyone can see profit, change rates and settings or delete saved calculations until an owner PIN is set.
+                        After that, only the owner can, and staff quote within the wastage range in the purity catalogue.
+                    </p>
+                    <StaffForm users={users} fixedRole="owner" submitLabel="Set Owner PIN" onSubmit={onAdd} />
+                </div>
+            </div>
+        );
+    }
+
+    if (!can(access.role, 'manageStaff')) {
+        return (
+            <div className="flex-grow p-4 md:p-6 flex items-center justify-center">
+                <p className="text-center text-lg md:text-base text-text-main/70">Only the owner can manage staff. Sign in with the owner PIN above.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex-grow p-4 md:p-6 grid grid-cols-1 md:grid-cols-2 gap-6 lg:gap-8 overflow-y-auto">
+            {/* Left Column: Profiles */}
+            <div className="bg-ivory/60 p-4 rounded-lg border border-primary-gold/20 shadow-sm flex flex-col gap-4">
+                <h3 className="text-3xl md:text-2xl font-serif font-bold text-accent-maroon">Staff</h3>
+                <ul className="space-y-2" aria-label="Staff profiles">
+                    {users.map(user => (
+                        <li key={user.id} className="group flex items-center justify-between p-4 md:p-3 rounded-md hover:bg-primary-gold/10 transition-colors">
+                            <span className="text-xl md:text-base">
+                                <span className="font-semibold text-text-main">{user.name}</span>
+                                <span className="ml-2 text-text-main/60">{ROLE_LABELS[user.role]}</span>
+                            </span>
+                            {/* The last owner stays, so the shop cannot be left without anyone able to unlock it */}
+                            {!(user.role === 'owner' && owners.length === 1) && (
+                                <button onClick={() => onRemove(user.id)} className="ml-2 p-1 text-highlight-red/50 hover:text-highlight-red opacity-0 group-hover:opacity-100 transition-opacity" aria-label={`Remove ${user.name}`}>
+                                    <DeleteIcon />
+                                </button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+                {access.user && (
+                    <details className="rounded-md border border-text-main/10 bg-white/40 p-4">
+                        <summary className="cursor-pointer text-xl md:text-lg font-medium text-text-main/90">My PIN</summary>
+                        <div className="mt-3">
+                            <ChangePinForm users={users} user={access.user} onSubmit={pin => onChangePin(access.user!.id, pin)} />
+                        </div>
+                    </details>
+                )}
+            </div>
+
+            {/* Right Column: New Profile */}
+            <div className="bg-ivory/60 p-8 rounded-lg border border-primary-gold/20 shadow-sm space-y-4">
+                <h3 className="text-3xl md:text-2xl font-serif font-bold text-accent-maroon">Add Staff</h3>
+                <p className="text-lg md:text-base text-text-main/80">Each person signs in with their own PIN, so PINs must all be different.</p>
+                <StaffForm users={users} submitLabel="Add Profile" onSubmit={onAdd} />
+            </div>
+        </div>
+    );
+};
+
+export default StaffView;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { DeleteIcon } from './Icons';
+import { StoneInput, StoneWeightUnit } from './utils/pricing';
+
+interface StonesEditorProps {
+    stones: StoneInput[];
+    onChange: (stones: StoneInput[]) => void;
+    error?: string;
+}
+
+const inputClassName = 'block w-full px-3 py-3 md:py-2 bg-white/50 border border-text-main/20 rounded-md shadow-sm focus:outline-none text-lg md:text-base';
+
+const emptyStone: StoneInput = { name: '', weight: '', unit: 'ct', price: '' };
+
+const StonesEditor: React.FC<StonesEditorProps> = ({ stones, onChange, error }) => {
+    const updateStone = (index: number, changes: Partial<StoneInput>) => {
+        onChange(stones.map((stone, i) => i === index ? { ...stone, ...changes } : stone));
+    };
+
+    return (
+        <div>
+            <div className="flex justify-between items-center">
+                <label className="block text-xl md:text-lg font-medium text-text-main/90">Stones</label>
+                <button
+                    type="button"
+                    onClick={() => onChange([...stones, emptyStone])}
+                    className="text-lg md:text-base font-semibold text-text-main/80 hover:text-text-main"
+                >
+                    + Add Stone
+                </button>
+            </div>
+            {stones.length > 0 && (
+                <ul className="mt-2 space-y-2">
+                    {stones.map((stone, index) => (
+                        <li key={index} className="grid grid-cols-[2fr_1fr_auto_1fr_auto] gap-2 items-center">
+                            <input
+                                type="text"
+                                value={stone.name}
+                                onChange={e => updateStone(index, { name: e.target.value })}
+                                placeholder="Stone"
+                                aria-label="Stone name"
+                                className={inputClassName}
+                            />
+                            <input
+                                type="number"
+                                value={stone.weight}
+                                onChange={e => updateStone(index, { weight: e.target.value })}
+                                placeholder="Wt"
+                                aria-label="Stone weight"
+                                className={inputClassName}
+                            />
+                            <select
+                                value={stone.unit}
+                                onChange={e => updateStone(index, { unit: e.target.value as StoneWeightUnit })}
+                                aria-label="Stone weight unit"
+                                className={inputClassName}
+                            >
+                                <option value="ct">ct</option>
+                                <option value="g">g</option>
+                            </select>
+                            <input
+                                type="number"
+                                value={stone.price}
+                                onChange={e => updateStone(index, { price: e.target.value })}
+                                placeholder="₹ Price"
+                                aria-label="Stone price"
+                                className={inputClassName}
+                            />
+                            <button
+                                type="button"
+                                onClick={() => onChange(stones.filter((_, i) => i !== index))}
+                                className="p-1 text-highlight-red/60 hover:text-highlight-red"
+                                aria-label="Remove stone"
+                            >
+                                <DeleteIcon />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {error && <p className="mt-1 text-base md:text-sm text-highlight-red">{error}</p>}
+        </div>
+    );
+};
+
+export default StonesEditor;
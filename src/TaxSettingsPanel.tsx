@@ -0,0 +1,69 @@
+import React from 'react';
+import { SUPPLY_TYPE_LABELS, SupplyType, TaxSettings } from './utils/tax';
+
+interface TaxSettingsPanelProps {
+    settings: TaxSettings;
+    onChange: (settings: TaxSettings) => void;
+}
+
+const inputClassName = 'mt-1 block w-full px-3 py-3 md:py-2 bg-white/50 border border-text-main/20 rounded-md shadow-sm focus:outline-none text-lg md:text-base';
+
+const TaxSettingsPanel: React.FC<TaxSettingsPanelProps> = ({ settings, onChange }) => {
+    const update = (changes: Partial<TaxSettings>) => onChange({ ...settings, ...changes });
+
+    return (
+        <details className="rounded-md border border-text-main/10 bg-white/40 p-4">
+            <summary className="cursor-pointer text-xl md:text-lg font-medium text-text-main/90">
+                GST {settings.enabled ? `(${settings.metalRate}% metal / ${settings.makingRate}% making)` : '(Off)'}
+            </summary>
+            <div className="mt-3 space-y-3">
+                <label className="flex items-center gap-2 text-lg md:text-base text-text-main/90">
+                    <input
+                        type="checkbox"
+                        checked={settings.enabled}
+                        onChange={e => update({ enabled: e.target.checked })}
+                        className="h-5 w-5"
+                    />
+                    Apply GST
+                </label>
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-lg md:text-base text-text-main/90">GST on Metal %</label>
+                        <input
+                            type="number"
+                            value={settings.metalRate}
+                            onChange={e => update({ metalRate: parseFloat(e.target.value) || 0 })}
+                            disabled={!settings.enabled}
+                            className={inputClassName}
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-lg md:text-base text-text-main/90">GST on Making %</label>
+                        <input
+                            type="number"
+                            value={settings.makingRate}
+                            onChange={e => update({ makingRate: parseFloat(e.target.value) || 0 })}
+                            disabled={!settings.enabled}
+                            className={inputClassName}
+                        />
+                    </div>
+                </div>
+                <div>
+                    <label className="block text-lg md:text-base text-text-main/90">Supply Type</label>
+                    <select
+                        value={settings.supplyType}
+                        onChange={e => update({ supplyType: e.target.value as SupplyType })}
+                        disabled={!settings.enabled}
+                        className={inputClassName}
+                    >
+                        {(Object.keys(SUPPLY_TYPE_LABELS) as SupplyType[]).map(type => (
+                            <option key={type} value={type}>{SUPPLY_TYPE_LABELS[type]}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+        </details>
+    );
+};
+
+export default TaxSettingsPanel;
@@ -0,0 +1,41 @@
+import React, { useState } from 'react';
+import { formatInUnit, toGrams, WEIGHT_UNITS, WeightUnit } from './utils/units';
+
+const inputClassName = 'mt-1 block w-full px-3 py-3 md:py-2 bg-white/50 border border-text-main/20 rounded-md shadow-sm focus:outline-none text-lg md:text-base';
+
+const WeightConverter: React.FC = () => {
+    const [value, setValue] = useState('');
+    const [unit, setUnit] = useState<WeightUnit>('pavan');
+    const grams = toGrams(parseFloat(value), unit);
+
+    return (
+        <details className="rounded-md border border-text-main/10 bg-white/40 p-4">
+            <summary className="cursor-pointer text-xl md:text-lg font-medium text-text-main/90">Weight Converter</summary>
+            <div className="mt-3 space-y-3">
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-lg md:text-base text-text-main/90">Convert</label>
+                        <input type="number" value={value} onChange={e => setValue(e.target.value)} placeholder="e.g., 2" className={inputClassName} />
+                    </div>
+                    <div>
+                        <label className="block text-lg md:text-base text-text-main/90">From</label>
+                        <select value={unit} onChange={e => setUnit(e.target.value as WeightUnit)} className={inputClassName}>
+                            {(Object.keys(WEIGHT_UNITS) as WeightUnit[]).map(option => (
+                                <option key={option} value={option}>{WEIGHT_UNITS[option].name}</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+                {grams > 0 && (
+                    <ul className="grid grid-cols-2 gap-2 text-lg md:text-base text-text-main/80" aria-label="Converted weights">
+                        {(Object.keys(WEIGHT_UNITS) as WeightUnit[]).map(option => (
+                            <li key={option} className="font-semibold">{formatInUnit(grams, option)}</li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </details>
+    );
+};
+
+export default WeightConverter;
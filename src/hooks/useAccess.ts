@@ -0,0 +1,46 @@
+import { useState } from 'react';
+import { useLocalStorage } from './useLocalStorage';
+import { Access, changePin, createStaffUser, findUserByPin, getRole, isLocked, StaffDraft, StaffUser } from '../utils/access';
+
+// Staff profiles and who is signed in. Signing in lasts until sign out or the app is reloaded
+export function useAccess() {
+    const [users, setUsers] = useLocalStorage<StaffUser[]>('staffUsers', []);
+    const [userId, setUserId] = useState<string | null>(null);
+    const user = users.find(u => u.id === userId) ?? null;
+
+    const access: Access = {
+        role: getRole(users, user),
+        user,
+        locked: isLocked(users),
+        checkPin: pin => findUserByPin(users, pin),
+    };
+
+    const signIn = async (pin: string): Promise<StaffUser | null> => {
+        const found = await findUserByPin(users, pin);
+        if (found) setUserId(found.id);
+        return found;
+    };
+
+    const signOut = () => setUserId(null);
+
+    // Whoever sets the first owner PIN is signed in as the owner, so the app does not lock them out
+    const addUser = async (draft: StaffDraft) => {
+        const created = await createStaffUser(draft, new Date());
+        setUsers(prev => [...prev, created]);
+        if (!isLocked(users) && created.role === 'owner') setUserId(created.id);
+    };
+
+    const removeUser = (id: string) => {
+        setUsers(prev => prev.filter(u => u.id !== id));
+        if (userId === id) setUserId(null);
+    };
+
+    const resetPin = async (id: string, pin: string) => {
+        const target = users.find(u => u.id === id);
+        if (!target) return;
+        const updated = await changePin(target, pin);
+        setUsers(prev => prev.map(u => (u.id === id ? updated : u)));
+    };
+
+    return { access, users, signIn, signOut, addUser, removeUser, resetPin };
+}
@@ -0,0 +1,17 @@
+import { Access } from '../utils/access';
+import { AuditDraft, createAuditEntry } from '../utils/audit';
+import { auditStore } from '../utils/database';
+
+// Records what whoever is signed in does; the owner reads it back on the Audit tab
+export function useAuditLog(access: Access) {
+    const logEvent = (...drafts: AuditDraft[]) => {
+        const now = new Date();
+        auditStore.append(drafts.map((draft, index) => createAuditEntry(draft, access, now, index))).catch(error => {
+            // An audit log with quiet gaps is worse than none, so whoever is at the counter hears about it
+            console.error(error);
+            alert('This could not be added to the audit log. The phone may be out of storage: download a backup and free up space.');
+        });
+    };
+
+    return { logEvent };
+}
@@ -0,0 +1,27 @@
+import { useEffect, useRef } from 'react';
+import { DisplayMessage, openDisplayChannel } from '../utils/display';
+import { EstimateContent } from '../utils/estimate';
+
+// Sends the quote on screen to any open counter display, and clears it when the quote goes away
+export function useCounterDisplay(content: EstimateContent | null) {
+    const latest = useRef(content);
+    latest.current = content;
+    const key = content ? JSON.stringify(content) : '';
+
+    useEffect(() => {
+        const channel = openDisplayChannel();
+        if (!channel) return;
+        const post = (message: DisplayMessage) => channel.postMessage(message);
+        const send = () => post(latest.current ? { type: 'show', content: latest.current } : { type: 'clear' });
+
+        // A display opened after the quote was made asks for it
+        channel.onmessage = (event: MessageEvent<DisplayMessage>) => {
+            if (event.data.type === 'request') send();
+        };
+        send();
+        return () => {
+            post({ type: 'clear' });
+            channel.close();
+        };
+    }, [key]);
+}
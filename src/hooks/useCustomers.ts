@@ -0,0 +1,26 @@
+import { useLocalStorage } from './useLocalStorage';
+import { createCustomer, Customer, CustomerDraft, updateCustomer } from '../utils/customers';
+
+// Customer book and the customer currently being served; quotes, saves and shares go to the open customer
+export function useCustomers() {
+    const [customers, setCustomers] = useLocalStorage<Customer[]>('customers', []);
+    const [activeCustomerId, setActiveCustomerId] = useLocalStorage<string | null>('activeCustomerId', null);
+    const activeCustomer = customers.find(customer => customer.id === activeCustomerId) ?? null;
+
+    const addCustomer = (draft: CustomerDraft): Customer => {
+        const customer = createCustomer(draft, new Date());
+        setCustomers(prev => [...prev, customer]);
+        return customer;
+    };
+
+    const editCustomer = (id: string, draft: CustomerDraft) => {
+        setCustomers(prev => prev.map(customer => (customer.id === id ? updateCustomer(customer, draft) : customer)));
+    };
+
+    const removeCustomer = (id: string) => {
+        setCustomers(prev => prev.filter(customer => customer.id !== id));
+        if (activeCustomerId === id) setActiveCustomerId(null);
+    };
+
+    return { customers, activeCustomer, setActiveCustomerId, addCustomer, editCustomer, removeCustomer };
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useLocalStorage } from './useLocalStorage';
+
+describe('useLocalStorage', () => {
+    it('returns the initial value when nothing is stored', () => {
+        const { result } = renderHook(() => useLocalStorage('key', [1, 2]));
+        expect(result.current[0]).toEqual([1, 2]);
+    });
+
+    it('reads an existing stored value', () => {
+        window.localStorage.setItem('key', JSON.stringify({ a: 1 }));
+        const { result } = renderHook(() => useLocalStorage('key', {}));
+        expect(result.current[0]).toEqual({ a: 1 });
+    });
+
+    it('persists updates, including functional updates', () => {
+        const { result } = renderHook(() => useLocalStorage<number[]>('key', []));
+        act(() => result.current[1]([1]));
+        act(() => result.current[1](prev => [...prev, 2]));
+        expect(result.current[0]).toEqual([1, 2]);
+        expect(JSON.parse(window.localStorage.getItem('key')!)).toEqual([1, 2]);
+    });
+
+    it('falls back to the initial value on corrupt JSON', () => {
+        const spy = vi.spyOn(console, 'error').mockImplementation(() => { });
+        window.localStorage.setItem('key', '{not json');
+        const { result } = renderHook(() => useLocalStorage('key', 'fallback'));
+        expect(result.current[0]).toBe('fallback');
+        spy.mockRestore();
+    });
+});
@@ -0,0 +1,21 @@
+import { useLocalStorage } from './useLocalStorage';
+import { createRecord, DEFAULT_NUMBERING, NumberingSettings, RecordDraft, RecordStatus, RegisterRecord } from '../utils/register';
+
+// Estimate/invoice register; records are never dropped, only re-statused
+export function useRegister() {
+    const [records, setRecords] = useLocalStorage<RegisterRecord[]>('estimateRegister', []);
+    const [numbering, setNumbering] = useLocalStorage<NumberingSettings>('numberingSettings', DEFAULT_NUMBERING);
+
+    const addRecord = (draft: RecordDraft): RegisterRecord => {
+        const record = createRecord(records, draft, numbering, new Date());
+        setRecords(prev => [record, ...prev]);
+        return record;
+    };
+
+    const setStatus = (id: string, status: RecordStatus) => {
+        const updatedAt = new Date().toISOString();
+        setRecords(prev => prev.map(record => (record.id === id ? { ...record, status, updatedAt } : record)));
+    };
+
+    return { records, numbering, setNumbering, addRecord, setStatus };
+}
@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { calculationStore } from '../utils/database';
+import { Metal } from '../utils/pricing';
+import { CalculationParams } from '../utils/saves';
+
+// Saved calculations for one metal; loaded from the database after the first render
+export function useSavedCalculations(metal: Metal) {
+    const [savedCalculations, setSavedCalculations] = useState<CalculationParams[]>([]);
+
+    useEffect(() => {
+        let current = true;
+        calculationStore.list(metal)
+            .then(saves => { if (current) setSavedCalculations(saves); })
+            .catch(error => console.error(error));
+        return () => { current = false; };
+    }, [metal]);
+
+    // Every save is kept, for customer history and exports; only a delete removes one
+    const saveCalculation = (params: CalculationParams) => {
+        setSavedCalculations(prev => [params, ...prev]);
+        calculationStore.put(metal, params).catch(error => console.error(error));
+    };
+
+    const deleteCalculation = (id: string) => {
+        setSavedCalculations(prev => prev.filter(c => c.id !== id));
+        calculationStore.remove(metal, id).catch(error => console.error(error));
+    };
+
+    return { savedCalculations, saveCalculation, deleteCalculation };
+}
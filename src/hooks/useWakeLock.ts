@@ -0,0 +1,32 @@
+import { useEffect } from 'react';
+
+// Keeps the screen on while active. Browsers drop the lock when the page is hidden, so it is
+// taken again when the page comes back. Does nothing where the Wake Lock API is missing
+export function useWakeLock(active: boolean) {
+    useEffect(() => {
+        if (!active || !('wakeLock' in navigator)) return;
+        let sentinel: WakeLockSentinel | null = null;
+        let released = false;
+
+        const request = async () => {
+            try {
+                const lock = await navigator.wakeLock.request('screen');
+                if (released) lock.release();
+                else sentinel = lock;
+            } catch (error) {
+                console.error(error);
+            }
+        };
+        const handleVisibility = () => {
+            if (document.visibilityState === 'visible') request();
+        };
+
+        request();
+        document.addEventListener('visibilitychange', handleVisibility);
+        return () => {
+            released = true;
+            document.removeEventListener('visibilitychange', handleVisibility);
+            sentinel?.release();
+        };
+    }, [active]);
+}
@@ -1,10 +1,12 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import CounterDisplay from './CounterDisplay';
+import { isCounterDisplay } from './utils/display';
 import './index.css';
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
     <React.StrictMode>
-        <App />
+        {isCounterDisplay(window.location.search) ? <CounterDisplay /> : <App />}
     </React.StrictMode>,
 );
@@ -0,0 +1,13 @@
+import { within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+// Inputs are rendered next to a plain <label>, so look them up through it. Where a label repeats, such as a
+// PIN prompt over a form, the first one is used; pass a container to look in one part of the screen
+export const field = (label: string, container: HTMLElement = document.body) =>
+    within(container).getAllByText(label)[0].parentElement!.querySelector('input, select, textarea') as HTMLInputElement;
+
+export const fill = async (user: ReturnType<typeof userEvent.setup>, label: string, value: string) => {
+    const input = field(label);
+    await user.clear(input);
+    if (value) await user.type(input, value);
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { can, changePin, createStaffUser, findUserByPin, getRole, hashPin, validatePin, validateStaffDraft } from './access';
+
+const now = new Date(2026, 9, 19);
+
+describe('PINs', () => {
+    it('accepts 4 to 6 digits only', () => {
+        expect(validatePin('1234')).toBeNull();
+        expect(validatePin('123456')).toBeNull();
+        expect(validatePin('123')).toBe('PIN must be 4 to 6 digits');
+        expect(validatePin('12a4')).toBe('PIN must be 4 to 6 digits');
+    });
+
+    it('stores a salted hash and finds the profile by PIN', async () => {
+        const owner = await createStaffUser({ name: ' Lakshmi ', role: 'owner', pin: '2580' }, now);
+        expect(owner).toMatchObject({ id: `user-${now.getTime()}`, name: 'Lakshmi', role: 'owner' });
+        expect(owner.pinHash).not.toContain('2580');
+        expect(owner.pinHash).toBe(await hashPin('2580', owner.salt));
+
+        expect(await findUserByPin([owner], '2580')).toBe(owner);
+        expect(await findUserByPin([owner], '0000')).toBeNull();
+
+        const changed = await changePin(owner, '1357');
+        expect(await findUserByPin([changed], '1357')).toBe(changed);
+        expect(await findUserByPin([changed], '2580')).toBeNull();
+    });
+
+    it('refuses a PIN someone else already uses', async () => {
+        const owner = await createStaffUser({ name: 'Lakshmi', role: 'owner', pin: '2580' }, now);
+        expect(await validateStaffDraft([owner], { name: 'Meena', role: 'staff', pin: '2580' })).toBe('Someone already uses this PIN');
+        expect(await validateStaffDraft([owner], { name: 'Lakshmi', role: 'owner', pin: '2580' }, owner.id)).toBeNull();
+        expect(await validateStaffDraft([owner], { name: ' ', role: 'staff', pin: '1111' })).toBe('Enter a name');
+    });
+});
+
+describe('roles', () => {
+    it('leaves everything open until an owner PIN is set, then treats anyone signed out as staff', async () => {
+        const owner = await createStaffUser({ name: 'Lakshmi', role: 'owner', pin: '2580' }, now);
+        const staff = await createStaffUser({ name: 'Meena', role: 'staff', pin: '2468' }, new Date(now.getTime() + 1));
+
+        expect(getRole([], null)).toBe('owner');
+        expect(getRole([staff], null)).toBe('owner');
+        expect(getRole([owner, staff], null)).toBe('staff');
+        expect(getRole([owner, staff], staff)).toBe('staff');
+        expect(getRole([owner, staff], owner)).toBe('owner');
+    });
+
+    it('gives staff none of the owner permissions', () => {
+        expect(can('owner', 'viewProfit')).toBe(true);
+        expect(can('owner', 'deleteSaves')).toBe(true);
+        expect(can('staff', 'viewProfit')).toBe(false);
+        expect(can('staff', 'editRates')).toBe(false);
+        expect(can('staff', 'deleteSaves')).toBe(false);
+    });
+});
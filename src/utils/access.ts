@@ -0,0 +1,92 @@
+// Owner and staff profiles, each signed in with a PIN. Until an owner PIN is set the app
+// stays open to everyone, as it always was; after that, anyone not signed in works as staff
+
+export type Role = 'owner' | 'staff';
+
+export const ROLE_LABELS: Record<Role, string> = {
+    owner: 'Owner',
+    staff: 'Staff',
+};
+
+export interface StaffUser {
+    id: string;
+    name: string;
+    role: Role;
+    salt: string;
+    pinHash: string;    // Only the hash is stored, never the PIN
+    createdAt: string;
+}
+
+export interface StaffDraft {
+    name: string;
+    role: Role;
+    pin: string;
+}
+
+export type Permission = 'viewProfit' | 'editRates' | 'editWastage' | 'editSettings' | 'deleteSaves' | 'manageStaff' | 'viewAudit' | 'approveFloor';
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+    owner: ['viewProfit', 'editRates', 'editWastage', 'editSettings', 'deleteSaves', 'manageStaff', 'viewAudit', 'approveFloor'],
+    staff: [],
+};
+
+export const can = (role: Role, permission: Permission): boolean => ROLE_PERMISSIONS[role].includes(permission);
+
+// What the screens need to know about whoever is using the app
+export interface Access {
+    role: Role;
+    user: StaffUser | null;
+    locked: boolean;    // An owner PIN has been set
+    checkPin: (pin: string) => Promise<StaffUser | null>;
+}
+
+export const OPEN_ACCESS: Access = { role: 'owner', user: null, locked: false, checkPin: async () => null };
+
+export const isLocked = (users: StaffUser[]): boolean => users.some(user => user.role === 'owner');
+
+export const getRole = (users: StaffUser[], user: StaffUser | null): Role =>
+    isLocked(users) ? user?.role ?? 'staff' : 'owner';
+
+export const validatePin = (pin: string): string | null =>
+    /^\d{4,6}$/.test(pin) ? null : 'PIN must be 4 to 6 digits';
+
+const toHex = (buffer: ArrayBuffer): string =>
+    Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const hashPin = async (pin: string, salt: string): Promise<string> =>
+    toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${pin}`)));
+
+const newSalt = (): string => toHex(crypto.getRandomValues(new Uint8Array(16)).buffer);
+
+export const findUserByPin = async (users: StaffUser[], pin: string): Promise<StaffUser | null> => {
+    for (const user of users) {
+        if (await hashPin(pin, user.salt) === user.pinHash) return user;
+    }
+    return null;
+};
+
+// Checks a new profile; PINs must differ, since the PIN alone says who is signing in
+export const validateStaffDraft = async (users: StaffUser[], draft: StaffDraft, editingId?: string): Promise<string | null> => {
+    if (!draft.name.trim()) return 'Enter a name';
+    const pinError = validatePin(draft.pin);
+    if (pinError) return pinError;
+    const holder = await findUserByPin(users, draft.pin);
+    return holder && holder.id !== editingId ? 'Someone already uses this PIN' : null;
+};
+
+export const createStaffUser = async (draft: StaffDraft, now: Date): Promise<StaffUser> => {
+    const salt = newSalt();
+    return {
+        id: `user-${now.getTime()}`,
+        name: draft.name.trim(),
+        role: draft.role,
+        salt,
+        pinHash: await hashPin(draft.pin, salt),
+        createdAt: now.toISOString(),
+    };
+};
+
+export const changePin = async (user: StaffUser, pin: string): Promise<StaffUser> => {
+    const salt = newSalt();
+    return { ...user, salt, pinHash: await hashPin(pin, salt) };
+};
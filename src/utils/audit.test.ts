@@ -0,0 +1,65 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Access, OPEN_ACCESS, StaffUser } from './access';
+import { appendAuditEntries, AuditEntry, AuditFilter, createAuditEntry, filterAuditLog, readAuditLog } from './audit';
+
+const meena = { id: 'u2', name: 'Meena', role: 'staff' } as StaffUser;
+const staffAccess: Access = { role: 'staff', user: meena, locked: true, checkPin: async () => null };
+
+const allEntries: AuditFilter = { query: '', fromDate: '', toDate: '', action: 'all', metal: 'all' };
+
+describe('createAuditEntry', () => {
+    it('stamps who did it and when', () => {
+        const entry = createAuditEntry({ action: 'saved', metal: 'gold', description: '10g - 916', amount: 79200, percent: 10 }, staffAccess, new Date(2026, 9, 19, 11), 1);
+        expect(entry).toMatchObject({ action: 'saved', userName: 'Meena', role: 'staff', amount: 79200, percent: 10 });
+        expect(entry.id).toMatch(/^audit-\d+-1-[a-z0-9]+$/);
+        expect(createAuditEntry({ action: 'shared', description: 'Bill of 2 items' }, OPEN_ACCESS, new Date())).toMatchObject({ userName: '', role: 'owner' });
+    });
+
+    it('gives entries made in the same millisecond different ids', () => {
+        const now = new Date(2026, 9, 19, 11);
+        const ids = new Set(Array.from({ length: 20 }, () => createAuditEntry({ action: 'calculated', description: '10g - 916' }, staffAccess, now).id));
+        expect(ids.size).toBe(20);
+    });
+});
+
+describe('appendAuditEntries', () => {
+    it('adds to what is already stored', () => {
+        const first = createAuditEntry({ action: 'calculated', metal: 'gold', description: '10g - 916' }, staffAccess, new Date());
+        const second = createAuditEntry({ action: 'deleted', metal: 'gold', description: '5g - 916' }, staffAccess, new Date());
+        appendAuditEntries(window.localStorage, [first]);
+        appendAuditEntries(window.localStorage, [second]);
+        expect(readAuditLog(window.localStorage).map(entry => entry.action)).toEqual(['calculated', 'deleted']);
+    });
+
+    it('throws when storage is full, so the caller can say the entry was lost', () => {
+        const entry = createAuditEntry({ action: 'saved', metal: 'gold', description: '10g - 916' }, staffAccess, new Date());
+        const setItem = vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+            throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+        });
+        expect(() => appendAuditEntries(window.localStorage, [entry])).toThrow('quota');
+        setItem.mockRestore();
+        expect(readAuditLog(window.localStorage)).toEqual([]);
+    });
+});
+
+describe('filterAuditLog', () => {
+    const entry = (id: string, changes: Partial<AuditEntry>): AuditEntry => ({
+        id, createdAt: new Date(2026, 9, 19, 10).toISOString(), action: 'calculated', userName: 'Meena', role: 'staff', description: '10g - 916', ...changes,
+    });
+    const entries = [
+        entry('a', { metal: 'gold' }),
+        entry('b', { action: 'rateChanged', metal: 'silver', userName: 'Lakshmi', role: 'owner', description: 'Silver 999', createdAt: new Date(2026, 9, 20, 9).toISOString() }),
+        entry('c', { action: 'shared', metal: 'gold', createdAt: new Date(2026, 9, 21, 9).toISOString() }),
+    ];
+
+    it('lists the newest first', () => {
+        expect(filterAuditLog(entries, allEntries).map(e => e.id)).toEqual(['c', 'b', 'a']);
+    });
+
+    it('filters by action, metal, date and who did it', () => {
+        expect(filterAuditLog(entries, { ...allEntries, action: 'rateChanged' }).map(e => e.id)).toEqual(['b']);
+        expect(filterAuditLog(entries, { ...allEntries, metal: 'gold' }).map(e => e.id)).toEqual(['c', 'a']);
+        expect(filterAuditLog(entries, { ...allEntries, fromDate: '2026-10-20', toDate: '2026-10-20' }).map(e => e.id)).toEqual(['b']);
+        expect(filterAuditLog(entries, { ...allEntries, query: 'meena' }).map(e => e.id)).toEqual(['c', 'a']);
+    });
+});
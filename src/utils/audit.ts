@@ -0,0 +1,88 @@
+import { Access, Role } from './access';
+import { toDateKey } from './format';
+import { Metal } from './pricing';
+
+export const AUDIT_LOG_KEY = 'auditLog';
+
+export type AuditAction = 'calculated' | 'shown' | 'shared' | 'saved' | 'deleted' | 'wastageChanged' | 'rateChanged' | 'floorOverride';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+    calculated: 'Quote calculated',
+    shown: 'Shown to customer',
+    shared: 'Shared',
+    saved: 'Saved',
+    deleted: 'Deleted',
+    wastageChanged: 'Wastage changed',
+    rateChanged: 'Rate changed',
+    floorOverride: 'Below floor approved',
+};
+
+// One thing someone did, as it was at the time. Entries are only ever added, never edited or removed
+export interface AuditEntry {
+    id: string;
+    createdAt: string;
+    action: AuditAction;
+    userName: string;       // Empty until an owner PIN is set, or when staff had not signed in
+    role: Role;
+    metal?: Metal;
+    description: string;    // e.g. "10g - 916"
+    amount?: number;        // Quote total, or the new rate
+    previousAmount?: number;
+    percent?: number;       // Wastage % the quote was made at
+    previousPercent?: number;
+    discount?: number;      // Rupees off the quote total
+    approvedBy?: string;    // Owner who let a quote go below the wastage floor
+}
+
+export type AuditDraft = Omit<AuditEntry, 'id' | 'createdAt' | 'userName' | 'role'>;
+
+export interface AuditFilter {
+    query: string;
+    fromDate: string;   // YYYY-MM-DD, inclusive; empty for no bound
+    toDate: string;
+    action: AuditAction | 'all';
+    metal: Metal | 'all';
+}
+
+// Two screens, or two quick taps, can log in the same millisecond; the random part keeps their ids apart
+export const createAuditEntry = (draft: AuditDraft, access: Access, now: Date, index = 0): AuditEntry => ({
+    ...draft,
+    id: `audit-${now.getTime()}-${index}-${Math.random().toString(36).slice(2, 10)}`,
+    createdAt: now.toISOString(),
+    userName: access.user?.name ?? '',
+    role: access.role,
+});
+
+export const readAuditLog = (storage: Storage): AuditEntry[] => {
+    try {
+        const item = storage.getItem(AUDIT_LOG_KEY);
+        return item ? JSON.parse(item) : [];
+    } catch (error) {
+        console.error(error);
+        return [];
+    }
+};
+
+// Where IndexedDB is unavailable the log is kept in localStorage, and browsers that had it there before
+// the database are imported from here. Reads the stored log before adding, so screens open at the same time
+// never overwrite each other's entries. Throws when storage is full, so the entry is never silently lost
+export const appendAuditEntries = (storage: Storage, entries: AuditEntry[]) => {
+    if (entries.length === 0) return;
+    storage.setItem(AUDIT_LOG_KEY, JSON.stringify([...readAuditLog(storage), ...entries]));
+};
+
+// Newest first
+export const filterAuditLog = (entries: AuditEntry[], filter: AuditFilter): AuditEntry[] => {
+    const query = filter.query.trim().toLowerCase();
+    return entries
+        .filter(entry => {
+            const day = toDateKey(new Date(entry.createdAt));
+            if (filter.fromDate && day < filter.fromDate) return false;
+            if (filter.toDate && day > filter.toDate) return false;
+            if (filter.action !== 'all' && entry.action !== filter.action) return false;
+            if (filter.metal !== 'all' && entry.metal !== filter.metal) return false;
+            if (!query) return true;
+            return [entry.userName, entry.description].some(value => value.toLowerCase().includes(query));
+        })
+        .reverse();
+};
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { AuditEntry } from './audit';
+import { Backup, BACKUP_FORMAT, BACKUP_VERSION, createBackup, getBackupFileName, parseBackup, planRestore, readStorage } from './backup';
+import { CALCULATION_SCHEMA_VERSION, CalculationRecord } from './migrations';
+
+const save = (id: string, weight = '10'): CalculationRecord => ({
+    id, metal: 'gold', price: '7200', weight, purity: '916', minPercent: '8', maxPercent: '14', schemaVersion: CALCULATION_SCHEMA_VERSION,
+});
+
+const auditEntry = (id: string, createdAt = '2026-10-18T10:00:00.000Z'): AuditEntry => ({
+    id, createdAt, action: 'saved', userName: 'Ravi', role: 'staff', description: '10g - 916',
+});
+
+const backupOf = (storage: Record<string, unknown>, calculations: CalculationRecord[] = [], auditLog: AuditEntry[] = []): Backup =>
+    createBackup(storage, calculations, auditLog, new Date(2026, 9, 19));
+
+describe('readStorage', () => {
+    it('reads every known key, including the raw install prompt flag', () => {
+        window.localStorage.setItem('taxSettings', JSON.stringify({ enabled: false }));
+        window.localStorage.setItem('installPromptDismissed', 'true');
+        window.localStorage.setItem('somethingElse', '1');
+        expect(readStorage(window.localStorage)).toEqual({ taxSettings: { enabled: false }, installPromptDismissed: true });
+    });
+});
+
+describe('parseBackup', () => {
+    it('accepts a backup and round-trips it', () => {
+        const backup = backupOf({ customers: [{ id: 'c1' }] }, [save('1')], [auditEntry('audit-1')]);
+        expect(parseBackup(JSON.stringify(backup))).toEqual({ backup });
+        expect(getBackupFileName(new Date(2026, 9, 19))).toBe('nl-jewellers-backup-2026-10-19.json');
+    });
+
+    it('rejects files that are not backups, newer or damaged', () => {
+        expect(parseBackup('not json')).toEqual({ error: 'This file is not a backup: it could not be read' });
+        expect(parseBackup('{"format":"other"}')).toEqual({ error: 'This file is not an NL Jewellers backup' });
+        expect(parseBackup(JSON.stringify({ ...backupOf({}), version: BACKUP_VERSION + 1 }))).toEqual({ error: 'This backup was made by a newer version of the app' });
+        expect(parseBackup(JSON.stringify({ ...backupOf({}), storage: [] }))).toEqual({ error: 'This backup is damaged' });
+        expect(parseBackup(JSON.stringify(backupOf({}, [{ ...save('1'), metal: 'copper' as 'gold' }])))).toEqual({ error: 'This backup has damaged saved calculations' });
+        expect(parseBackup(JSON.stringify({ ...backupOf({}), auditLog: [{ id: 1 }] }))).toEqual({ error: 'This backup has a damaged audit log' });
+    });
+
+    it('drops unknown keys and migrates old saves', () => {
+        const parsed = parseBackup(JSON.stringify({
+            format: BACKUP_FORMAT, version: 1, createdAt: '2026-10-19T00:00:00.000Z',
+            storage: { taxSettings: { enabled: true }, auditLog: [auditEntry('audit-1')], stray: 1 },
+            calculations: [{ id: '1', metal: 'silver', silverPrice: '85', silverWeight: '50', purity: '999', minPercent: '8', maxPercent: '14' }],
+        }));
+        if (!('backup' in parsed)) throw new Error(parsed.error);
+        expect(parsed.backup.storage).toEqual({ taxSettings: { enabled: true } });
+        expect(parsed.backup.calculations[0]).toMatchObject({ price: '85', weight: '50', schemaVersion: CALCULATION_SCHEMA_VERSION });
+        expect(parsed.backup.auditLog).toEqual([auditEntry('audit-1')]);
+    });
+});
+
+describe('planRestore', () => {
+    const current = { customers: [{ id: 'c1', name: 'Ravi' }, { id: 'c2', name: 'Anitha' }], taxSettings: { enabled: true } };
+    const backup = backupOf(
+        { customers: [{ id: 'c1', name: 'Ravi K' }, { id: 'c3', name: 'Meena' }], taxSettings: { enabled: false }, printLayout: 'a4' },
+        [save('1', '12'), save('3')],
+        [auditEntry('audit-1'), auditEntry('audit-3')],
+    );
+    const currentAudit = [auditEntry('audit-1'), auditEntry('audit-2')];
+
+    it('merges by adding only what this phone is missing', () => {
+        const plan = planRestore(current, [save('1'), save('2')], currentAudit, backup, 'merge');
+        expect(plan.storage.customers).toEqual([{ id: 'c1', name: 'Ravi' }, { id: 'c2', name: 'Anitha' }, { id: 'c3', name: 'Meena' }]);
+        expect(plan.storage.taxSettings).toEqual({ enabled: true });
+        expect(plan.calculations.map(c => `${c.id}:${c.weight}`)).toEqual(['1:10', '2:10', '3:10']);
+        expect(plan.changes).toEqual([
+            { label: 'Customers', summary: '1 added' },
+            { label: 'Print layout', summary: 'Added' },
+            { label: 'Audit log', summary: '1 added' },
+            { label: 'Gold saved calculations', summary: '1 added' },
+        ]);
+    });
+
+    it('replaces so this phone matches the backup', () => {
+        const plan = planRestore({ ...current, activeExchange: { metal: 'gold' } }, [save('1'), save('2')], currentAudit, backup, 'replace');
+        expect(plan.storage).toEqual(backup.storage);
+        expect(plan.calculations).toEqual(backup.calculations);
+        // Replacing never takes anything out of the audit log
+        expect(plan.auditEntries).toEqual([auditEntry('audit-3')]);
+        expect(plan.changes).toEqual([
+            { label: 'Customers', summary: '1 added, 1 updated, 1 removed' },
+            { label: 'GST settings', summary: 'Replaced' },
+            { label: 'Print layout', summary: 'Added' },
+            { label: 'Old metal exchange', summary: 'Removed' },
+            { label: 'Audit log', summary: '1 added' },
+            { label: 'Gold saved calculations', summary: '1 added, 1 updated, 1 removed' },
+        ]);
+    });
+
+    it('keeps register records from another phone that reuse a number or id, and counts them', () => {
+        const here = { id: 'estimate-2026-27-1', number: 'EST/2026-27/0001', createdAt: '2026-10-18T05:00:00.000Z', customerName: 'Ravi' };
+        const other = { id: 'estimate-2026-27-1', number: 'EST/2026-27/0001', createdAt: '2026-10-19T06:00:00.000Z', customerName: 'Meena' };
+        const plan = planRestore({ estimateRegister: [here] }, [], [], backupOf({ estimateRegister: [here, other] }), 'merge');
+
+        expect(plan.storage.estimateRegister).toEqual([here, { ...other, id: 'estimate-2026-27-1-2' }]);
+        expect(plan.changes).toEqual([{ label: 'Estimate register', summary: '1 added (1 with a number already used here)' }]);
+    });
+
+    it('finds nothing to change when the backup is already here', () => {
+        expect(planRestore(backup.storage, backup.calculations, backup.auditLog, backup, 'merge').changes).toEqual([]);
+    });
+});
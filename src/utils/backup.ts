@@ -0,0 +1,210 @@
+import { AuditEntry } from './audit';
+import { CalculationRecord, migrateCalculation, VersionedRecord } from './migrations';
+import { getMetalName, METALS } from './metals';
+import { toDateKey } from './format';
+
+export const BACKUP_FORMAT = 'nl-jewellers-backup';
+export const BACKUP_VERSION = 2;   // 2: the audit log moved out of storage into its own list
+
+// Everything kept in localStorage. Lists name how their entries are matched up when merging
+interface BackupSection {
+    label: string;
+    idOf?: (entry: Record<string, unknown>) => string;
+    // For lists matched on something other than their id: the number shown to people, which may repeat
+    numberOf?: (entry: Record<string, unknown>) => string;
+}
+
+export const BACKUP_SECTIONS: Record<string, BackupSection> = {
+    // Register numbers and ids repeat between phones and after a numbering reset; a number and the time it was issued do not
+    estimateRegister: { label: 'Estimate register', idOf: record => `${record.number}|${record.createdAt}`, numberOf: record => String(record.number) },
+    customers: { label: 'Customers', idOf: customer => String(customer.id) },
+    staffUsers: { label: 'Staff & PINs', idOf: user => String(user.id) },
+    rateHistory: { label: 'Rate history', idOf: day => String(day.date) },
+    currentBill: { label: 'Current bill', idOf: item => String(item.id) },
+    purityCatalogue: { label: 'Purity catalogue' },
+    taxSettings: { label: 'GST settings' },
+    numberingSettings: { label: 'Register numbering' },
+    printLayout: { label: 'Print layout' },
+    activeExchange: { label: 'Old metal exchange' },
+    activeCustomerId: { label: 'Open customer' },
+    installPromptDismissed: { label: 'Install prompt' },
+};
+
+export interface Backup {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    createdAt: string;
+    storage: Record<string, unknown>;    // localStorage values by key, already parsed
+    calculations: CalculationRecord[];
+    auditLog: AuditEntry[];
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export const RESTORE_MODE_LABELS: Record<RestoreMode, string> = {
+    merge: 'Merge: add what this phone is missing',
+    replace: 'Replace: make this phone match the backup',
+};
+
+export interface RestoreChange {
+    label: string;
+    summary: string;
+}
+
+export interface RestorePlan {
+    storage: Record<string, unknown>;    // Keys left out are removed
+    calculations: CalculationRecord[];
+    auditEntries: AuditEntry[];          // Added to the log in either mode; nothing in it is ever changed or removed
+    changes: RestoreChange[];
+}
+
+export const readStorage = (storage: Storage): Record<string, unknown> => {
+    const values: Record<string, unknown> = {};
+    for (const key of Object.keys(BACKUP_SECTIONS)) {
+        const item = storage.getItem(key);
+        if (item === null) continue;
+        try {
+            values[key] = JSON.parse(item);
+        } catch (error) {
+            console.error(error);
+        }
+    }
+    return values;
+};
+
+export const createBackup = (storage: Record<string, unknown>, calculations: CalculationRecord[], auditLog: AuditEntry[], now: Date): Backup => ({
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: now.toISOString(),
+    storage,
+    calculations,
+    auditLog,
+});
+
+export const getBackupFileName = (now: Date): string => `nl-jewellers-backup-${toDateKey(now)}.json`;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Checks a backup file before anything is restored from it
+export const parseBackup = (text: string): { backup: Backup } | { error: string } => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        return { error: 'This file is not a backup: it could not be read' };
+    }
+    if (!isObject(data) || data.format !== BACKUP_FORMAT) return { error: 'This file is not an NL Jewellers backup' };
+    if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) return { error: 'This backup was made by a newer version of the app' };
+    if (typeof data.createdAt !== 'string' || !isObject(data.storage) || !Array.isArray(data.calculations)) {
+        return { error: 'This backup is damaged' };
+    }
+    if (!data.calculations.every(record => isObject(record) && typeof record.id === 'string' && METALS.some(metal => metal.id === record.metal))) {
+        return { error: 'This backup has damaged saved calculations' };
+    }
+    // Version 1 backups kept the audit log with the other localStorage keys
+    const auditLog = data.version >= 2 ? data.auditLog : data.storage.auditLog ?? [];
+    if (!Array.isArray(auditLog) || !auditLog.every(entry => isObject(entry) && typeof entry.id === 'string' && typeof entry.createdAt === 'string')) {
+        return { error: 'This backup has a damaged audit log' };
+    }
+
+    // Unknown keys are dropped; saves from older app versions are brought up to date
+    const storage = Object.fromEntries(Object.entries(data.storage).filter(([key]) => key in BACKUP_SECTIONS));
+    const calculations = (data.calculations as Array<Record<string, unknown>>)
+        .map(record => migrateCalculation({ ...record, schemaVersion: Number(record.schemaVersion) || 1 } as VersionedRecord));
+    return { backup: { format: BACKUP_FORMAT, version: data.version, createdAt: data.createdAt, storage, calculations, auditLog: auditLog as AuditEntry[] } };
+};
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const describeCounts = (added: number, updated: number, removed: number): string =>
+    [added && `${added} added`, updated && `${updated} updated`, removed && `${removed} removed`].filter(Boolean).join(', ');
+
+// Merging keeps this phone's copy of anything both sides have; replacing takes the backup's
+const combineList = <T,>(current: T[], incoming: T[], idOf: (entry: T) => string, mode: RestoreMode): T[] => {
+    if (mode === 'replace') return incoming;
+    const known = new Set(current.map(idOf));
+    return [...current, ...incoming.filter(entry => !known.has(idOf(entry)))];
+};
+
+const compareLists = <T,>(before: T[], after: T[], idOf: (entry: T) => string): string => {
+    const previous = new Map(before.map(entry => [idOf(entry), entry]));
+    const next = new Set(after.map(idOf));
+    const added = after.filter(entry => !previous.has(idOf(entry))).length;
+    const updated = after.filter(entry => previous.has(idOf(entry)) && !sameValue(previous.get(idOf(entry)), entry)).length;
+    const removed = [...previous.keys()].filter(id => !next.has(id)).length;
+    return describeCounts(added, updated, removed);
+};
+
+// An entry merged in under an id this phone already uses gets a new one, so the app can still tell them apart
+const withUniqueIds = (entries: Array<Record<string, unknown>>): Array<Record<string, unknown>> => {
+    const seen = new Set<string>();
+    return entries.map(entry => {
+        let id = String(entry.id);
+        for (let copy = 2; seen.has(id); copy++) id = `${entry.id}-${copy}`;
+        seen.add(id);
+        return id === entry.id ? entry : { ...entry, id };
+    });
+};
+
+// Entries merged in under a number this phone has already issued to something else
+const countNumberClashes = (before: Array<Record<string, unknown>>, after: Array<Record<string, unknown>>, section: BackupSection): number => {
+    const { idOf, numberOf } = section;
+    if (!idOf || !numberOf) return 0;
+    const known = new Set(before.map(idOf));
+    const numbers = new Set(before.map(numberOf));
+    return after.filter(entry => !known.has(idOf(entry)) && numbers.has(numberOf(entry))).length;
+};
+
+const calculationId = (record: CalculationRecord) => `${record.metal}:${record.id}`;
+
+// Works out the data after a restore, and what will change, without touching storage
+export const planRestore = (
+    currentStorage: Record<string, unknown>,
+    currentCalculations: CalculationRecord[],
+    currentAuditLog: AuditEntry[],
+    backup: Backup,
+    mode: RestoreMode,
+): RestorePlan => {
+    const storage: Record<string, unknown> = {};
+    const changes: RestoreChange[] = [];
+
+    for (const [key, section] of Object.entries(BACKUP_SECTIONS)) {
+        const { label, idOf, numberOf } = section;
+        const current = currentStorage[key];
+        const incoming = backup.storage[key];
+        let next: unknown;
+        let summary: string;
+
+        if (idOf && (Array.isArray(current) || Array.isArray(incoming))) {
+            const before = Array.isArray(current) ? current : [];
+            const combined = combineList(before, Array.isArray(incoming) ? incoming : [], idOf, mode);
+            next = numberOf ? withUniqueIds(combined) : combined;
+            summary = compareLists(before, next as Array<Record<string, unknown>>, idOf);
+            const clashes = mode === 'merge' ? countNumberClashes(before, combined, section) : 0;
+            if (clashes) summary += ` (${clashes} with a number already used here)`;
+        } else {
+            next = mode === 'replace' ? incoming : current ?? incoming;
+            summary = sameValue(current, next) ? '' : current === undefined ? 'Added' : next === undefined ? 'Removed' : 'Replaced';
+        }
+        if (next !== undefined) storage[key] = next;
+        if (summary) changes.push({ label, summary });
+    }
+
+    // The log is a record of what happened, so a restore can add to it but never rewrite it
+    const knownAudit = new Set(currentAuditLog.map(entry => entry.id));
+    const auditEntries = backup.auditLog.filter(entry => !knownAudit.has(entry.id));
+    if (auditEntries.length > 0) changes.push({ label: 'Audit log', summary: describeCounts(auditEntries.length, 0, 0) });
+
+    const calculations = combineList(currentCalculations, backup.calculations, calculationId, mode);
+    for (const metal of new Set([...currentCalculations, ...calculations].map(record => record.metal))) {
+        const summary = compareLists(
+            currentCalculations.filter(record => record.metal === metal),
+            calculations.filter(record => record.metal === metal),
+            calculationId,
+        );
+        if (summary) changes.push({ label: `${getMetalName(metal)} saved calculations`, summary });
+    }
+
+    return { storage, calculations, auditEntries, changes };
+};
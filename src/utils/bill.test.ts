@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { BillItem, calculateBillTotals, describeBillItem, formatBillText, getBillSummaryLines } from './bill';
+import { calculateResult } from './pricing';
+import { calculateTax, DEFAULT_TAX_SETTINGS } from './tax';
+
+const necklace = calculateResult({ purityFactor: 0.92, rate: 7200, weight: 10, makingCharge: { type: 'flat', value: 1000 } }, 8);
+const anklet = calculateResult({ purityFactor: 1, rate: 85, weight: 50 }, 8);
+
+const items: BillItem[] = [
+    { id: '1', metal: 'gold', purity: '916', rate: 7200, weight: 10, result: necklace, tax: calculateTax(necklace, DEFAULT_TAX_SETTINGS) },
+    { id: '2', metal: 'silver', purity: '999', rate: 85, weight: 50, result: anklet, tax: calculateTax(anklet, { ...DEFAULT_TAX_SETTINGS, enabled: false }) },
+];
+
+describe('calculateBillTotals', () => {
+    it('sums every component across metals', () => {
+        const totals = calculateBillTotals(items);
+        expect(totals.metalValue).toBeCloseTo(70490, 6);
+        expect(totals.wastageValue).toBeCloseTo(6100, 6);
+        expect(totals.makingCharge).toBeCloseTo(1000, 6);
+        expect(totals.subtotal).toBeCloseTo(77590, 6);
+        expect(totals.cgst).toBeCloseTo(1105, 6);
+        expect(totals.sgst).toBeCloseTo(1105, 6);
+        expect(totals.totalTax).toBeCloseTo(2210, 6);
+        expect(totals.grandTotal).toBeCloseTo(79800, 6);
+    });
+
+    it('takes item discounts off the grand total', () => {
+        const totals = calculateBillTotals([{ ...items[0], discount: 800 }, items[1]]);
+        expect(totals.discount).toBe(800);
+        expect(totals.grandTotal).toBeCloseTo(79000, 6);
+        expect(getBillSummaryLines(totals).map(line => line.label)).toContain('Discount');
+    });
+
+    it('is all zeros for an empty bill', () => {
+        expect(calculateBillTotals([]).grandTotal).toBe(0);
+    });
+});
+
+describe('getBillSummaryLines', () => {
+    it('skips components that were not charged', () => {
+        expect(getBillSummaryLines(calculateBillTotals(items)).map(line => line.label))
+            .toEqual(['Metal Value', 'Wastage', 'Making Charges', 'Subtotal', 'CGST', 'SGST']);
+    });
+});
+
+describe('formatBillText', () => {
+    it('lists each item and the grand total', () => {
+        const text = formatBillText(items, null);
+        expect(text).toContain(`1. ${describeBillItem(items[0])}`);
+        expect(text).toContain('2. 999 Silver · 50 g · 8% wastage');
+        expect(text).toContain('*GRAND TOTAL: ₹79,800.00*');
+        expect(text).not.toContain('Exchange');
+    });
+});
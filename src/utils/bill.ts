@@ -0,0 +1,79 @@
+import { Metal, ResultDetail } from './pricing';
+import { TaxBreakdown } from './tax';
+import { formatCurrency, formatPercent } from './format';
+import { formatExchangeText, OldMetalExchange } from './exchange';
+import { getMetalName } from './metals';
+
+// A quoted piece added to the bill; result and tax are frozen at the time it was added
+export interface BillItem {
+    id: string;
+    metal: Metal;
+    purity: string;
+    rate: number;
+    weight: number;
+    result: ResultDetail;
+    tax: TaxBreakdown;
+    discount?: number;  // Rupees off this item's total incl. GST
+}
+
+export interface BillTotals {
+    metalValue: number;
+    wastageValue: number;
+    makingCharge: number;
+    stoneValue: number;
+    subtotal: number;
+    cgst: number;
+    sgst: number;
+    igst: number;
+    totalTax: number;
+    discount: number;
+    grandTotal: number;
+}
+
+// What the customer pays for one item, after its discount
+export const getBillItemTotal = (item: BillItem): number => item.tax.grandTotal - (item.discount ?? 0);
+
+export const calculateBillTotals = (items: BillItem[]): BillTotals =>
+    items.reduce<BillTotals>((totals, item) => ({
+        metalValue: totals.metalValue + item.result.purityValue,
+        wastageValue: totals.wastageValue + item.result.wastageValue,
+        makingCharge: totals.makingCharge + item.result.makingCharge,
+        stoneValue: totals.stoneValue + item.result.stoneValue,
+        subtotal: totals.subtotal + item.result.total,
+        cgst: totals.cgst + item.tax.cgst,
+        sgst: totals.sgst + item.tax.sgst,
+        igst: totals.igst + item.tax.igst,
+        totalTax: totals.totalTax + item.tax.totalTax,
+        discount: totals.discount + (item.discount ?? 0),
+        grandTotal: totals.grandTotal + getBillItemTotal(item),
+    }), {
+        metalValue: 0, wastageValue: 0, makingCharge: 0, stoneValue: 0, subtotal: 0,
+        cgst: 0, sgst: 0, igst: 0, totalTax: 0, discount: 0, grandTotal: 0,
+    });
+
+export const describeBillItem = (item: BillItem): string =>
+    `${item.purity} ${getMetalName(item.metal)} · ${item.weight} g · ${formatPercent(item.result.percent)} wastage`;
+
+// Summary rows shared by the bill screen, its customer view and the share text; zero rows are skipped
+export const getBillSummaryLines = (totals: BillTotals): Array<{ label: string; amount: number }> => [
+    { label: 'Metal Value', amount: totals.metalValue },
+    { label: 'Wastage', amount: totals.wastageValue },
+    { label: 'Making Charges', amount: totals.makingCharge },
+    { label: 'Stones', amount: totals.stoneValue },
+    { label: 'Subtotal', amount: totals.subtotal },
+    { label: 'CGST', amount: totals.cgst },
+    { label: 'SGST', amount: totals.sgst },
+    { label: 'IGST', amount: totals.igst },
+    { label: 'Discount', amount: -totals.discount },
+].filter(line => line.label === 'Subtotal' || line.amount !== 0);
+
+export const formatBillText = (items: BillItem[], exchange: OldMetalExchange | null): string => {
+    const totals = calculateBillTotals(items);
+    const itemsText = items.map((item, index) =>
+        `${index + 1}. ${describeBillItem(item)}\n   ${formatCurrency(getBillItemTotal(item))}`
+    ).join('\n');
+    const summaryText = getBillSummaryLines(totals).map(line => `• ${line.label}: ${formatCurrency(line.amount)}`).join('\n');
+    const exchangeText = exchange ? `\n\n${formatExchangeText(exchange, totals.grandTotal)}` : '';
+
+    return `🏪 *NL JEWELLERS*\n\n🧾 *ESTIMATE*\n\n📦 Items:\n${itemsText}\n\n💰 Summary:\n${summaryText}\n\n✨ *GRAND TOTAL: ${formatCurrency(totals.grandTotal)}*${exchangeText}`;
+};
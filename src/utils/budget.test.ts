@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { BudgetInput, calculateBudgetResults, calculateMaxWeight, getMetalValueTotal, solveWastagePercent } from './budget';
+import { calculateResult, PricingInput } from './pricing';
+import { calculateTax } from './tax';
+import { TaxSettings } from './tax';
+
+const gold916: BudgetInput = { purityFactor: 0.92, rate: 7200, budget: 100000 };
+const gst: TaxSettings = { enabled: true, metalRate: 3, makingRate: 5, supplyType: 'intraState' };
+
+describe('calculateMaxWeight', () => {
+    it('fits the heaviest weight to the milligram without going over', () => {
+        const fit = calculateMaxWeight(gold916, 8);
+        expect(fit.weight).toBe(13.888);
+        expect(fit.grandTotal).toBeCloseTo(99993.6, 6);
+        expect(fit.result.total).toBe(fit.grandTotal);
+    });
+
+    it('leaves room for GST when it is enabled', () => {
+        const fit = calculateMaxWeight(gold916, 8, gst);
+        expect(fit.weight).toBe(13.484);
+        expect(fit.grandTotal).toBeCloseTo(99997.344, 6);
+        expect(calculateMaxWeight(gold916, 8, { ...gst, enabled: false }).weight).toBe(13.888);
+    });
+
+    it('takes a flat making charge off the top and per-gram making off every gram', () => {
+        expect(calculateMaxWeight({ ...gold916, makingCharge: { type: 'flat', value: 1500 } }, 8, gst).weight).toBe(13.271);
+        expect(calculateMaxWeight({ ...gold916, makingCharge: { type: 'perGram', value: 500 } }, 8, gst).weight).toBe(12.592);
+    });
+
+    it('prices at the board purity rate when one is given', () => {
+        expect(calculateMaxWeight({ ...gold916, purityRate: 6650 }, 8).weight).toBe(13.838);
+    });
+
+    it('fits nothing when the budget does not cover the fixed charges', () => {
+        const fit = calculateMaxWeight({ ...gold916, budget: 1000, makingCharge: { type: 'flat', value: 1500 } }, 8);
+        expect(fit.weight).toBe(0);
+    });
+});
+
+describe('calculateBudgetResults', () => {
+    it('returns one lighter weight per higher wastage percent', () => {
+        const results = calculateBudgetResults(gold916, { minPercent: 8, maxPercent: 14 });
+        expect(results.map(r => r.percent)).toEqual([8, 9, 10, 11, 12, 13, 14]);
+        expect(results[6].weight).toBe(13.102);
+        results.forEach((r, i) => {
+            expect(r.grandTotal).toBeLessThanOrEqual(100000);
+            if (i > 0) expect(r.weight).toBeLessThan(results[i - 1].weight);
+        });
+    });
+});
+
+describe('solveWastagePercent', () => {
+    const item: PricingInput = { purityFactor: 0.92, rate: 7200, weight: 10 };
+
+    it('finds the whole percent behind a listed total', () => {
+        expect(solveWastagePercent(item, 72000)).toBeCloseTo(8, 9);
+        expect(solveWastagePercent(item, 76320)).toBeCloseTo(14, 9);
+    });
+
+    it('finds a fractional percent that lands exactly on a round total', () => {
+        const percent = solveWastagePercent(item, 73000);
+        expect(percent).toBeCloseTo(9.3889, 4);
+        expect(calculateResult(item, percent).total).toBeCloseTo(73000, 6);
+    });
+
+    it('solves against the GST-inclusive total, with making charges and stones', () => {
+        const withExtras: PricingInput = { ...item, weight: 12, stoneWeight: 2, makingCharge: { type: 'perGram', value: 500 },
+            stones: [{ name: 'Ruby', weight: 0.5, unit: 'ct', price: 4000 }] };
+        const percent = solveWastagePercent(withExtras, 85000, gst);
+        expect(calculateTax(calculateResult(withExtras, percent), gst).grandTotal).toBeCloseTo(85000, 6);
+    });
+
+    it('stops at zero when the total does not even cover the metal', () => {
+        expect(getMetalValueTotal(item)).toBeCloseTo(66240, 6);
+        expect(solveWastagePercent(item, 60000)).toBe(0);
+        expect(solveWastagePercent(item, 66240)).toBeCloseTo(0, 9);
+    });
+});
@@ -0,0 +1,48 @@
+import { calculateResult, getWastagePercents, PricingInput, ResultDetail, WastageRange } from './pricing';
+import { calculateTax, TaxSettings } from './tax';
+
+// A plain item priced back from what the customer wants to spend; stones are not part of a budget quote
+export type BudgetInput = Omit<PricingInput, 'weight' | 'stoneWeight' | 'stones'> & {
+    budget: number;
+};
+
+export interface BudgetResult {
+    percent: number;
+    weight: number;        // Heaviest gross weight, to the milligram, whose price stays within budget
+    result: ResultDetail;  // Breakdown at that weight
+    grandTotal: number;    // Price at that weight, including GST when it is enabled
+}
+
+// Weights are quoted to the milligram and always rounded down so the price never exceeds the budget
+const floorToMilligram = (weight: number): number => Math.floor(weight * 1000 + 1e-9) / 1000;
+
+const priceOf = (input: PricingInput, percent: number, taxSettings?: TaxSettings) => {
+    const result = calculateResult(input, percent);
+    return { result, grandTotal: taxSettings ? calculateTax(result, taxSettings).grandTotal : result.total };
+};
+
+// Price is linear in weight: a fixed part (flat making charge) plus a per-gram part,
+// so the maximum weight is what's left of the budget after the fixed part, divided by the per-gram part
+export const calculateMaxWeight = (input: BudgetInput, percent: number, taxSettings?: TaxSettings): BudgetResult => {
+    const fixed = priceOf({ ...input, weight: 0 }, percent, taxSettings).grandTotal;
+    const perGram = priceOf({ ...input, weight: 1 }, percent, taxSettings).grandTotal - fixed;
+    const weight = perGram > 0 ? floorToMilligram(Math.max(input.budget - fixed, 0) / perGram) : 0;
+    return { percent, weight, ...priceOf({ ...input, weight }, percent, taxSettings) };
+};
+
+// One maximum weight per step from min to max (inclusive)
+export const calculateBudgetResults = (input: BudgetInput, range: WastageRange, taxSettings?: TaxSettings): BudgetResult[] =>
+    getWastagePercents(range).map(percent => calculateMaxWeight(input, percent, taxSettings));
+
+// The least an item can be quoted at: metal, making and stones with no wastage, plus GST when it is enabled
+export const getMetalValueTotal = (input: PricingInput, taxSettings?: TaxSettings): number =>
+    priceOf(input, 0, taxSettings).grandTotal;
+
+// Price is also linear in wastage %: the price at 0% plus a fixed amount per 1%,
+// so an agreed total maps back to exactly one, usually fractional, wastage %.
+// A total below the metal value stops at 0%; wastage is never negative
+export const solveWastagePercent = (input: PricingInput, target: number, taxSettings?: TaxSettings): number => {
+    const atZero = getMetalValueTotal(input, taxSettings);
+    const perPercent = priceOf(input, 1, taxSettings).grandTotal - atZero;
+    return perPercent > 0 ? Math.max((target - atZero) / perPercent, 0) : 0;
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { createCustomer, Customer, getCustomerRecords, getWhatsAppLink, searchCustomers, toWhatsAppNumber, updateCustomer } from './customers';
+import { RegisterRecord } from './register';
+
+const customer = (name: string, phone: string, id = name): Customer => ({ id, name, phone, address: '', notes: '', createdAt: '' });
+
+describe('createCustomer', () => {
+    it('trims every field and stamps the time', () => {
+        const created = createCustomer({ name: ' Lakshmi ', phone: ' 98765 43210 ', address: ' Main Road ', notes: '' }, new Date(2026, 9, 19));
+        expect(created).toMatchObject({ name: 'Lakshmi', phone: '98765 43210', address: 'Main Road' });
+        expect(created.id).toMatch(/^customer-/);
+        expect(updateCustomer(created, { ...created, notes: ' Ring size 14 ' })).toMatchObject({ id: created.id, notes: 'Ring size 14' });
+    });
+});
+
+describe('searchCustomers', () => {
+    const customers = [customer('Ravi', '98765-43210'), customer('Anitha', '90000 11111'), customer('Ravindran', '')];
+
+    it('sorts by name and matches name or phone digits', () => {
+        expect(searchCustomers(customers, '').map(c => c.name)).toEqual(['Anitha', 'Ravi', 'Ravindran']);
+        expect(searchCustomers(customers, 'rav').map(c => c.name)).toEqual(['Ravi', 'Ravindran']);
+        expect(searchCustomers(customers, '9876543').map(c => c.name)).toEqual(['Ravi']);
+    });
+});
+
+describe('WhatsApp links', () => {
+    it('adds the Indian country code to local numbers', () => {
+        expect(toWhatsAppNumber('98765 43210')).toBe('919876543210');
+        expect(toWhatsAppNumber('098765-43210')).toBe('919876543210');
+        expect(toWhatsAppNumber('+91 98765 43210')).toBe('919876543210');
+        expect(toWhatsAppNumber('+44 7700 900123')).toBe('447700900123');
+    });
+
+    it('carries the text in the link', () => {
+        expect(getWhatsAppLink('9876543210', 'Total: ₹72,000.00')).toBe('https://wa.me/919876543210?text=Total%3A%20%E2%82%B972%2C000.00');
+    });
+});
+
+describe('getCustomerRecords', () => {
+    const record = (id: string, customerPhone: string, customerId?: string) => ({ id, customerPhone, customerId }) as RegisterRecord;
+
+    it('finds records saved for the customer and older ones with their phone', () => {
+        const ravi = customer('Ravi', '98765 43210', 'c1');
+        const records = [record('a', '', 'c1'), record('b', '+91 9876543210'), record('c', '9876543210', 'c2'), record('d', '')];
+        expect(getCustomerRecords(records, ravi).map(r => r.id)).toEqual(['a', 'b']);
+        expect(getCustomerRecords(records, customer('Anitha', '', 'c3'))).toEqual([]);
+    });
+});
@@ -0,0 +1,60 @@
+import { RegisterRecord } from './register';
+
+// An entry in the shop's customer book
+export interface Customer {
+    id: string;
+    name: string;
+    phone: string;
+    address: string;
+    notes: string;
+    createdAt: string;
+}
+
+export type CustomerDraft = Omit<Customer, 'id' | 'createdAt'>;
+
+export const EMPTY_CUSTOMER: CustomerDraft = { name: '', phone: '', address: '', notes: '' };
+
+const trimDraft = (draft: CustomerDraft): CustomerDraft => ({
+    name: draft.name.trim(),
+    phone: draft.phone.trim(),
+    address: draft.address.trim(),
+    notes: draft.notes.trim(),
+});
+
+export const createCustomer = (draft: CustomerDraft, now: Date): Customer => ({
+    ...trimDraft(draft),
+    id: `customer-${now.getTime()}`,
+    createdAt: now.toISOString(),
+});
+
+export const updateCustomer = (customer: Customer, draft: CustomerDraft): Customer => ({ ...customer, ...trimDraft(draft) });
+
+const digitsOf = (phone: string): string => phone.replace(/\D/g, '');
+
+// Matches on name, or on phone ignoring spaces and dashes; sorted by name
+export const searchCustomers = (customers: Customer[], query: string): Customer[] => {
+    const text = query.trim().toLowerCase();
+    const digits = digitsOf(query);
+    return customers
+        .filter(customer => !text
+            || customer.name.toLowerCase().includes(text)
+            || (digits.length > 0 && digitsOf(customer.phone).includes(digits)))
+        .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// WhatsApp wants the number with its country code and nothing else; local numbers are taken as Indian
+export const toWhatsAppNumber = (phone: string): string => {
+    const digits = digitsOf(phone);
+    if (digits.length === 10) return `91${digits}`;
+    if (digits.length === 11 && digits.startsWith('0')) return `91${digits.slice(1)}`;
+    return digits;
+};
+
+export const getWhatsAppLink = (phone: string, text: string): string =>
+    `https://wa.me/${toWhatsAppNumber(phone)}?text=${encodeURIComponent(text)}`;
+
+// Register records saved for this customer, plus older ones that only carry their phone number
+export const getCustomerRecords = (records: RegisterRecord[], customer: Customer): RegisterRecord[] =>
+    records.filter(record => record.customerId
+        ? record.customerId === customer.id
+        : !!customer.phone && toWhatsAppNumber(record.customerPhone) === toWhatsAppNumber(customer.phone));
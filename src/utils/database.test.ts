@@ -0,0 +1,156 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AuditEntry } from './audit';
+import { CALCULATION_SCHEMA_VERSION } from './migrations';
+
+// jsdom has no IndexedDB; each test gets an empty in-memory one and a fresh copy of the module,
+// so the connection it keeps open is never shared between tests
+const loadDatabase = () => import('./database');
+
+const legacyGold = [
+    { id: '200', goldPrice: '7200', goldWeight: '10', purity: '916', minPercent: '8', maxPercent: '14' },
+    { id: '100', goldPrice: '7100', goldWeight: '5', purity: '916', minPercent: '8', maxPercent: '14' },
+];
+const legacySilver = [{ id: '150', silverPrice: '90', silverWeight: '20', purity: '999', minPercent: '8', maxPercent: '14' }];
+
+const storeLegacySaves = () => {
+    window.localStorage.setItem('goldCalculatorSaves', JSON.stringify(legacyGold));
+    window.localStorage.setItem('silverCalculatorSaves', JSON.stringify(legacySilver));
+};
+
+describe('IndexedDB calculation store', () => {
+    beforeEach(() => {
+        vi.resetModules();
+        vi.stubGlobal('indexedDB', new IDBFactory());
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('imports the saves localStorage held the first time it opens, migrated to the current schema', async () => {
+        storeLegacySaves();
+        const { calculationStore, DB_VERSION, openDatabase } = await loadDatabase();
+
+        const gold = await calculationStore.list('gold');
+        expect(gold.map(save => save.id)).toEqual(['200', '100']);
+        expect(gold[0]).toMatchObject({ price: '7200', weight: '10', weightUnit: 'gram', wastageStep: '1', metal: 'gold', schemaVersion: CALCULATION_SCHEMA_VERSION });
+        expect(await calculationStore.list('silver')).toEqual([expect.objectContaining({ id: '150', price: '90', weight: '20' })]);
+        expect((await openDatabase()).version).toBe(DB_VERSION);
+        // The old copy stays where it was
+        expect(JSON.parse(window.localStorage.getItem('goldCalculatorSaves')!)).toEqual(legacyGold);
+    });
+
+    it('only imports once, so a save deleted after the upgrade stays deleted', async () => {
+        storeLegacySaves();
+        const first = await loadDatabase();
+        await first.calculationStore.remove('gold', '200');
+        (await first.openDatabase()).close();
+
+        vi.resetModules();
+        const { calculationStore } = await loadDatabase();
+        expect((await calculationStore.list('gold')).map(save => save.id)).toEqual(['100']);
+    });
+
+    it('leaves behind a legacy save without an id and imports the rest', async () => {
+        window.localStorage.setItem('goldCalculatorSaves', JSON.stringify([...legacyGold, { goldPrice: '7000' }, 'not a save']));
+        const { calculationStore } = await loadDatabase();
+
+        expect((await calculationStore.list('gold')).map(save => save.id)).toEqual(['200', '100']);
+    });
+
+    it('keeps the localStorage saves and tries again when the import fails', async () => {
+        storeLegacySaves();
+        const put = vi.spyOn(IDBObjectStore.prototype, 'put').mockImplementationOnce(() => {
+            throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+        });
+        const { calculationStore } = await loadDatabase();
+
+        await expect(calculationStore.list('gold')).rejects.toBeDefined();
+        expect(JSON.parse(window.localStorage.getItem('goldCalculatorSaves')!)).toEqual(legacyGold);
+
+        put.mockRestore();
+        expect((await calculationStore.list('gold')).map(save => save.id)).toEqual(['200', '100']);
+    });
+
+    it('saves, lists newest first and removes', async () => {
+        const { calculationStore } = await loadDatabase();
+        const save = { id: '300', price: '7300', weight: '2', purity: '916', minPercent: '8', maxPercent: '14' };
+
+        await calculationStore.put('gold', save);
+        await calculationStore.put('gold', { ...save, id: '400' });
+        expect((await calculationStore.list('gold')).map(c => c.id)).toEqual(['400', '300']);
+        expect(await calculationStore.list('silver')).toEqual([]);
+
+        await calculationStore.remove('gold', '400');
+        expect((await calculationStore.list('gold')).map(c => c.id)).toEqual(['300']);
+    });
+
+    it('keeps a gold and a silver save with the same id apart', async () => {
+        const { calculationStore, listAllCalculations } = await loadDatabase();
+        const save = { id: '300', price: '7300', weight: '2', purity: '916', minPercent: '8', maxPercent: '14' };
+
+        await calculationStore.put('gold', save);
+        await calculationStore.put('silver', { ...save, price: '90', purity: '999' });
+        expect((await listAllCalculations()).map(({ metal, id, price }) => `${metal}:${id}:${price}`)).toEqual(['gold:300:7300', 'silver:300:90']);
+
+        await calculationStore.remove('gold', '300');
+        expect(await calculationStore.list('gold')).toEqual([]);
+        expect((await calculationStore.list('silver')).map(c => c.price)).toEqual(['90']);
+    });
+
+    it('replaces every save for a restore', async () => {
+        storeLegacySaves();
+        const { listAllCalculations, replaceAllCalculations } = await loadDatabase();
+
+        await replaceAllCalculations([
+            { id: '500', metal: 'platinum', price: '3200', weight: '4', purity: '950', minPercent: '6', maxPercent: '10', schemaVersion: CALCULATION_SCHEMA_VERSION },
+        ]);
+        expect((await listAllCalculations()).map(({ metal, id }) => `${metal}:${id}`)).toEqual(['platinum:500']);
+    });
+});
+
+const auditEntry = (id: string, createdAt: string): AuditEntry => ({
+    id, createdAt, action: 'rateChanged', userName: 'Owner', role: 'owner', description: `Entry ${id}`,
+});
+
+describe('IndexedDB audit log', () => {
+    beforeEach(() => {
+        vi.resetModules();
+        vi.stubGlobal('indexedDB', new IDBFactory());
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('imports the log localStorage held when the database is upgraded', async () => {
+        const legacy = [auditEntry('audit-1', '2026-05-01T10:00:00.000Z'), auditEntry('audit-2', '2026-05-02T10:00:00.000Z')];
+        window.localStorage.setItem('auditLog', JSON.stringify(legacy));
+        const { auditStore } = await loadDatabase();
+
+        expect(await auditStore.list()).toEqual(legacy);
+    });
+
+    it('adds entries and lists them oldest first, whatever order they were added in', async () => {
+        const { auditStore } = await loadDatabase();
+
+        await auditStore.append([auditEntry('audit-3', '2026-05-03T10:00:00.000Z'), auditEntry('audit-4', '2026-05-03T10:00:00.000Z')]);
+        await auditStore.append([auditEntry('audit-1', '2026-05-01T10:00:00.000Z')]);
+        expect((await auditStore.list()).map(entry => entry.id)).toEqual(['audit-1', 'audit-3', 'audit-4']);
+    });
+
+    it('rejects when an entry cannot be written, leaving the log as it was', async () => {
+        const { auditStore } = await loadDatabase();
+        await auditStore.append([auditEntry('audit-1', '2026-05-01T10:00:00.000Z')]);
+        vi.spyOn(IDBObjectStore.prototype, 'add').mockImplementationOnce(() => {
+            throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+        });
+
+        await expect(auditStore.append([auditEntry('audit-2', '2026-05-02T10:00:00.000Z')])).rejects.toBeDefined();
+        expect((await auditStore.list()).map(entry => entry.id)).toEqual(['audit-1']);
+    });
+});
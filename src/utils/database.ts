@@ -0,0 +1,164 @@
+import { appendAuditEntries, AuditEntry, readAuditLog } from './audit';
+import { CALCULATION_SCHEMA_VERSION, CalculationRecord, migrateCalculation, readLegacySaves, VersionedRecord } from './migrations';
+import { METALS } from './metals';
+import { Metal } from './pricing';
+import { CalculationParams, getSavesKey, readCalculation, StoredCalculation } from './saves';
+
+const DB_NAME = 'nl-jewellers';
+const CALCULATIONS = 'calculations';
+const AUDIT_LOG = 'auditLog';
+
+// Upgrade n takes the database from version n to n + 1, inside the versionchange transaction.
+// Append new ones; never edit a released one. Record shapes are migrated separately, in migrations.ts
+const UPGRADES: Array<(db: IDBDatabase) => void> = [
+    // 0 → 1: saved calculations, indexed by metal, starting from whatever localStorage held.
+    // Keyed by metal and id together, as each metal's saves were kept apart in localStorage.
+    // A save without an id cannot be stored, so it is left behind rather than failing the whole import
+    db => {
+        const store = db.createObjectStore(CALCULATIONS, { keyPath: ['metal', 'id'] });
+        store.createIndex('metal', 'metal');
+        readLegacySaves(window.localStorage)
+            .filter(record => typeof record.id === 'string')
+            .forEach(record => store.put(migrateCalculation(record)));
+    },
+    // 1 → 2: the audit log, which outgrows what one localStorage key can hold. Keys are handed out
+    // in the order entries are added, and nothing ever changes or deletes one
+    db => {
+        const store = db.createObjectStore(AUDIT_LOG, { autoIncrement: true });
+        readAuditLog(window.localStorage).forEach(entry => store.add(entry));
+    },
+];
+
+export const DB_VERSION = UPGRADES.length;
+
+const toPromise = <T,>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+// Settles once every write in the transaction is on disk, or none of them are
+const toCompletion = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+});
+
+let connection: Promise<IDBDatabase> | null = null;
+
+// A failed upgrade rolls back to the old version and leaves localStorage as it was, so the next call tries again
+export const openDatabase = (): Promise<IDBDatabase> => {
+    connection ??= new Promise<IDBDatabase>((resolve, reject) => {
+        const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = event => {
+            UPGRADES.slice(event.oldVersion).forEach(upgrade => upgrade(request.result));
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    }).catch(error => {
+        connection = null;
+        throw error;
+    });
+    return connection;
+};
+
+// Saved calculations for each metal, newest first
+export interface CalculationStore {
+    list: (metal: Metal) => Promise<CalculationParams[]>;
+    put: (metal: Metal, params: CalculationParams) => Promise<void>;
+    remove: (metal: Metal, id: string) => Promise<void>;
+}
+
+// Ids are the save time in milliseconds
+const newestFirst = (a: CalculationParams, b: CalculationParams) => Number(b.id) - Number(a.id);
+
+const toRecord = (metal: Metal, params: CalculationParams): CalculationRecord => ({ ...params, metal, schemaVersion: CALCULATION_SCHEMA_VERSION });
+
+const indexedDbCalculations: CalculationStore = {
+    list: async metal => {
+        const db = await openDatabase();
+        const records = await toPromise(db.transaction(CALCULATIONS).objectStore(CALCULATIONS).index('metal').getAll(metal));
+        // Records written by an older version of the app are brought up to date as they are read
+        return (records as VersionedRecord[]).map(migrateCalculation).sort(newestFirst);
+    },
+    put: async (metal, params) => {
+        const db = await openDatabase();
+        await toPromise(db.transaction(CALCULATIONS, 'readwrite').objectStore(CALCULATIONS).put(toRecord(metal, params)));
+    },
+    remove: async (metal, id) => {
+        const db = await openDatabase();
+        await toPromise(db.transaction(CALCULATIONS, 'readwrite').objectStore(CALCULATIONS).delete([metal, id]));
+    },
+};
+
+// Where IndexedDB is unavailable (some private browsing modes, tests) saves stay in localStorage as before
+const readLocal = (metal: Metal): CalculationParams[] => {
+    try {
+        return (JSON.parse(window.localStorage.getItem(getSavesKey(metal)) ?? '[]') as StoredCalculation[]).map(readCalculation);
+    } catch (error) {
+        console.error(error);
+        return [];
+    }
+};
+
+const writeLocal = (metal: Metal, saves: CalculationParams[]) => {
+    window.localStorage.setItem(getSavesKey(metal), JSON.stringify(saves));
+};
+
+const localStorageCalculations: CalculationStore = {
+    list: async metal => readLocal(metal),
+    put: async (metal, params) => writeLocal(metal, [params, ...readLocal(metal).filter(c => c.id !== params.id)]),
+    remove: async (metal, id) => writeLocal(metal, readLocal(metal).filter(c => c.id !== id)),
+};
+
+export const calculationStore: CalculationStore = typeof window !== 'undefined' && window.indexedDB
+    ? indexedDbCalculations
+    : localStorageCalculations;
+
+// Every metal's saves, for backups
+export const listAllCalculations = async (): Promise<CalculationRecord[]> =>
+    (await Promise.all(METALS.map(async ({ id }) => (await calculationStore.list(id)).map(params => toRecord(id, params))))).flat();
+
+// Leaves exactly these saves, in this order, newest first
+export const replaceAllCalculations = async (records: CalculationRecord[]) => {
+    const keep = new Set(records.map(record => `${record.metal}:${record.id}`));
+    const current = await listAllCalculations();
+    await Promise.all(current
+        .filter(record => !keep.has(`${record.metal}:${record.id}`))
+        .map(record => calculationStore.remove(record.metal, record.id)));
+    // Oldest first, so the localStorage fallback, which puts each save at the front, ends up newest first
+    for (const { metal, schemaVersion: _version, ...params } of [...records].reverse()) {
+        await calculationStore.put(metal, params);
+    }
+};
+
+// The audit log, oldest first. Entries can only be added; a failed write rejects so the caller can say so
+export interface AuditStore {
+    list: () => Promise<AuditEntry[]>;
+    append: (entries: AuditEntry[]) => Promise<void>;
+}
+
+// Entries restored from a backup are added after newer ones, so the log is put back in time order; ties keep the order they were added in
+const oldestFirst = (entries: AuditEntry[]) => [...entries].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+const indexedDbAuditLog: AuditStore = {
+    list: async () => {
+        const db = await openDatabase();
+        return oldestFirst(await toPromise(db.transaction(AUDIT_LOG).objectStore(AUDIT_LOG).getAll()) as AuditEntry[]);
+    },
+    append: async entries => {
+        if (entries.length === 0) return;
+        const db = await openDatabase();
+        const transaction = db.transaction(AUDIT_LOG, 'readwrite');
+        entries.forEach(entry => transaction.objectStore(AUDIT_LOG).add(entry));
+        await toCompletion(transaction);
+    },
+};
+
+const localStorageAuditLog: AuditStore = {
+    list: async () => oldestFirst(readAuditLog(window.localStorage)),
+    append: async entries => appendAuditEntries(window.localStorage, entries),
+};
+
+export const auditStore: AuditStore = typeof window !== 'undefined' && window.indexedDB
+    ? indexedDbAuditLog
+    : localStorageAuditLog;
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDiscount, getEffectiveWastage, isBelowFloor, parseDiscount } from './discount';
+import { calculateResult, PricingInput } from './pricing';
+import { calculateTax, DEFAULT_TAX_SETTINGS } from './tax';
+
+describe('calculateDiscount', () => {
+    it('takes an amount or a percentage off the total', () => {
+        expect(calculateDiscount(parseDiscount('amount', '1000'), 80000)).toBe(1000);
+        expect(calculateDiscount(parseDiscount('percent', '2.5'), 80000)).toBe(2000);
+        expect(calculateDiscount(parseDiscount('none', '1000'), 80000)).toBe(0);
+    });
+
+    it('never goes below zero or past the total', () => {
+        expect(calculateDiscount(parseDiscount('amount', '-50'), 80000)).toBe(0);
+        expect(calculateDiscount(parseDiscount('amount', '90000'), 80000)).toBe(80000);
+    });
+});
+
+describe('getEffectiveWastage', () => {
+    const input: PricingInput = { purityFactor: 0.92, rate: 7200, weight: 10 };
+
+    it('is the wastage % the discounted total works out to', () => {
+        const total = calculateTax(calculateResult(input, 10), DEFAULT_TAX_SETTINGS).grandTotal;
+        const discount = calculateDiscount(parseDiscount('amount', String(7200 * 10 * 0.03 * 1.03)), total);
+        expect(getEffectiveWastage(input, 10, total - discount, discount, DEFAULT_TAX_SETTINGS)).toBeCloseTo(7, 6);
+    });
+
+    it('is the quoted % when there is no discount', () => {
+        expect(getEffectiveWastage(input, 10, 0, 0, DEFAULT_TAX_SETTINGS)).toBe(10);
+    });
+});
+
+describe('isBelowFloor', () => {
+    it('only flags quotes under a configured floor', () => {
+        expect(isBelowFloor(5.5, 6)).toBe(true);
+        expect(isBelowFloor(6 - 1e-9, 6)).toBe(false);
+        expect(isBelowFloor(0, undefined)).toBe(false);
+    });
+});
@@ -0,0 +1,35 @@
+import { PricingInput } from './pricing';
+import { solveWastagePercent } from './budget';
+import { TaxSettings } from './tax';
+
+export type DiscountType = 'none' | 'amount' | 'percent';
+
+export interface Discount {
+    type: DiscountType;
+    value: number;     // ₹ off, or % off, the total including GST
+}
+
+export const DISCOUNT_LABELS: Record<DiscountType, string> = {
+    none: 'No Discount',
+    amount: 'Amount Off (₹)',
+    percent: '% Off Total',
+};
+
+// Builds a discount from the raw form values; 'none' yields no discount
+export const parseDiscount = (type: DiscountType = 'none', value = ''): Discount | undefined =>
+    type === 'none' ? undefined : { type, value: parseFloat(value) || 0 };
+
+// Rupees taken off the total; never more than the total itself
+export const calculateDiscount = (discount: Discount | undefined, total: number): number => {
+    if (!discount) return 0;
+    const amount = discount.type === 'percent' ? total * discount.value / 100 : discount.value;
+    return Math.min(Math.max(amount, 0), total);
+};
+
+// A discount gives back part of the wastage: this is the wastage % the discounted total works out to
+export const getEffectiveWastage = (input: PricingInput, percent: number, discountedTotal: number, discount: number, taxSettings: TaxSettings): number =>
+    discount > 0 ? solveWastagePercent(input, discountedTotal, taxSettings) : percent;
+
+// Tolerates rounding, so a quote landing exactly on the floor is not flagged
+export const isBelowFloor = (percent: number, floor?: number): boolean =>
+    floor !== undefined && percent < floor - 1e-6;
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { getCounterDisplayUrl, isCounterDisplay } from './display';
+
+describe('counter display address', () => {
+    it('points at the same app with the display flag, dropping other query and hash', () => {
+        const url = getCounterDisplayUrl('https://nl.example/app/?tab=bill#top');
+        expect(url).toBe('https://nl.example/app/?display=counter');
+        expect(isCounterDisplay(new URL(url).search)).toBe(true);
+    });
+
+    it('leaves the main app alone', () => {
+        expect(isCounterDisplay('')).toBe(false);
+        expect(isCounterDisplay('?display=other')).toBe(false);
+    });
+});
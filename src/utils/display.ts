@@ -0,0 +1,29 @@
+import { EstimateContent } from './estimate';
+
+// A second window, e.g. on a screen facing the customer across the counter, mirrors the
+// quote on screen over a BroadcastChannel. It asks for the current quote when it opens
+export const DISPLAY_CHANNEL = 'nl-jewellers-display';
+
+export type DisplayMessage =
+    | { type: 'show'; content: EstimateContent }
+    | { type: 'clear' }
+    | { type: 'request' };
+
+const DISPLAY_PARAM = 'display';
+const COUNTER_DISPLAY = 'counter';
+
+export const isCounterDisplay = (search: string): boolean =>
+    new URLSearchParams(search).get(DISPLAY_PARAM) === COUNTER_DISPLAY;
+
+export const getCounterDisplayUrl = (href: string): string => {
+    const url = new URL(href);
+    url.search = `?${DISPLAY_PARAM}=${COUNTER_DISPLAY}`;
+    url.hash = '';
+    return url.toString();
+};
+
+export const openDisplayChannel = (): BroadcastChannel | null =>
+    typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(DISPLAY_CHANNEL);
+
+// How long the heading of the customer view is held to leave it
+export const LONG_PRESS_MS = 1500;
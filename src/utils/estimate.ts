@@ -0,0 +1,62 @@
+import { calculateBalance, calculateExchange, getBalanceLabel, getExchangeLabel, OldMetalExchange } from './exchange';
+import { TaxLine } from './tax';
+
+export type PrintLayout = 'a5' | 'a4' | 'thermal58' | 'thermal80';
+export type DocumentKind = 'estimate' | 'invoice';
+
+export interface EstimateLine {
+    label: string;
+    amount: number;
+    note?: string;
+}
+
+export interface EstimateExchange {
+    label: string;
+    value: number;
+    balanceLabel: string;
+    balance: number;
+}
+
+// Everything a printed estimate shows, independent of which screen produced it
+export interface EstimateContent {
+    title: string;
+    details: Array<{ label: string; value: string }>;
+    lines: EstimateLine[];
+    subtotal: number;
+    taxLines: TaxLine[];
+    discount?: number;      // Already taken off the total
+    total: number;
+    exchange?: EstimateExchange;
+}
+
+export interface EstimateDocument extends EstimateContent {
+    kind: DocumentKind;
+    number: string;
+    date: string;
+    customerName: string;
+    customerPhone: string;
+}
+
+export const PRINT_LAYOUT_LABELS: Record<PrintLayout, string> = {
+    a5: 'A5',
+    a4: 'A4',
+    thermal58: 'Thermal 58mm',
+    thermal80: 'Thermal 80mm',
+};
+
+export const ESTIMATE_TERMS = [
+    'This is an estimate and not a tax invoice.',
+    "Prices are based on today's rate and are valid for the day of issue only.",
+    'Final weight and price are confirmed at the time of billing.',
+];
+
+export const INVOICE_TERMS = [
+    'Goods once sold will be exchanged as per store policy only.',
+    'Old gold and silver are bought back at the prevailing rate less melting deduction.',
+];
+
+export const buildEstimateExchange = (exchange: OldMetalExchange, newItemTotal: number): EstimateExchange => {
+    const value = calculateExchange(exchange).value;
+    const balance = calculateBalance(newItemTotal, value);
+    return { label: getExchangeLabel(exchange), value, balanceLabel: getBalanceLabel(balance), balance };
+};
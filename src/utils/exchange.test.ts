@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { calculateBalance, calculateExchange, formatExchangeText, getBalanceLabel, OldMetalExchange } from './exchange';
+
+const oldGold: OldMetalExchange = { metal: 'gold', grossWeight: 15, touchPercent: 84, deductionPercent: 2, rate: 7000 };
+
+describe('calculateExchange', () => {
+    it('values the fine weight left after melting loss at the buy-back rate', () => {
+        const result = calculateExchange(oldGold);
+        expect(result.fineWeight).toBeCloseTo(12.6, 6);
+        expect(result.deductionWeight).toBeCloseTo(0.252, 6);
+        expect(result.netFineWeight).toBeCloseTo(12.348, 6);
+        expect(result.value).toBeCloseTo(86436, 6);
+    });
+
+    it('takes no deduction at 0%', () => {
+        const result = calculateExchange({ metal: 'silver', grossWeight: 100, touchPercent: 90, deductionPercent: 0, rate: 80 });
+        expect(result.netFineWeight).toBeCloseTo(90, 6);
+        expect(result.value).toBeCloseTo(7200, 6);
+    });
+});
+
+describe('calculateBalance', () => {
+    it('is payable when the new item costs more', () => {
+        expect(calculateBalance(100000, 86436)).toBeCloseTo(13564, 6);
+        expect(getBalanceLabel(13564)).toBe('Balance Payable');
+    });
+
+    it('is refundable when the old item is worth more', () => {
+        expect(calculateBalance(50000, 86436)).toBeCloseTo(-36436, 6);
+        expect(getBalanceLabel(-36436)).toBe('Refund to Customer');
+    });
+});
+
+describe('formatExchangeText', () => {
+    it('ends with the balance', () => {
+        expect(formatExchangeText(oldGold, 100000)).toContain('*BALANCE PAYABLE: ₹13,564.00*');
+    });
+});
@@ -0,0 +1,42 @@
+import { Metal } from './pricing';
+import { formatCurrency } from './format';
+import { getMetalName } from './metals';
+
+// Old jewellery brought in by the customer, as tested at the counter
+export interface OldMetalExchange {
+    metal: Metal;
+    grossWeight: number;
+    touchPercent: number;       // Tested purity of the old item
+    deductionPercent: number;   // Melting loss deducted from the fine weight
+    rate: number;               // Today's buy-back rate per gram of pure metal
+}
+
+export interface ExchangeResult {
+    fineWeight: number;
+    deductionWeight: number;
+    netFineWeight: number;
+    value: number;
+}
+
+export const calculateExchange = (exchange: OldMetalExchange): ExchangeResult => {
+    const fineWeight = exchange.grossWeight * exchange.touchPercent / 100;
+    const deductionWeight = fineWeight * exchange.deductionPercent / 100;
+    const netFineWeight = fineWeight - deductionWeight;
+    const value = netFineWeight * exchange.rate;
+
+    return { fineWeight, deductionWeight, netFineWeight, value };
+};
+
+// Positive when the customer still owes money, negative when the shop pays back
+export const calculateBalance = (newItemTotal: number, exchangeValue: number): number => newItemTotal - exchangeValue;
+
+export const getExchangeLabel = (exchange: OldMetalExchange): string =>
+    `Old ${getMetalName(exchange.metal)} (${exchange.grossWeight} g @ ${exchange.touchPercent}%)`;
+
+export const getBalanceLabel = (balance: number): string => balance >= 0 ? 'Balance Payable' : 'Refund to Customer';
+
+export const formatExchangeText = (exchange: OldMetalExchange, newItemTotal: number): string => {
+    const result = calculateExchange(exchange);
+    const balance = calculateBalance(newItemTotal, result.value);
+    return `🔄 Old ${getMetalName(exchange.metal)} Exchange:\n• Gross Weight: ${exchange.grossWeight} grams\n• Touch: ${exchange.touchPercent}%\n• Fine Weight: ${result.fineWeight.toFixed(3)} grams\n• Less Melting (${exchange.deductionPercent}%): ${result.deductionWeight.toFixed(3)} grams\n• Net Fine Weight: ${result.netFineWeight.toFixed(3)} grams\n• Exchange Value: ${formatCurrency(result.value)}\n   (${result.netFineWeight.toFixed(3)} grams × ${formatCurrency(exchange.rate)}/gram)\n\n💵 *${getBalanceLabel(balance).toUpperCase()}: ${formatCurrency(Math.abs(balance))}*`;
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { Customer } from './customers';
+import { EXPORT_COLUMNS, getExportFileName, getExportRows, getRegisterRows, REGISTER_COLUMNS, toCsv, toXlsx } from './export';
+import { CALCULATION_SCHEMA_VERSION, CalculationRecord } from './migrations';
+import { DEFAULT_PURITY_CATALOGUE } from './purity';
+import { RegisterRecord } from './register';
+import { calculateTotalFromParams } from './saves';
+
+const savedAt = new Date(2026, 9, 19, 11, 30).getTime();
+
+const gold: CalculationRecord = {
+    id: String(savedAt), metal: 'gold', price: '7200', weight: '10', purity: '916', minPercent: '8', maxPercent: '14',
+    selectedPercent: 10, customerId: 'c1', schemaVersion: CALCULATION_SCHEMA_VERSION,
+};
+const silver: CalculationRecord = {
+    id: String(savedAt), metal: 'silver', price: '90', weight: '2', weightUnit: 'tola', purity: '999', minPercent: '8', maxPercent: '14',
+    schemaVersion: CALCULATION_SCHEMA_VERSION,
+};
+const customers: Customer[] = [{ id: 'c1', name: 'Ravi, Kumar', phone: '', address: '', notes: '', createdAt: '' }];
+
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe('getExportRows', () => {
+    it('has one row per calculation, at the selected wastage or the minimum', () => {
+        const rows = getExportRows([gold, silver], DEFAULT_PURITY_CATALOGUE, customers);
+        expect(rows).toHaveLength(2);
+        expect(rows[0]).toHaveLength(EXPORT_COLUMNS.length);
+        expect(rows[0]).toEqual([
+            '2026-10-19', 'Gold', 'Ravi, Kumar', 7200, '10g', 10, 10, expect.stringContaining('916'), 10,
+            66240, 7200, 1.087, 0, 0, 73440,
+        ]);
+        expect(rows[1].slice(0, 9)).toEqual(['2026-10-19', 'Silver', '', 90, '2 tola', 23.328, 23.328, expect.stringContaining('999'), 8]);
+    });
+
+    it('totals match the Saved Calculations list', () => {
+        const rows = getExportRows([gold, silver], DEFAULT_PURITY_CATALOGUE, []);
+        expect(rows.map(row => row[row.length - 1])).toEqual([gold, silver].map(record =>
+            Math.round(calculateTotalFromParams(record, record.metal, DEFAULT_PURITY_CATALOGUE) * 100) / 100));
+    });
+});
+
+describe('getRegisterRows', () => {
+    it('has one row per register record with its number, date, customer, total and status', () => {
+        const record: RegisterRecord = {
+            id: 'estimate-2026-27-1', kind: 'estimate', number: 'EST/2026-27/0001', sequence: 1, financialYear: '2026-27', status: 'quoted',
+            customerName: 'Lakshmi', customerPhone: '9840012345', createdAt: new Date(2026, 9, 19, 11).toISOString(), updatedAt: '',
+            snapshot: { title: 'Gold Price Breakdown', details: [], lines: [], subtotal: 72000, taxLines: [], discount: 500.005, total: 71499.995 },
+        };
+        const rows = getRegisterRows([record, { ...record, kind: 'invoice', number: 'INV/2026-27/0001', status: 'converted', customerName: '' }]);
+        expect(rows).toEqual([
+            ['EST/2026-27/0001', '2026-10-19', 'Estimate', 'Lakshmi', '9840012345', 71500, 'Quoted'],
+            ['INV/2026-27/0001', '2026-10-19', 'Invoice', '', '9840012345', 71500, 'Converted'],
+        ]);
+        expect(rows[0]).toHaveLength(REGISTER_COLUMNS.length);
+        expect(toCsv(rows, REGISTER_COLUMNS).split('\r\n')[0]).toBe('\uFEFFNumber,Date,Type,Customer,Phone,Total (₹),Status');
+        expect(getExportFileName(new Date(2026, 9, 19), 'csv', 'register')).toBe('nl-jewellers-register-2026-10-19.csv');
+    });
+});
+
+describe('toCsv', () => {
+    it('writes a header row and quotes fields with commas or quotes', () => {
+        const csv = toCsv([['Ravi, Kumar', 'a "big" chain', 7200]]);
+        expect(csv.startsWith('\uFEFFSaved On,Metal,Customer,')).toBe(true);
+        expect(csv.split('\r\n')[1]).toBe('"Ravi, Kumar","a ""big"" chain",7200');
+        expect(getExportFileName(new Date(2026, 9, 19), 'csv')).toBe('nl-jewellers-calculations-2026-10-19.csv');
+    });
+
+    it('keeps text that looks like a formula as text, and numbers as numbers', () => {
+        const csv = toCsv([['=HYPERLINK("http://x","Ravi")', '+91 98400', '-Meena', '@Anitha', -250, 'Ravi = Kumar']]);
+        expect(csv.split('\r\n')[1]).toBe(`"'=HYPERLINK(""http://x"",""Ravi"")",'+91 98400,'-Meena,'@Anitha,-250,Ravi = Kumar`);
+    });
+});
+
+describe('toXlsx', () => {
+    it('builds a zip holding a workbook with a sheet for calculations and one for the register', () => {
+        const bytes = toXlsx([['Ravi & Sons', 73152]], [['EST/2026-27/0001', 74160]]);
+        const view = new DataView(bytes.buffer);
+        expect(view.getUint32(0, true)).toBe(0x04034b50);
+        expect(view.getUint32(bytes.length - 22, true)).toBe(0x06054b50);
+        expect(view.getUint16(bytes.length - 12, true)).toBe(6);
+
+        // Entries are stored uncompressed, so their XML can be read straight from the file
+        const text = decode(bytes);
+        for (const part of ['[Content_Types].xml', '_rels/.rels', 'xl/workbook.xml', 'xl/_rels/workbook.xml.rels', 'xl/worksheets/sheet1.xml', 'xl/worksheets/sheet2.xml']) {
+            expect(text).toContain(part);
+        }
+        expect(text).toContain('<sheets><sheet name="Saved Calculations" sheetId="1" r:id="rId1"/><sheet name="Register" sheetId="2" r:id="rId2"/></sheets>');
+        expect(text).toContain('<c r="A1" t="inlineStr"><is><t xml:space="preserve">Saved On</t></is></c>');
+        expect(text).toContain('<c r="O1" t="inlineStr"><is><t xml:space="preserve">Total (₹)</t></is></c>');
+        expect(text).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">Ravi &amp; Sons</t></is></c><c r="B2"><v>73152</v></c>');
+        expect(text).toContain('<c r="G1" t="inlineStr"><is><t xml:space="preserve">Status</t></is></c>');
+        expect(text).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">EST/2026-27/0001</t></is></c><c r="B2"><v>74160</v></c>');
+    });
+});
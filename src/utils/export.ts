@@ -0,0 +1,102 @@
+import { Customer } from './customers';
+import { toDateKey } from './format';
+import { getMetalName } from './metals';
+import { CalculationRecord } from './migrations';
+import { getPurityLabel, PurityCatalogue } from './purity';
+import { DOCUMENT_KIND_LABELS, RECORD_STATUS_LABELS, RegisterRecord } from './register';
+import { calculateResultFromParams, describeSavedWeight } from './saves';
+import { toGrams } from './units';
+import { Cell, createXlsx } from './xlsx';
+
+export const EXPORT_COLUMNS = [
+    'Saved On',
+    'Metal',
+    'Customer',
+    'Rate (₹/g)',
+    'Weight Entered',
+    'Gross Weight (g)',
+    'Net Weight (g)',
+    'Purity',
+    'Selected %',
+    'Purity Value (₹)',
+    'Wastage Value (₹)',
+    'Wastage (g)',
+    'Making Charge (₹)',
+    'Stones (₹)',
+    'Total (₹)',
+];
+
+export const REGISTER_COLUMNS = [
+    'Number',
+    'Date',
+    'Type',
+    'Customer',
+    'Phone',
+    'Total (₹)',
+    'Status',
+];
+
+// What each exported file or sheet holds
+export type ExportName = 'calculations' | 'register';
+
+const money = (amount: number) => Math.round(amount * 100) / 100;
+const grams = (weight: number) => Math.round(weight * 1000) / 1000;
+
+// One row per saved calculation, in the column order above; amounts come from the same
+// calculation the Saved Calculations list shows
+export const getExportRows = (records: CalculationRecord[], catalogue: PurityCatalogue, customers: Customer[]): Cell[][] =>
+    records.map(record => {
+        const result = calculateResultFromParams(record, record.metal, catalogue);
+        const savedAt = Number(record.id);
+        const customer = customers.find(c => c.id === record.customerId);
+        return [
+            Number.isFinite(savedAt) ? toDateKey(new Date(savedAt)) : '',
+            getMetalName(record.metal),
+            customer?.name ?? '',
+            parseFloat(record.price) || 0,
+            describeSavedWeight(record),
+            grams(toGrams(parseFloat(record.weight) || 0, record.weightUnit ?? 'gram')),
+            grams(result.netWeight),
+            getPurityLabel(catalogue, record.metal, record.purity),
+            result.percent,
+            money(result.purityValue),
+            money(result.wastageValue),
+            grams(result.wastageInGrams),
+            money(result.makingCharge),
+            money(result.stoneValue),
+            money(result.total),
+        ];
+    });
+
+// One row per estimate or invoice in the register, in register order, newest first
+export const getRegisterRows = (records: RegisterRecord[]): Cell[][] =>
+    records.map(record => [
+        record.number,
+        toDateKey(new Date(record.createdAt)),
+        DOCUMENT_KIND_LABELS[record.kind],
+        record.customerName,
+        record.customerPhone,
+        money(record.snapshot.total),
+        RECORD_STATUS_LABELS[record.status],
+    ]);
+
+// Text starting with = + - @ (or a tab or return) would run as a formula in Excel and Sheets; a leading ' keeps it text.
+// Numbers are written as they are, so a negative amount stays a number
+const escapeCsv = (cell: Cell): string => {
+    const text = typeof cell === 'string' && /^[=+\-@\t\r]/.test(cell) ? `'${cell}` : String(cell);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// The byte order mark tells Excel the file is UTF-8, so ₹ and customer names in Indian scripts survive
+export const toCsv = (rows: Cell[][], columns: string[] = EXPORT_COLUMNS): string =>
+    '\uFEFF' + [columns, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+
+// One workbook with a sheet for saved calculations and one for the register
+export const toXlsx = (rows: Cell[][], registerRows: Cell[][] = []): Uint8Array<ArrayBuffer> => createXlsx([
+    { name: 'Saved Calculations', rows: [EXPORT_COLUMNS, ...rows] },
+    { name: 'Register', rows: [REGISTER_COLUMNS, ...registerRows] },
+]);
+
+// A CSV holds one table, so the register goes in a file of its own
+export const getExportFileName = (now: Date, extension: 'csv' | 'xlsx', name: ExportName = 'calculations'): string =>
+    `nl-jewellers-${name}-${toDateKey(now)}.${extension}`;
@@ -0,0 +1,36 @@
+import { MakingCharge, Stone } from './pricing';
+
+export const formatCurrency = (num: number) => num.toLocaleString("en-IN", {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+});
+
+// Short explanation of how a making charge was arrived at, for the customer view and share text
+export const describeMakingCharge = (charge: MakingCharge, weight: number, metalValue: number): string => {
+    switch (charge.type) {
+        case 'perGram':
+            return `${weight} grams × ${formatCurrency(charge.value)}/gram`;
+        case 'percent':
+            return `${charge.value}% of ${formatCurrency(metalValue)}`;
+        case 'flat':
+            return 'Flat charge per piece';
+        default:
+            return '';
+    }
+};
+
+// Wastage % to at most two decimals; whole percentages print without any
+export const formatPercent = (percent: number): string => `${+percent.toFixed(2)}%`;
+
+export const describeStone = (stone: Stone): string => `${stone.name || 'Stone'} (${stone.weight} ${stone.unit})`;
+
+// Local calendar day as YYYY-MM-DD, which sorts and compares as a string
+export const toDateKey = (date: Date): string =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const formatDateKey = (dateKey: string): string => {
+    const [year, month, day] = dateKey.split('-');
+    return `${day}/${month}/${year}`;
+};
@@ -0,0 +1,173 @@
+import { Metal } from './pricing';
+import { PurityOption } from './purity';
+
+// Tailwind classes a calculator is drawn with; kept as whole class names so Tailwind finds them
+export interface MetalTheme {
+    panel: string;
+    heading: string;
+    accentText: string;
+    input: string;
+    inputBorder: string;
+    focus: string;
+    puritySelect: string;
+    primaryButton: string;
+    secondaryButton: string;
+    customerButton: string;
+    iconButton: string;
+    rowHover: string;
+    rowSelected: string;
+    divider: string;
+    modal: string;
+    section: string;
+    sectionDivider: string;
+    totalBox: string;
+    totalDivider: string;
+}
+
+// Everything a calculator tab needs to quote one metal
+export interface MetalDefinition {
+    id: Metal;
+    name: string;
+    icon: string;
+    tabColor: string;           // App tab background when active
+    tabTextColor: string;
+    basePurity: string;         // Purity whose rate the "per gram" field holds
+    baseRateLabel: string;      // How the counter names the base rate, e.g. "24K"
+    defaultPurity: string;
+    defaultWastage: { min: number; max: number };
+    ratePlaceholder: string;
+    weightPlaceholder: string;
+    purities: PurityOption[];   // Built-in catalogue; the owner can edit it on the Rates tab
+    theme: MetalTheme;
+}
+
+const GOLD: MetalDefinition = {
+    id: 'gold',
+    name: 'Gold',
+    icon: '💛',
+    tabColor: '#D4AF37',
+    tabTextColor: '#222',
+    basePurity: '999',
+    baseRateLabel: '24K',
+    defaultPurity: '916',
+    defaultWastage: { min: 8, max: 14 },
+    ratePlaceholder: 'e.g., 7200',
+    weightPlaceholder: 'e.g., 10',
+    // 916 is quoted at 92%, matching what the counter has always charged
+    purities: [
+        { code: '999', name: '24 Karat', factor: 1.0, minWastage: 2, maxWastage: 6 },
+        { code: '916', name: '22 Karat', factor: 0.92, minWastage: 8, maxWastage: 14 },
+        { code: '833', name: '20 Karat', factor: 0.833, minWastage: 9, maxWastage: 16 },
+        { code: '750', name: '18 Karat', factor: 0.75, minWastage: 10, maxWastage: 18 },
+        { code: '585', name: '14 Karat', factor: 0.585, minWastage: 12, maxWastage: 20 },
+    ],
+    theme: {
+        panel: 'bg-ivory/60 border border-primary-gold/20 shadow-sm',
+        heading: 'text-accent-maroon',
+        accentText: 'text-accent-maroon',
+        input: 'bg-ivory/50',
+        inputBorder: 'border-primary-gold/50',
+        focus: 'focus:ring-primary-gold focus:border-primary-gold',
+        puritySelect: 'bg-ivory/50 border-primary-gold/50 focus:ring-primary-gold focus:border-primary-gold',
+        primaryButton: 'bg-primary-gold text-text-main hover:bg-button-hover-gold transition-colors',
+        secondaryButton: 'bg-ivory border border-primary-gold text-primary-gold hover:bg-primary-gold/10 transition-colors',
+        customerButton: 'bg-accent-maroon text-white hover:bg-accent-maroon/90 transition-colors',
+        iconButton: 'bg-primary-gold/20 hover:bg-primary-gold/30 border border-primary-gold/40 text-accent-maroon',
+        rowHover: 'hover:bg-primary-gold/10',
+        rowSelected: 'bg-primary-gold text-text-main shadow-sm',
+        divider: 'border-primary-gold/30',
+        modal: 'bg-ivory',
+        section: 'bg-white/50 border border-primary-gold/30',
+        sectionDivider: 'border-primary-gold/20',
+        totalBox: 'bg-gradient-to-r from-primary-gold/30 to-primary-gold/20 border-2 border-primary-gold/50',
+        totalDivider: 'border-primary-gold/30',
+    },
+};
+
+const SILVER: MetalDefinition = {
+    id: 'silver',
+    name: 'Silver',
+    icon: '🤍',
+    tabColor: '#9ca3af',
+    tabTextColor: '#fff',
+    basePurity: '999',
+    baseRateLabel: '999',
+    defaultPurity: '999',
+    defaultWastage: { min: 8, max: 15 },
+    ratePlaceholder: 'e.g., 85',
+    weightPlaceholder: 'e.g., 50',
+    // 999 silver is quoted as fully pure
+    purities: [
+        { code: '999', name: 'Pure Silver', factor: 1.0, minWastage: 8, maxWastage: 15 },
+        { code: '958', name: 'Britannia Silver', factor: 0.958, minWastage: 10, maxWastage: 18 },
+        { code: '925', name: 'Sterling Silver', factor: 0.925, minWastage: 12, maxWastage: 20 },
+        { code: '800', name: '80 Touch Silver', factor: 0.8, minWastage: 15, maxWastage: 25 },
+    ],
+    theme: {
+        panel: 'bg-gradient-to-br from-slate-50 to-blue-50 border border-slate-300/30 shadow-md',
+        heading: 'text-slate-700',
+        accentText: 'text-gray-700',
+        input: 'bg-white/50',
+        inputBorder: 'border-slate-300',
+        focus: 'focus:ring-slate-400 focus:border-slate-400',
+        puritySelect: 'bg-gradient-to-r from-slate-100 to-blue-100 border-slate-300 focus:ring-slate-400 focus:border-slate-400 text-slate-700 font-semibold',
+        primaryButton: 'bg-gradient-to-r from-slate-600 to-slate-700 text-white hover:from-slate-700 hover:to-slate-800 transition-all shadow-md',
+        secondaryButton: 'bg-white border-2 border-slate-500 text-slate-700 hover:bg-slate-50 transition-colors shadow-sm',
+        customerButton: 'bg-gradient-to-r from-slate-600 to-slate-700 text-white hover:from-slate-700 hover:to-slate-800 transition-all shadow-md',
+        iconButton: 'bg-slate-200/60 hover:bg-slate-300/70 border border-slate-400/50 text-slate-700 shadow-sm',
+        rowHover: 'hover:bg-slate-100/60',
+        rowSelected: 'bg-gradient-to-r from-slate-300 to-blue-200 text-text-main shadow-md',
+        divider: 'border-slate-400/40',
+        modal: 'bg-white',
+        section: 'bg-gray-50 border border-gray-300',
+        sectionDivider: 'border-gray-300',
+        totalBox: 'bg-gradient-to-r from-gray-200 to-gray-100 border-2 border-gray-400',
+        totalDivider: 'border-gray-400',
+    },
+};
+
+const PLATINUM: MetalDefinition = {
+    id: 'platinum',
+    name: 'Platinum',
+    icon: '🩶',
+    tabColor: '#64748b',
+    tabTextColor: '#fff',
+    basePurity: '999',
+    baseRateLabel: '999',
+    defaultPurity: '950',
+    defaultWastage: { min: 6, max: 12 },
+    ratePlaceholder: 'e.g., 3200',
+    weightPlaceholder: 'e.g., 8',
+    purities: [
+        { code: '999', name: 'Pure Platinum', factor: 1.0, minWastage: 3, maxWastage: 8 },
+        { code: '950', name: 'Platinum 950', factor: 0.95, minWastage: 6, maxWastage: 12 },
+    ],
+    theme: {
+        panel: 'bg-gradient-to-br from-zinc-50 to-slate-100 border border-zinc-300/40 shadow-md',
+        heading: 'text-slate-800',
+        accentText: 'text-slate-700',
+        input: 'bg-white/60',
+        inputBorder: 'border-zinc-300',
+        focus: 'focus:ring-slate-500 focus:border-slate-500',
+        puritySelect: 'bg-white/60 border-zinc-300 focus:ring-slate-500 focus:border-slate-500 text-slate-800 font-semibold',
+        primaryButton: 'bg-slate-500 text-white hover:bg-slate-600 transition-colors shadow-md',
+        secondaryButton: 'bg-white border-2 border-slate-500 text-slate-600 hover:bg-zinc-50 transition-colors shadow-sm',
+        customerButton: 'bg-slate-700 text-white hover:bg-slate-800 transition-colors shadow-md',
+        iconButton: 'bg-zinc-200/60 hover:bg-zinc-300/70 border border-zinc-400/50 text-slate-700 shadow-sm',
+        rowHover: 'hover:bg-zinc-100/70',
+        rowSelected: 'bg-slate-300 text-text-main shadow-md',
+        divider: 'border-zinc-400/40',
+        modal: 'bg-white',
+        section: 'bg-zinc-50 border border-zinc-300',
+        sectionDivider: 'border-zinc-300',
+        totalBox: 'bg-gradient-to-r from-zinc-200 to-zinc-100 border-2 border-zinc-400',
+        totalDivider: 'border-zinc-400',
+    },
+};
+
+// Calculator tabs in the order they appear; add a metal here (and to Metal) to stock it
+export const METALS: MetalDefinition[] = [GOLD, SILVER, PLATINUM];
+
+export const getMetal = (id: Metal): MetalDefinition => METALS.find(metal => metal.id === id) ?? GOLD;
+
+export const getMetalName = (id: Metal): string => getMetal(id).name;
@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CALCULATION_SCHEMA_VERSION, migrateCalculation, readLegacySaves } from './migrations';
+
+describe('migrateCalculation', () => {
+    it('brings a save from the old gold calculator up to the current schema', () => {
+        const migrated = migrateCalculation({
+            schemaVersion: 1, metal: 'gold', id: '1', goldPrice: '7200', goldWeight: '10', purity: '916', minPercent: '8', maxPercent: '14',
+        });
+        expect(migrated).toEqual({
+            schemaVersion: CALCULATION_SCHEMA_VERSION, metal: 'gold', id: '1', price: '7200', weight: '10', purity: '916',
+            minPercent: '8', maxPercent: '14', weightUnit: 'gram', wastageStep: '1',
+        });
+    });
+
+    it('only runs the migrations a record has not had', () => {
+        const record = { schemaVersion: 2, metal: 'silver', id: '2', price: '85', weight: '2', weightUnit: 'tola', purity: '999', minPercent: '8', maxPercent: '14' };
+        expect(migrateCalculation(record)).toMatchObject({ weightUnit: 'tola', wastageStep: '1', schemaVersion: CALCULATION_SCHEMA_VERSION });
+    });
+
+    it('leaves a current record as it is', () => {
+        const record = { schemaVersion: CALCULATION_SCHEMA_VERSION, metal: 'gold', id: '3', price: '7200', weight: '10' };
+        expect(migrateCalculation(record)).toEqual(record);
+    });
+});
+
+describe('readLegacySaves', () => {
+    it('tags each metal\'s localStorage saves with their metal and version 1', () => {
+        window.localStorage.setItem('goldCalculatorSaves', JSON.stringify([{ id: '1', goldPrice: '7200' }]));
+        window.localStorage.setItem('silverCalculatorSaves', '{not json');
+        window.localStorage.setItem('platinumCalculatorSaves', JSON.stringify([{ id: '2', price: '3200' }]));
+        const spy = vi.spyOn(console, 'error').mockImplementation(() => { });
+
+        expect(readLegacySaves(window.localStorage)).toEqual([
+            { id: '1', goldPrice: '7200', metal: 'gold', schemaVersion: 1 },
+            { id: '2', price: '3200', metal: 'platinum', schemaVersion: 1 },
+        ]);
+        spy.mockRestore();
+    });
+});
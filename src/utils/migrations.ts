@@ -0,0 +1,43 @@
+import { METALS } from './metals';
+import { Metal } from './pricing';
+import { CalculationParams, getSavesKey, readCalculation, StoredCalculation } from './saves';
+
+// A record as found in storage: written under some schema version, shape otherwise unknown
+export interface VersionedRecord {
+    schemaVersion: number;
+    [field: string]: unknown;
+}
+
+// A saved calculation as kept in the database, tagged with its metal
+export interface CalculationRecord extends CalculationParams {
+    metal: Metal;
+    schemaVersion: number;
+}
+
+// Migration n upgrades a record from version n to n + 1. Never edit or remove one once released;
+// change the shape by appending a new migration
+const CALCULATION_MIGRATIONS: Array<(record: VersionedRecord) => VersionedRecord> = [
+    // 1 → 2: saves from the separate gold and silver calculators named price and weight after the metal
+    record => readCalculation(record as unknown as StoredCalculation) as unknown as VersionedRecord,
+    // 2 → 3: spell out the defaults older saves left implicit
+    record => ({ weightUnit: 'gram', wastageStep: '1', ...record }),
+];
+
+export const CALCULATION_SCHEMA_VERSION = CALCULATION_MIGRATIONS.length + 1;
+
+export const migrateCalculation = (record: VersionedRecord): CalculationRecord =>
+    CALCULATION_MIGRATIONS
+        .slice(Math.max(record.schemaVersion - 1, 0))
+        .reduce((current, migrate) => ({ ...migrate(current), schemaVersion: current.schemaVersion + 1 }), record) as unknown as CalculationRecord;
+
+// Saves kept in localStorage before the database existed; they predate schema versions, so count as version 1
+export const readLegacySaves = (storage: Storage): VersionedRecord[] =>
+    METALS.flatMap(({ id: metal }) => {
+        try {
+            const saves: unknown = JSON.parse(storage.getItem(getSavesKey(metal)) ?? '[]');
+            return Array.isArray(saves) ? saves.map(save => ({ ...save, metal, schemaVersion: 1 })) : [];
+        } catch (error) {
+            console.error(error);
+            return [];
+        }
+    });
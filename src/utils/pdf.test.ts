@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { createImagePdf, PDF_PAGE_WIDTH } from './pdf';
+
+// Latin-1 keeps one character per byte, so string positions are byte offsets
+const decode = (bytes: Uint8Array) => new TextDecoder('latin1').decode(bytes);
+
+const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0xff, 0xd9]);
+
+describe('createImagePdf', () => {
+    it('writes one page as wide as A5 and as tall as the picture needs', () => {
+        const text = decode(createImagePdf(jpeg, 1080, 1620));
+
+        expect(text.startsWith('%PDF-1.4\n')).toBe(true);
+        expect(text.endsWith('%%EOF\n')).toBe(true);
+        expect(text).toContain('/Count 1');
+        expect(text).toContain(`/MediaBox [0 0 ${PDF_PAGE_WIDTH} 630]`);
+        expect(text).toContain('/Width 1080 /Height 1620');
+        expect(text).toContain(`/Filter /DCTDecode /Length ${jpeg.length}`);
+        expect(text).toContain(`q ${PDF_PAGE_WIDTH} 0 0 630 0 0 cm /Im0 Do Q`);
+    });
+
+    it('embeds the JPEG bytes unchanged', () => {
+        const pdf = createImagePdf(jpeg, 10, 10);
+        const start = decode(pdf).indexOf('stream\n') + 'stream\n'.length;
+        expect(Array.from(pdf.slice(start, start + jpeg.length))).toEqual(Array.from(jpeg));
+    });
+
+    it('points the cross-reference table at each object', () => {
+        const text = decode(createImagePdf(jpeg, 1080, 1620));
+        const xref = Number(text.match(/startxref\n(\d+)\n/)![1]);
+        expect(text.slice(xref, xref + 4)).toBe('xref');
+
+        const offsets = [...text.slice(xref).matchAll(/^(\d{10}) 00000 n $/gm)].map(match => Number(match[1]));
+        expect(offsets).toHaveLength(5);
+        offsets.forEach((offset, index) => {
+            expect(text.slice(offset)).toMatch(new RegExp(`^${index + 1} 0 obj\\n`));
+        });
+    });
+});
@@ -0,0 +1,57 @@
+// Just enough of the PDF format for one page showing one picture, written in the browser.
+// A JPEG can be placed in a PDF as it is (the DCTDecode filter), so nothing here encodes images.
+
+const encoder = new TextEncoder();
+
+// A5 is 420pt wide; the page is as tall as the picture needs
+export const PDF_PAGE_WIDTH = 420;
+
+const formatNumber = (value: number) => String(+value.toFixed(2));
+
+export const createImagePdf = (jpeg: Uint8Array, width: number, height: number): Uint8Array<ArrayBuffer> => {
+    const pageWidth = PDF_PAGE_WIDTH;
+    const pageHeight = (height / width) * pageWidth;
+    const drawing = `q ${formatNumber(pageWidth)} 0 0 ${formatNumber(pageHeight)} 0 0 cm /Im0 Do Q`;
+
+    // Each object is its text, with the picture's bytes spliced in where a stream holds them
+    const objects: Array<Array<string | Uint8Array>> = [
+        ['<< /Type /Catalog /Pages 2 0 R >>'],
+        ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+        [`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(pageWidth)} ${formatNumber(pageHeight)}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`],
+        [`<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`, jpeg, '\nendstream'],
+        [`<< /Length ${drawing.length} >>\nstream\n${drawing}\nendstream`],
+    ];
+
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    const write = (part: string | Uint8Array) => {
+        const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+        chunks.push(bytes);
+        length += bytes.length;
+    };
+
+    // The second line's high bytes tell file transfers the PDF is binary
+    write('%PDF-1.4\n');
+    write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+
+    const offsets = objects.map((parts, index) => {
+        const offset = length;
+        write(`${index + 1} 0 obj\n`);
+        parts.forEach(write);
+        write('\nendobj\n');
+        return offset;
+    });
+
+    const xref = length;
+    write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+    offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+    write(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+    const pdf = new Uint8Array(length);
+    let position = 0;
+    for (const chunk of chunks) {
+        pdf.set(chunk, position);
+        position += chunk.length;
+    }
+    return pdf;
+};
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import { calculateMakingCharge, calculateResult, calculateResults, getNetWeight, getWastagePercents, parseMakingCharge, parseStones, PricingInput } from './pricing';
+
+// Known-good quotes checked by hand against the counter's price sheet
+const quotes: Array<{
+    name: string;
+    input: PricingInput;
+    percent: number;
+    purityValue: number;
+    wastageValue: number;
+    total: number;
+    wastageInGrams: number;
+}> = [
+    { name: 'gold 916, 10g at 8%', input: { purityFactor: 0.92, rate: 7200, weight: 10 }, percent: 8, purityValue: 66240, wastageValue: 5760, total: 72000, wastageInGrams: 0.869565 },
+    { name: 'gold 916, 10g at 14%', input: { purityFactor: 0.92, rate: 7200, weight: 10 }, percent: 14, purityValue: 66240, wastageValue: 10080, total: 76320, wastageInGrams: 1.521739 },
+    { name: 'gold 750, 10g at 10%', input: { purityFactor: 0.75, rate: 7200, weight: 10 }, percent: 10, purityValue: 54000, wastageValue: 7200, total: 61200, wastageInGrams: 1.333333 },
+    { name: 'gold 916, fractional weight and rate', input: { purityFactor: 0.92, rate: 6543.21, weight: 2.345 }, percent: 12, purityValue: 14116.3213, wastageValue: 1841.2593, total: 15957.5805, wastageInGrams: 0.30587 },
+    { name: 'silver 999, 50g at 8%', input: { purityFactor: 1, rate: 85, weight: 50 }, percent: 8, purityValue: 4250, wastageValue: 340, total: 4590, wastageInGrams: 4 },
+    { name: 'silver 999, sub-gram weight', input: { purityFactor: 1, rate: 92.5, weight: 0.75 }, percent: 15, purityValue: 69.375, wastageValue: 10.4062, total: 79.7812, wastageInGrams: 0.1125 },
+    { name: 'silver 925, 20g at 10%', input: { purityFactor: 0.925, rate: 100, weight: 20 }, percent: 10, purityValue: 1850, wastageValue: 200, total: 2050, wastageInGrams: 2.162162 },
+];
+
+describe('calculateResult', () => {
+    it.each(quotes)('$name', ({ input, percent, purityValue, wastageValue, total, wastageInGrams }) => {
+        const result = calculateResult(input, percent);
+        expect(result.percent).toBe(percent);
+        expect(result.purityValue).toBeCloseTo(purityValue, 3);
+        expect(result.wastageValue).toBeCloseTo(wastageValue, 3);
+        expect(result.total).toBeCloseTo(total, 3);
+        expect(result.wastageInGrams).toBeCloseTo(wastageInGrams, 5);
+    });
+
+    it('charges no wastage at 0%', () => {
+        const result = calculateResult({ purityFactor: 0.92, rate: 7200, weight: 10 }, 0);
+        expect(result.wastageValue).toBe(0);
+        expect(result.wastageInGrams).toBe(0);
+        expect(result.total).toBeCloseTo(66240, 6);
+    });
+
+    it('reports zero wastage grams when the rate is zero', () => {
+        expect(calculateResult({ purityFactor: 1, rate: 0, weight: 10 }, 10).wastageInGrams).toBe(0);
+    });
+
+    it('prices metal at the board purity rate when one is given', () => {
+        const result = calculateResult({ purityFactor: 0.92, rate: 7200, purityRate: 6650, weight: 10 }, 8);
+        expect(result.purityValue).toBeCloseTo(66500, 6);
+        expect(result.wastageValue).toBeCloseTo(5760, 6);
+        expect(result.wastageInGrams).toBeCloseTo(5760 / 6650, 6);
+    });
+});
+
+describe('making charges', () => {
+    const base: PricingInput = { purityFactor: 0.92, rate: 7200, weight: 10 };
+
+    it.each([
+        ['per gram', { type: 'perGram', value: 500 }, 5000],
+        ['flat per piece', { type: 'flat', value: 1500 }, 1500],
+        ['percent of metal value', { type: 'percent', value: 5 }, 3312],
+        ['none', { type: 'none', value: 500 }, 0],
+    ] as const)('adds a %s charge on top of purity and wastage', (_name, makingCharge, expected) => {
+        const result = calculateResult({ ...base, makingCharge }, 8);
+        expect(result.makingCharge).toBeCloseTo(expected, 6);
+        expect(result.total).toBeCloseTo(72000 + expected, 6);
+    });
+
+    it('does not change wastage grams', () => {
+        const result = calculateResult({ ...base, makingCharge: { type: 'perGram', value: 500 } }, 8);
+        expect(result.wastageInGrams).toBeCloseTo(0.869565, 5);
+    });
+
+    it('is zero when no charge is given', () => {
+        expect(calculateMakingCharge(undefined, 10, 66240)).toBe(0);
+        expect(calculateResult(base, 8).makingCharge).toBe(0);
+    });
+
+    it('parses raw form values', () => {
+        expect(parseMakingCharge()).toBeUndefined();
+        expect(parseMakingCharge('none', '500')).toBeUndefined();
+        expect(parseMakingCharge('flat', '1500')).toEqual({ type: 'flat', value: 1500 });
+        expect(parseMakingCharge('perGram', '')).toEqual({ type: 'perGram', value: 0 });
+    });
+});
+
+describe('stones', () => {
+    const base: PricingInput = { purityFactor: 0.92, rate: 7200, weight: 12, stoneWeight: 2 };
+
+    it('applies purity, wastage and per-gram making to net weight only', () => {
+        const result = calculateResult({ ...base, makingCharge: { type: 'perGram', value: 500 } }, 8);
+        expect(result.netWeight).toBe(10);
+        expect(result.purityValue).toBeCloseTo(66240, 6);
+        expect(result.wastageValue).toBeCloseTo(5760, 6);
+        expect(result.makingCharge).toBeCloseTo(5000, 6);
+        expect(result.wastageInGrams).toBeCloseTo(0.869565, 5);
+    });
+
+    it('adds each stone price as a separate line on top of the metal', () => {
+        const result = calculateResult({
+            ...base,
+            stones: [
+                { name: 'Ruby', weight: 0.5, unit: 'ct', price: 4000 },
+                { name: 'Pearl', weight: 1.2, unit: 'g', price: 1500 },
+            ],
+        }, 8);
+        expect(result.stoneValue).toBe(5500);
+        expect(result.total).toBeCloseTo(77500, 6);
+    });
+
+    it('never lets net weight go below zero', () => {
+        expect(getNetWeight(1, 2)).toBe(0);
+        expect(getNetWeight(10)).toBe(10);
+    });
+
+    it('parses raw stone rows', () => {
+        expect(parseStones()).toEqual([]);
+        expect(parseStones([{ name: 'Ruby', weight: '0.5', unit: 'ct', price: '' }]))
+            .toEqual([{ name: 'Ruby', weight: 0.5, unit: 'ct', price: 0 }]);
+    });
+});
+
+describe('calculateResults', () => {
+    const input: PricingInput = { purityFactor: 0.92, rate: 7200, weight: 10 };
+
+    it('returns one breakdown per whole percent, inclusive of both ends', () => {
+        const results = calculateResults(input, { minPercent: 8, maxPercent: 14 });
+        expect(results.map(r => r.percent)).toEqual([8, 9, 10, 11, 12, 13, 14]);
+        expect(results[0].total).toBeCloseTo(72000, 6);
+        expect(results[6].total).toBeCloseTo(76320, 6);
+    });
+
+    it('returns a single breakdown when min equals max', () => {
+        const results = calculateResults(input, { minPercent: 10, maxPercent: 10 });
+        expect(results).toHaveLength(1);
+        expect(results[0]).toEqual(calculateResult(input, 10));
+    });
+
+    it('returns nothing when min is above max', () => {
+        expect(calculateResults(input, { minPercent: 12, maxPercent: 10 })).toEqual([]);
+    });
+
+    it('steps through fractional percentages', () => {
+        const results = calculateResults(input, { minPercent: 8, maxPercent: 9, step: 0.25 });
+        expect(results.map(r => r.percent)).toEqual([8, 8.25, 8.5, 8.75, 9]);
+        expect(results[2].total).toBeCloseTo(72360, 6);
+    });
+
+    it('keeps purity value constant across the range', () => {
+        const results = calculateResults(input, { minPercent: 8, maxPercent: 14 });
+        expect(new Set(results.map(r => r.purityValue)).size).toBe(1);
+    });
+});
+
+describe('getWastagePercents', () => {
+    it('keeps decimal bounds instead of truncating them', () => {
+        expect(getWastagePercents({ minPercent: 8.5, maxPercent: 10.5 })).toEqual([8.5, 9.5, 10.5]);
+    });
+
+    it('stops at the last step that does not pass max', () => {
+        expect(getWastagePercents({ minPercent: 8, maxPercent: 9.4, step: 0.5 })).toEqual([8, 8.5, 9]);
+    });
+
+    it('counts in whole steps so long runs do not drift', () => {
+        const percents = getWastagePercents({ minPercent: 0.1, maxPercent: 25, step: 0.25 });
+        expect(percents[percents.length - 1]).toBe(24.85);
+        expect(percents.every(p => Number.isInteger(Math.round(p * 100)) && p === +p.toFixed(2))).toBe(true);
+    });
+
+    it('returns nothing for a step that is not positive', () => {
+        expect(getWastagePercents({ minPercent: 8, maxPercent: 14, step: 0 })).toEqual([]);
+    });
+});
@@ -0,0 +1,122 @@
+export type Metal = 'gold' | 'silver' | 'platinum';
+
+export type MakingChargeType = 'none' | 'perGram' | 'flat' | 'percent';
+
+export interface MakingCharge {
+    type: MakingChargeType;
+    value: number;     // ₹ per gram, ₹ per piece or % of metal value, depending on type
+}
+
+export type StoneWeightUnit = 'ct' | 'g';
+
+// A separately priced stone; its price is charged as-is on top of the metal
+export interface Stone {
+    name: string;
+    weight: number;
+    unit: StoneWeightUnit;
+    price: number;
+}
+
+// Stone rows as typed into the form and stored in saves
+export interface StoneInput {
+    name: string;
+    weight: string;
+    unit: StoneWeightUnit;
+    price: string;
+}
+
+export interface ResultDetail {
+    percent: number;
+    netWeight: number;
+    wastageValue: number;
+    purityValue: number;
+    makingCharge: number;
+    stoneValue: number;
+    total: number;
+    wastageInGrams: number;
+}
+
+export interface PricingInput {
+    purityFactor: number;  // Fineness billed for the item's purity, from the purity catalogue
+    rate: number;      // Price per gram of the reference metal (24K gold / pure silver)
+    purityRate?: number;   // Board rate per gram for this purity; replaces rate × purity factor when set
+    weight: number;    // Gross weight in grams
+    stoneWeight?: number;  // Stones, beads, enamel etc. deducted from gross weight
+    stones?: Stone[];
+    makingCharge?: MakingCharge;
+}
+
+export interface WastageRange {
+    minPercent: number;
+    maxPercent: number;
+    step?: number;     // Gap between listed percentages; whole percentages when absent
+}
+
+export const WASTAGE_STEPS = [0.25, 0.5, 1];
+
+export const MAKING_CHARGE_LABELS: Record<MakingChargeType, string> = {
+    none: 'No Making Charge',
+    perGram: 'Per Gram (₹)',
+    flat: 'Flat Per Piece (₹)',
+    percent: '% of Metal Value',
+};
+
+// Builds a making charge from the raw form/saved values; 'none' yields no charge
+export const parseMakingCharge = (type: MakingChargeType = 'none', value = ''): MakingCharge | undefined =>
+    type === 'none' ? undefined : { type, value: parseFloat(value) || 0 };
+
+export const parseStones = (stones: StoneInput[] = []): Stone[] =>
+    stones.map(stone => ({
+        name: stone.name,
+        weight: parseFloat(stone.weight) || 0,
+        unit: stone.unit,
+        price: parseFloat(stone.price) || 0,
+    }));
+
+export const getNetWeight = (weight: number, stoneWeight = 0): number => Math.max(weight - stoneWeight, 0);
+
+// Making charge in rupees; percentage charges apply to the purity (metal) value only
+export const calculateMakingCharge = (charge: MakingCharge | undefined, weight: number, metalValue: number): number => {
+    if (!charge) return 0;
+    switch (charge.type) {
+        case 'perGram':
+            return weight * charge.value;
+        case 'flat':
+            return charge.value;
+        case 'percent':
+            return metalValue * charge.value / 100;
+        default:
+            return 0;
+    }
+};
+
+// Breakdown for a single wastage percentage
+// Purity, wastage and per-gram making apply to net (metal-only) weight
+export const calculateResult = (input: PricingInput, percent: number): ResultDetail => {
+    const purityDecimal = input.purityFactor;
+    const netWeight = getNetWeight(input.weight, input.stoneWeight);
+    const wastagePercentDecimal = percent / 100;
+    const rateOfAlloyedMetal = input.purityRate ?? input.rate * purityDecimal;
+    const purityValue = netWeight * rateOfAlloyedMetal;
+    const wastageValue = netWeight * wastagePercentDecimal * input.rate;
+    const makingCharge = calculateMakingCharge(input.makingCharge, netWeight, purityValue);
+    const stoneValue = (input.stones ?? []).reduce((sum, stone) => sum + stone.price, 0);
+    const total = purityValue + wastageValue + makingCharge + stoneValue;
+
+    // WastageInGrams = wastageValue / (pricePerGram × purity)
+    const wastageInGrams = rateOfAlloyedMetal > 0 ? wastageValue / rateOfAlloyedMetal : 0;
+
+    return { percent, netWeight, wastageValue, purityValue, makingCharge, stoneValue, total, wastageInGrams };
+};
+
+// Percentages from min up to max (inclusive) in steps; counted in whole steps and
+// rounded so 0.25 increments don't drift into values like 8.749999
+export const getWastagePercents = ({ minPercent, maxPercent, step = 1 }: WastageRange): number[] => {
+    if (!(step > 0) || minPercent > maxPercent) return [];
+    const count = Math.floor((maxPercent - minPercent) / step + 1e-9);
+    return Array.from({ length: count + 1 }, (_, i) => +(minPercent + i * step).toFixed(4));
+};
+
+// One breakdown per step from min to max (inclusive)
+export const calculateResults = (input: PricingInput, range: WastageRange): ResultDetail[] =>
+    getWastagePercents(range).map(percent => calculateResult(input, percent));
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { METALS } from './metals';
+import { DEFAULT_PURITY_CATALOGUE, getDefaultPurity, getPurityFactor, getPurityLabel, getPurityOptions, PurityCatalogue, validatePurityOptions } from './purity';
+
+const ownCatalogue: PurityCatalogue = {
+    gold: [{ code: '916', name: 'KDM 22K', factor: 0.916, minWastage: 7, maxWastage: 12 }],
+    silver: [{ code: '925', name: 'Sterling Silver', factor: 0.925, minWastage: 12, maxWastage: 20 }],
+};
+
+describe('getPurityFactor', () => {
+    it('uses the billed fineness for each purity', () => {
+        expect(getPurityFactor(DEFAULT_PURITY_CATALOGUE, 'gold', '916')).toBe(0.92);
+        expect(getPurityFactor(DEFAULT_PURITY_CATALOGUE, 'gold', '750')).toBe(0.75);
+        expect(getPurityFactor(DEFAULT_PURITY_CATALOGUE, 'gold', '585')).toBe(0.585);
+        expect(getPurityFactor(DEFAULT_PURITY_CATALOGUE, 'silver', '999')).toBe(1.0);
+        expect(getPurityFactor(DEFAULT_PURITY_CATALOGUE, 'silver', '925')).toBe(0.925);
+        expect(getPurityFactor(DEFAULT_PURITY_CATALOGUE, 'platinum', '950')).toBe(0.95);
+    });
+
+    it("prefers the owner's fineness and falls back to the built-in one for removed purities", () => {
+        expect(getPurityFactor(ownCatalogue, 'gold', '916')).toBe(0.916);
+        expect(getPurityFactor(ownCatalogue, 'gold', '750')).toBe(0.75);
+    });
+});
+
+describe('purity labels and defaults', () => {
+    it('describes a purity by code and name', () => {
+        expect(getPurityLabel(DEFAULT_PURITY_CATALOGUE, 'gold', '916')).toBe('916 (22 Karat)');
+        expect(getPurityLabel(ownCatalogue, 'gold', '916')).toBe('916 (KDM 22K)');
+        expect(getPurityLabel(ownCatalogue, 'gold', 'XYZ')).toBe('XYZ');
+    });
+
+    it('starts from the preferred purity only while it is offered', () => {
+        expect(getDefaultPurity(DEFAULT_PURITY_CATALOGUE, 'silver', '999')).toBe('999');
+        expect(getDefaultPurity(ownCatalogue, 'silver', '999')).toBe('925');
+    });
+
+    it('offers the built-in purities for a metal the saved catalogue predates', () => {
+        expect(getPurityOptions(ownCatalogue, 'platinum').map(option => option.code)).toEqual(['999', '950']);
+        expect(getDefaultPurity(ownCatalogue, 'platinum', '950')).toBe('950');
+    });
+});
+
+describe('validatePurityOptions', () => {
+    const option = getPurityOptions(DEFAULT_PURITY_CATALOGUE, 'gold')[1];
+
+    it('accepts the built-in catalogue', () => {
+        for (const metal of METALS) {
+            expect(validatePurityOptions(metal.purities)).toBeNull();
+        }
+    });
+
+    it('rejects empty lists, blank or duplicate codes, bad fineness and inverted ranges', () => {
+        expect(validatePurityOptions([])).toBe('Keep at least one purity');
+        expect(validatePurityOptions([{ ...option, code: ' ' }])).toBe('Every purity needs a code');
+        expect(validatePurityOptions([option, option])).toBe('Purity 916 is listed twice');
+        expect(validatePurityOptions([{ ...option, factor: 1.2 }])).toBe('Fineness for 916 must be between 0 and 1');
+        expect(validatePurityOptions([{ ...option, minWastage: 15 }])).toBe('Wastage range for 916 is invalid');
+    });
+
+    it('keeps the floor between zero and the min wastage', () => {
+        expect(validatePurityOptions([{ ...option, floorWastage: 6 }])).toBeNull();
+        expect(validatePurityOptions([{ ...option, floorWastage: 9 }])).toBe('Floor for 916 must be between 0 and its min wastage');
+        expect(validatePurityOptions([{ ...option, floorWastage: NaN }])).toBe('Floor for 916 must be between 0 and its min wastage');
+    });
+});
@@ -0,0 +1,54 @@
+import { getMetal, METALS } from './metals';
+import { Metal } from './pricing';
+
+// One sellable purity: the code stamped on the item, what the customer is told,
+// the fineness billed and the wastage range the calculator starts from
+export interface PurityOption {
+    code: string;
+    name: string;
+    factor: number;
+    minWastage: number;
+    maxWastage: number;
+    floorWastage?: number;  // Lowest wastage a quote may work out to, after any discount, without the owner's approval
+}
+
+// Metals stocked after the owner last saved the catalogue fall back to their built-in purities
+export type PurityCatalogue = Partial<Record<Metal, PurityOption[]>>;
+
+export const DEFAULT_PURITY_CATALOGUE: PurityCatalogue = Object.fromEntries(METALS.map(metal => [metal.id, metal.purities]));
+
+export const getPurityOptions = (catalogue: PurityCatalogue, metal: Metal): PurityOption[] =>
+    catalogue[metal] ?? getMetal(metal).purities;
+
+export const findPurity = (catalogue: PurityCatalogue, metal: Metal, code: string): PurityOption | undefined =>
+    getPurityOptions(catalogue, metal).find(option => option.code === code);
+
+// Falls back to the built-in catalogue so saves made before a purity was removed still price
+export const getPurityFactor = (catalogue: PurityCatalogue, metal: Metal, code: string): number =>
+    (findPurity(catalogue, metal, code) ?? findPurity(DEFAULT_PURITY_CATALOGUE, metal, code))?.factor ?? 1;
+
+export const getPurityLabel = (catalogue: PurityCatalogue, metal: Metal, code: string): string => {
+    const option = findPurity(catalogue, metal, code) ?? findPurity(DEFAULT_PURITY_CATALOGUE, metal, code);
+    return option ? `${option.code} (${option.name})` : code;
+};
+
+// Starting purity for a calculator: the given one if still offered, else the first in the list
+export const getDefaultPurity = (catalogue: PurityCatalogue, metal: Metal, preferred: string): string =>
+    findPurity(catalogue, metal, preferred)?.code ?? getPurityOptions(catalogue, metal)[0]?.code ?? preferred;
+
+// First problem with a metal's purity list, or null when it can be saved
+export const validatePurityOptions = (options: PurityOption[]): string | null => {
+    if (options.length === 0) return 'Keep at least one purity';
+    const codes = new Set<string>();
+    for (const option of options) {
+        if (!option.code.trim()) return 'Every purity needs a code';
+        if (codes.has(option.code)) return `Purity ${option.code} is listed twice`;
+        codes.add(option.code);
+        if (!(option.factor > 0 && option.factor <= 1)) return `Fineness for ${option.code} must be between 0 and 1`;
+        if (option.minWastage < 0 || option.maxWastage < option.minWastage) return `Wastage range for ${option.code} is invalid`;
+        if (option.floorWastage !== undefined && !(option.floorWastage >= 0 && option.floorWastage <= option.minWastage)) {
+            return `Floor for ${option.code} must be between 0 and its min wastage`;
+        }
+    }
+    return null;
+};
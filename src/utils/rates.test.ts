@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { DailyRates, getBaseRate, getLatestRates, getPurityRate, getRateSeries, isStaleRate, upsertDailyRates } from './rates';
+
+const monday: DailyRates = { date: '2026-10-19', rates: { 'gold:999': 7200, 'gold:916': 6650, 'silver:999': 95 } };
+const sunday: DailyRates = { date: '2026-10-18', rates: { 'gold:999': 7150, 'silver:999': 94 } };
+
+describe('rate history', () => {
+    it('keeps one board per day in date order', () => {
+        const history = upsertDailyRates(upsertDailyRates([], monday), sunday);
+        expect(history.map(entry => entry.date)).toEqual(['2026-10-18', '2026-10-19']);
+
+        const corrected = upsertDailyRates(history, { date: '2026-10-19', rates: { 'gold:999': 7210 } });
+        expect(corrected).toHaveLength(2);
+        expect(getLatestRates(corrected)?.rates['gold:999']).toBe(7210);
+    });
+
+    it('has no latest board before any rates are set', () => {
+        expect(getLatestRates([])).toBeNull();
+    });
+
+    it('reads base and purity rates, leaving unset purities to the purity factor', () => {
+        expect(getBaseRate(monday, 'gold')).toBe(7200);
+        expect(getPurityRate(monday, 'gold', '916')).toBe(6650);
+        expect(getPurityRate(monday, 'gold', '750')).toBeUndefined();
+        expect(getPurityRate(null, 'gold', '916')).toBeUndefined();
+    });
+
+    it('flags boards from before today', () => {
+        expect(isStaleRate(sunday, '2026-10-19')).toBe(true);
+        expect(isStaleRate(monday, '2026-10-19')).toBe(false);
+        expect(isStaleRate(null, '2026-10-19')).toBe(false);
+    });
+
+    it('builds a series for one purity, skipping days it was not set', () => {
+        const history = [sunday, monday];
+        expect(getRateSeries(history, 'gold', '999')).toEqual([{ date: '2026-10-18', rate: 7150 }, { date: '2026-10-19', rate: 7200 }]);
+        expect(getRateSeries(history, 'gold', '916')).toEqual([{ date: '2026-10-19', rate: 6650 }]);
+    });
+});
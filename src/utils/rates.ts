@@ -0,0 +1,47 @@
+import { Metal } from './pricing';
+import { getMetal, METALS } from './metals';
+import { getPurityLabel, getPurityOptions, PurityCatalogue } from './purity';
+
+// A rate the owner publishes on the board; '999' gold is 24K, the base rate for gold quotes
+export interface RateSlot {
+    metal: Metal;
+    purity: string;
+    label: string;
+}
+
+// One day's board; rates are per gram, keyed by getRateKey
+export interface DailyRates {
+    date: string;   // YYYY-MM-DD
+    rates: Record<string, number>;
+}
+
+// Base rate first for each metal, then every other purity in the catalogue
+export const getRateSlots = (catalogue: PurityCatalogue): RateSlot[] =>
+    METALS.flatMap(({ id: metal, name, basePurity }) => {
+        const purities = [basePurity, ...getPurityOptions(catalogue, metal).map(option => option.code).filter(code => code !== basePurity)];
+        return purities.map(purity => ({ metal, purity, label: `${name} ${getPurityLabel(catalogue, metal, purity)}` }));
+    });
+
+export const getRateKey = (metal: Metal, purity: string): string => `${metal}:${purity}`;
+
+// Most recent board, or null before the owner has set any rates
+export const getLatestRates = (history: DailyRates[]): DailyRates | null =>
+    history.reduce<DailyRates | null>((latest, entry) => (!latest || entry.date > latest.date ? entry : latest), null);
+
+// Replaces any board already saved for the same day; history stays in date order
+export const upsertDailyRates = (history: DailyRates[], entry: DailyRates): DailyRates[] =>
+    [...history.filter(existing => existing.date !== entry.date), entry].sort((a, b) => a.date.localeCompare(b.date));
+
+export const getBaseRate = (board: DailyRates | null | undefined, metal: Metal): number | undefined =>
+    board?.rates[getRateKey(metal, getMetal(metal).basePurity)];
+
+// Board rate for a purity; undefined means price by the purity factor instead
+export const getPurityRate = (board: DailyRates | null | undefined, metal: Metal, purity: string): number | undefined =>
+    board?.rates[getRateKey(metal, purity)];
+
+export const isStaleRate = (board: DailyRates | null | undefined, today: string): boolean => !!board && board.date < today;
+
+export const getRateSeries = (history: DailyRates[], metal: Metal, purity: string): Array<{ date: string; rate: number }> =>
+    history
+        .filter(entry => entry.rates[getRateKey(metal, purity)] !== undefined)
+        .map(entry => ({ date: entry.date, rate: entry.rates[getRateKey(metal, purity)] }));
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { EstimateContent } from './estimate';
+import { createRecord, DEFAULT_NUMBERING, filterRecords, getFinancialYear, RecordDraft, RegisterFilter, RegisterRecord } from './register';
+
+const snapshot: EstimateContent = {
+    title: 'Gold Price Breakdown',
+    details: [],
+    lines: [{ label: 'Gold Value', amount: 66240 }],
+    subtotal: 66240,
+    taxLines: [],
+    total: 66240,
+};
+
+const draft = (changes: Partial<RecordDraft> = {}): RecordDraft => ({
+    kind: 'estimate',
+    status: 'quoted',
+    customerName: '',
+    customerPhone: '',
+    snapshot,
+    ...changes,
+});
+
+const allRecords: RegisterFilter = { query: '', fromDate: '', toDate: '', status: 'all', kind: 'all' };
+
+describe('getFinancialYear', () => {
+    it('starts the year in April', () => {
+        expect(getFinancialYear(new Date(2026, 2, 31))).toBe('2025-26');
+        expect(getFinancialYear(new Date(2026, 3, 1))).toBe('2026-27');
+        expect(getFinancialYear(new Date(2099, 11, 1))).toBe('2099-00');
+    });
+});
+
+describe('createRecord', () => {
+    it('numbers estimates and invoices on separate sequences', () => {
+        const now = new Date(2026, 9, 19);
+        const first = createRecord([], draft(), DEFAULT_NUMBERING, now);
+        const second = createRecord([first], draft(), DEFAULT_NUMBERING, now);
+        const invoice = createRecord([second, first], draft({ kind: 'invoice' }), DEFAULT_NUMBERING, now);
+
+        expect(first.number).toBe('EST/2026-27/0001');
+        expect(second.number).toBe('EST/2026-27/0002');
+        expect(invoice.number).toBe('INV/2026-27/0001');
+    });
+
+    it('restarts the sequence in a new financial year and uses the current prefix', () => {
+        const march = createRecord([], draft(), DEFAULT_NUMBERING, new Date(2027, 2, 31));
+        const april = createRecord([march], draft(), { ...DEFAULT_NUMBERING, estimatePrefix: 'NLJ' }, new Date(2027, 3, 1));
+
+        expect(march.number).toBe('EST/2026-27/0001');
+        expect(april.number).toBe('NLJ/2027-28/0001');
+        expect(april.id).not.toBe(march.id);
+    });
+});
+
+describe('filterRecords', () => {
+    const records: RegisterRecord[] = [
+        createRecord([], draft({ customerName: 'Lakshmi', customerPhone: '9840012345' }), DEFAULT_NUMBERING, new Date(2026, 9, 1, 10)),
+        { ...createRecord([], draft({ customerName: 'Ravi', status: 'cancelled' }), DEFAULT_NUMBERING, new Date(2026, 9, 5, 18)), sequence: 2, id: 'b', number: 'EST/2026-27/0002' },
+        createRecord([], draft({ kind: 'invoice', customerName: 'Lakshmi' }), DEFAULT_NUMBERING, new Date(2026, 9, 10, 9)),
+    ];
+
+    it('returns every record without a filter', () => {
+        expect(filterRecords(records, allRecords)).toHaveLength(3);
+    });
+
+    it('searches number, name and phone', () => {
+        expect(filterRecords(records, { ...allRecords, query: 'lakshmi' })).toHaveLength(2);
+        expect(filterRecords(records, { ...allRecords, query: '98400' })).toHaveLength(1);
+        expect(filterRecords(records, { ...allRecords, query: 'INV/' })).toHaveLength(1);
+    });
+
+    it('filters by inclusive date range, status and kind', () => {
+        expect(filterRecords(records, { ...allRecords, fromDate: '2026-10-05', toDate: '2026-10-05' }).map(r => r.customerName)).toEqual(['Ravi']);
+        expect(filterRecords(records, { ...allRecords, fromDate: '2026-10-02' })).toHaveLength(2);
+        expect(filterRecords(records, { ...allRecords, status: 'cancelled' })).toHaveLength(1);
+        expect(filterRecords(records, { ...allRecords, kind: 'estimate' })).toHaveLength(2);
+    });
+});
@@ -0,0 +1,118 @@
+import { DocumentKind, EstimateContent, EstimateDocument } from './estimate';
+import { toDateKey } from './format';
+
+export type RecordStatus = 'draft' | 'quoted' | 'converted' | 'cancelled';
+
+// One numbered estimate or invoice; the snapshot is frozen when the record is created
+export interface RegisterRecord {
+    id: string;
+    kind: DocumentKind;
+    number: string;
+    sequence: number;
+    financialYear: string;
+    status: RecordStatus;
+    customerName: string;
+    customerPhone: string;
+    customerId?: string;        // Directory customer, when the record was saved for one
+    createdAt: string;
+    updatedAt: string;
+    snapshot: EstimateContent;
+    convertedFrom?: string;     // Estimate number an invoice was raised from
+}
+
+export interface RecordDraft {
+    kind: DocumentKind;
+    status: RecordStatus;
+    customerName: string;
+    customerPhone: string;
+    customerId?: string;
+    snapshot: EstimateContent;
+    convertedFrom?: string;
+}
+
+export interface NumberingSettings {
+    estimatePrefix: string;
+    invoicePrefix: string;
+    digits: number;
+}
+
+export interface RegisterFilter {
+    query: string;
+    fromDate: string;   // YYYY-MM-DD, inclusive; empty for no bound
+    toDate: string;
+    status: RecordStatus | 'all';
+    kind: DocumentKind | 'all';
+}
+
+export const DEFAULT_NUMBERING: NumberingSettings = {
+    estimatePrefix: 'EST',
+    invoicePrefix: 'INV',
+    digits: 4,
+};
+
+export const RECORD_STATUS_LABELS: Record<RecordStatus, string> = {
+    draft: 'Draft',
+    quoted: 'Quoted',
+    converted: 'Converted',
+    cancelled: 'Cancelled',
+};
+
+export const DOCUMENT_KIND_LABELS: Record<DocumentKind, string> = {
+    estimate: 'Estimate',
+    invoice: 'Invoice',
+};
+
+// Indian financial year, April to March, e.g. "2026-27"
+export const getFinancialYear = (date: Date): string => {
+    const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+    return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+};
+
+// Sequences restart at 1 for each kind in each financial year
+export const getNextSequence = (records: RegisterRecord[], kind: DocumentKind, financialYear: string): number =>
+    records
+        .filter(record => record.kind === kind && record.financialYear === financialYear)
+        .reduce((max, record) => Math.max(max, record.sequence), 0) + 1;
+
+export const formatRecordNumber = (prefix: string, financialYear: string, sequence: number, digits: number): string =>
+    `${prefix}/${financialYear}/${String(sequence).padStart(digits, '0')}`;
+
+export const createRecord = (records: RegisterRecord[], draft: RecordDraft, numbering: NumberingSettings, now: Date): RegisterRecord => {
+    const financialYear = getFinancialYear(now);
+    const sequence = getNextSequence(records, draft.kind, financialYear);
+    const prefix = draft.kind === 'estimate' ? numbering.estimatePrefix : numbering.invoicePrefix;
+    const timestamp = now.toISOString();
+
+    return {
+        ...draft,
+        // The time keeps ids apart when numbering is reset and a number is issued again
+        id: `${draft.kind}-${financialYear}-${sequence}-${now.getTime()}`,
+        number: formatRecordNumber(prefix, financialYear, sequence, numbering.digits),
+        sequence,
+        financialYear,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+    };
+};
+
+export const filterRecords = (records: RegisterRecord[], filter: RegisterFilter): RegisterRecord[] => {
+    const query = filter.query.trim().toLowerCase();
+    return records.filter(record => {
+        const day = toDateKey(new Date(record.createdAt));
+        if (filter.fromDate && day < filter.fromDate) return false;
+        if (filter.toDate && day > filter.toDate) return false;
+        if (filter.status !== 'all' && record.status !== filter.status) return false;
+        if (filter.kind !== 'all' && record.kind !== filter.kind) return false;
+        if (!query) return true;
+        return [record.number, record.customerName, record.customerPhone].some(value => value.toLowerCase().includes(query));
+    });
+};
+
+export const toEstimateDocument = (record: RegisterRecord): EstimateDocument => ({
+    ...record.snapshot,
+    kind: record.kind,
+    number: record.number,
+    date: new Date(record.createdAt).toLocaleDateString('en-IN'),
+    customerName: record.customerName,
+    customerPhone: record.customerPhone,
+});
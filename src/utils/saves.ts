@@ -0,0 +1,58 @@
+import { calculateResult, MakingChargeType, Metal, parseMakingCharge, parseStones, ResultDetail, StoneInput } from './pricing';
+import { getPurityFactor, PurityCatalogue } from './purity';
+import { DailyRates, getPurityRate } from './rates';
+import { toGrams, WEIGHT_UNITS, WeightUnit } from './units';
+
+// Each metal keeps its own list of saved calculations
+export const getSavesKey = (metal: Metal): string => `${metal}CalculatorSaves`;
+
+export interface CalculationParams {
+    id: string;
+    price: string;
+    weight: string;
+    weightUnit?: WeightUnit;   // Unit the gross weight was entered in; grams when absent
+    stoneWeight?: string;
+    stones?: StoneInput[];
+    purity: string;
+    minPercent: string;
+    maxPercent: string;
+    wastageStep?: string;
+    selectedPercent?: number;
+    makingChargeType?: MakingChargeType;
+    makingCharge?: string;
+    rates?: DailyRates;     // Rate board the price was taken from; absent when typed by hand
+    customerId?: string;    // Directory customer the quote was saved for
+}
+
+// Saves made before the metals shared one calculator named these fields after the metal
+export type StoredCalculation = Omit<CalculationParams, 'price' | 'weight'>
+    & Partial<Record<'price' | 'weight' | 'goldPrice' | 'goldWeight' | 'silverPrice' | 'silverWeight', string>>;
+
+export const readCalculation = ({ price, weight, goldPrice, goldWeight, silverPrice, silverWeight, ...params }: StoredCalculation): CalculationParams => ({
+    ...params,
+    price: price ?? goldPrice ?? silverPrice ?? '',
+    weight: weight ?? goldWeight ?? silverWeight ?? '',
+});
+
+// Weight as it was entered, e.g. "10g" or "2 pavan"
+export const describeSavedWeight = ({ weight, weightUnit }: Pick<CalculationParams, 'weight' | 'weightUnit'>): string =>
+    weightUnit && weightUnit !== 'gram' ? `${weight} ${WEIGHT_UNITS[weightUnit].label}` : `${weight}g`;
+
+// Breakdown at the selected wastage, or at the minimum when none was selected
+export const calculateResultFromParams = (params: CalculationParams, metal: Metal, catalogue: PurityCatalogue): ResultDetail => {
+    const percent = params.selectedPercent !== undefined ? params.selectedPercent : parseFloat(params.minPercent);
+
+    return calculateResult({
+        purityFactor: getPurityFactor(catalogue, metal, params.purity),
+        rate: parseFloat(params.price),
+        purityRate: getPurityRate(params.rates, metal, params.purity),
+        weight: toGrams(parseFloat(params.weight), params.weightUnit ?? 'gram'),
+        stoneWeight: parseFloat(params.stoneWeight ?? '') || 0,
+        stones: parseStones(params.stones),
+        makingCharge: parseMakingCharge(params.makingChargeType, params.makingCharge),
+    }, percent);
+};
+
+// Helper function to calculate total price from saved calculation parameters
+export const calculateTotalFromParams = (params: CalculationParams, metal: Metal, catalogue: PurityCatalogue): number =>
+    calculateResultFromParams(params, metal, catalogue).total;
@@ -0,0 +1,26 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { downloadFile, DOWNLOAD_URL_LIFETIME_MS } from './share';
+
+describe('downloadFile', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('clicks a link to the file and only revokes it once the download has had time to start', () => {
+        vi.useFakeTimers();
+        URL.createObjectURL = vi.fn(() => 'blob:file');
+        URL.revokeObjectURL = vi.fn();
+        const clicked: string[] = [];
+        vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+            clicked.push(`${this.download} ${this.href}`);
+        });
+
+        downloadFile('backup.json', new Blob(['{}']));
+
+        expect(clicked).toEqual(['backup.json blob:file']);
+        expect(URL.revokeObjectURL).not.toHaveBeenCalled();
+        vi.advanceTimersByTime(DOWNLOAD_URL_LIFETIME_MS);
+        expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:file');
+    });
+});
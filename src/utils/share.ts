@@ -0,0 +1,57 @@
+import { getWhatsAppLink } from './customers';
+
+// Shares text through the native share sheet, falling back to the clipboard
+export const shareText = async (title: string, text: string) => {
+    if (navigator.share) {
+        try {
+            await navigator.share({ title, text });
+        } catch (err) {
+            if ((err as Error).name !== 'AbortError') {
+                console.error('Error sharing:', err);
+            }
+        }
+    } else {
+        // Fallback: Copy to clipboard
+        try {
+            await navigator.clipboard.writeText(text);
+            alert('Price breakdown copied to clipboard!');
+        } catch (err) {
+            console.error('Error copying to clipboard:', err);
+            alert('Unable to share. Please try again.');
+        }
+    }
+};
+
+// Shares files through the native share sheet where the browser can, otherwise saves them to downloads.
+// A share the browser refuses, e.g. NotAllowedError once the tap has expired while the file was made, also
+// falls back to downloads. Resolves false only when the customer closed the share sheet without sharing
+export const shareFiles = async (title: string, files: File[]): Promise<boolean> => {
+    if (navigator.canShare?.({ files })) {
+        try {
+            await navigator.share({ title, files });
+            return true;
+        } catch (err) {
+            if ((err as Error).name === 'AbortError') return false;
+        }
+    }
+    files.forEach(file => downloadFile(file.name, file));
+    return true;
+};
+
+// Opens a WhatsApp chat with the customer, the text already typed in
+export const shareOnWhatsApp = (phone: string, text: string) => {
+    window.open(getWhatsAppLink(phone, text), '_blank', 'noopener');
+};
+
+// Safari and Android WebView start a download after the click returns, so the link has to outlive it
+export const DOWNLOAD_URL_LIFETIME_MS = 40_000;
+
+// Saves a file to the phone's downloads through a temporary link
+export const downloadFile = (fileName: string, blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+};
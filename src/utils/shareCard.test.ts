@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { EstimateDocument } from './estimate';
+import { getCardLines, getShareFileName } from './shareCard';
+
+const estimate: EstimateDocument = {
+    kind: 'estimate',
+    number: 'EST/2026-27/0001',
+    date: '19/10/2026',
+    customerName: 'Lakshmi',
+    customerPhone: '',
+    title: 'Gold Price Breakdown',
+    details: [{ label: 'Gold Type', value: '916 (22 Karat)' }],
+    lines: [
+        { label: 'Gold Value', amount: 66240, note: '10.000 grams × ₹6,624.00/gram' },
+        { label: 'Wastage Charges', amount: 5760 },
+    ],
+    subtotal: 72000,
+    taxLines: [{ label: 'CGST (1.5%)', amount: 1080 }, { label: 'SGST (1.5%)', amount: 1080 }],
+    discount: 160,
+    total: 74000,
+};
+
+describe('getCardLines', () => {
+    it('lists the estimate number, breakdown and total in print order', () => {
+        expect(getCardLines(estimate)).toEqual([
+            { style: 'strong', label: 'Estimate No:', value: 'EST/2026-27/0001' },
+            { style: 'row', label: 'Date:', value: '19/10/2026' },
+            { style: 'row', label: 'Customer:', value: 'Lakshmi' },
+            { style: 'section', label: 'Item Details' },
+            { style: 'row', label: 'Gold Type:', value: '916 (22 Karat)' },
+            { style: 'section', label: 'Price Calculation' },
+            { style: 'row', label: 'Gold Value', value: '₹66,240.00' },
+            { style: 'note', label: '10.000 grams × ₹6,624.00/gram' },
+            { style: 'row', label: 'Wastage Charges', value: '₹5,760.00' },
+            { style: 'rule', label: '' },
+            { style: 'row', label: 'Subtotal:', value: '₹72,000.00' },
+            { style: 'row', label: 'CGST (1.5%):', value: '₹1,080.00' },
+            { style: 'row', label: 'SGST (1.5%):', value: '₹1,080.00' },
+            { style: 'row', label: 'Less: Discount', value: '- ₹160.00' },
+            { style: 'total', label: 'Total Amount:', value: '₹74,000.00' },
+        ]);
+    });
+
+    it('shows the invoice number and the exchange balance when there is one', () => {
+        const lines = getCardLines({
+            ...estimate,
+            kind: 'invoice',
+            number: 'INV/2026-27/0001',
+            exchange: { label: 'Old Gold (5g)', value: 30000, balanceLabel: 'Balance to Pay', balance: 44000 },
+        });
+        expect(lines[0]).toEqual({ style: 'strong', label: 'Invoice No:', value: 'INV/2026-27/0001' });
+        expect(lines.slice(-2)).toEqual([
+            { style: 'row', label: 'Less: Old Gold (5g)', value: '- ₹30,000.00' },
+            { style: 'strong', label: 'Balance to Pay:', value: '₹44,000.00' },
+        ]);
+    });
+});
+
+describe('getShareFileName', () => {
+    it('names the file after the register number', () => {
+        expect(getShareFileName(estimate, 'png')).toBe('NL-Jewellers-EST-2026-27-0001.png');
+        expect(getShareFileName(estimate, 'pdf')).toBe('NL-Jewellers-EST-2026-27-0001.pdf');
+    });
+});
@@ -0,0 +1,193 @@
+import { ESTIMATE_TERMS, EstimateDocument } from './estimate';
+import { formatCurrency } from './format';
+import { createImagePdf } from './pdf';
+
+export type ShareFormat = 'png' | 'pdf';
+
+export type CardLineStyle = 'section' | 'row' | 'strong' | 'note' | 'rule' | 'total';
+
+// One line of the share card, top to bottom below the header
+export interface CardLine {
+    style: CardLineStyle;
+    label: string;
+    value?: string;
+}
+
+export const SHARE_FORMAT_LABELS: Record<ShareFormat, string> = {
+    png: 'Image',
+    pdf: 'PDF',
+};
+
+const CARD_WIDTH = 1080;
+const PADDING = 64;
+const HEADER_HEIGHT = 230;
+const FOOTER_HEIGHT = 150;
+
+const LINE_HEIGHTS: Record<CardLineStyle, number> = {
+    section: 84,
+    row: 50,
+    strong: 54,
+    note: 38,
+    rule: 32,
+    total: 84,
+};
+
+const COLORS = {
+    ivory: '#FFF8E7',
+    gold: '#D4AF37',
+    maroon: '#800000',
+    text: '#222222',
+    muted: '#666666',
+};
+
+const SERIF = '\'Playfair Display\', serif';
+const SANS = '\'Poppins\', sans-serif';
+
+// The same rows the printed estimate has, in the same order
+export const getCardLines = (estimate: EstimateDocument): CardLine[] => [
+    { style: 'strong', label: estimate.kind === 'invoice' ? 'Invoice No:' : 'Estimate No:', value: estimate.number },
+    { style: 'row', label: 'Date:', value: estimate.date },
+    ...(estimate.customerName ? [{ style: 'row' as const, label: 'Customer:', value: estimate.customerName }] : []),
+    ...(estimate.customerPhone ? [{ style: 'row' as const, label: 'Phone:', value: estimate.customerPhone }] : []),
+    { style: 'section', label: 'Item Details' },
+    ...estimate.details.map(detail => ({ style: 'row' as const, label: `${detail.label}:`, value: detail.value })),
+    { style: 'section', label: 'Price Calculation' },
+    ...estimate.lines.flatMap(line => [
+        { style: 'row' as const, label: line.label, value: formatCurrency(line.amount) },
+        ...(line.note ? [{ style: 'note' as const, label: line.note }] : []),
+    ]),
+    { style: 'rule', label: '' },
+    ...(estimate.taxLines.length > 0
+        ? [
+            { style: 'row' as const, label: 'Subtotal:', value: formatCurrency(estimate.subtotal) },
+            ...estimate.taxLines.map(line => ({ style: 'row' as const, label: `${line.label}:`, value: formatCurrency(line.amount) })),
+        ]
+        : []),
+    ...(estimate.discount ? [{ style: 'row' as const, label: 'Less: Discount', value: `- ${formatCurrency(estimate.discount)}` }] : []),
+    { style: 'total', label: 'Total Amount:', value: formatCurrency(estimate.total) },
+    ...(estimate.exchange
+        ? [
+            { style: 'row' as const, label: `Less: ${estimate.exchange.label}`, value: `- ${formatCurrency(estimate.exchange.value)}` },
+            { style: 'strong' as const, label: `${estimate.exchange.balanceLabel}:`, value: formatCurrency(Math.abs(estimate.exchange.balance)) },
+        ]
+        : []),
+];
+
+// "NL-Jewellers-EST-2026-27-0001.png"; slashes are not allowed in file names
+export const getShareFileName = (estimate: EstimateDocument, format: ShareFormat): string =>
+    `NL-Jewellers-${estimate.number.replace(/\//g, '-')}.${format}`;
+
+// Draws the estimate as a branded card, one phone screen wide
+export const drawEstimateCard = (estimate: EstimateDocument): HTMLCanvasElement => {
+    const lines = getCardLines(estimate);
+    const canvas = document.createElement('canvas');
+    canvas.width = CARD_WIDTH;
+    canvas.height = HEADER_HEIGHT + lines.reduce((sum, line) => sum + LINE_HEIGHTS[line.style], 0) + FOOTER_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Drawing is not supported on this device');
+
+    const right = CARD_WIDTH - PADDING;
+    const contentWidth = right - PADDING;
+
+    // Background and border
+    ctx.fillStyle = COLORS.ivory;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.strokeStyle = COLORS.gold;
+    ctx.lineWidth = 6;
+    ctx.strokeRect(3, 3, canvas.width - 6, canvas.height - 6);
+
+    // Header
+    const header = ctx.createLinearGradient(0, 0, CARD_WIDTH, 0);
+    header.addColorStop(0, '#800000');
+    header.addColorStop(1, '#990000');
+    ctx.fillStyle = header;
+    ctx.fillRect(6, 6, CARD_WIDTH - 12, HEADER_HEIGHT - 40);
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = COLORS.gold;
+    ctx.font = `bold 76px ${SERIF}`;
+    ctx.fillText('NL JEWELLERS', CARD_WIDTH / 2, 90, contentWidth);
+    ctx.fillStyle = 'rgba(255, 248, 231, 0.9)';
+    ctx.font = `36px ${SANS}`;
+    ctx.fillText(estimate.title, CARD_WIDTH / 2, 160, contentWidth);
+
+    // Label on the left, value on the right; a long label is squeezed rather than run into its value
+    const drawRow = (label: string, value: string, y: number, font: string, color: string) => {
+        ctx.font = font;
+        ctx.fillStyle = color;
+        ctx.textAlign = 'right';
+        ctx.fillText(value, right, y);
+        const valueWidth = Math.min(ctx.measureText(value).width, contentWidth / 2);
+        ctx.textAlign = 'left';
+        ctx.fillText(label, PADDING, y, contentWidth - valueWidth - 24);
+    };
+
+    let top = HEADER_HEIGHT;
+    for (const line of lines) {
+        const height = LINE_HEIGHTS[line.style];
+        const middle = top + height / 2;
+        switch (line.style) {
+            case 'section':
+                ctx.fillStyle = COLORS.maroon;
+                ctx.font = `bold 38px ${SERIF}`;
+                ctx.textAlign = 'left';
+                ctx.fillText(line.label, PADDING, middle + 8, contentWidth);
+                ctx.fillStyle = COLORS.gold;
+                ctx.fillRect(PADDING, top + height - 10, contentWidth, 3);
+                break;
+            case 'row':
+                drawRow(line.label, line.value ?? '', middle, `32px ${SANS}`, COLORS.text);
+                break;
+            case 'strong':
+                drawRow(line.label, line.value ?? '', middle, `bold 34px ${SANS}`, COLORS.text);
+                break;
+            case 'note':
+                ctx.fillStyle = COLORS.muted;
+                ctx.font = `26px ${SANS}`;
+                ctx.textAlign = 'left';
+                ctx.fillText(line.label, PADDING + 24, middle - 6, contentWidth - 24);
+                break;
+            case 'rule':
+                ctx.fillStyle = COLORS.gold;
+                ctx.fillRect(PADDING, middle - 1, contentWidth, 2);
+                break;
+            case 'total':
+                ctx.fillStyle = 'rgba(212, 175, 55, 0.2)';
+                ctx.fillRect(PADDING - 16, top + 8, contentWidth + 32, height - 16);
+                drawRow(line.label, line.value ?? '', middle, `bold 44px ${SANS}`, COLORS.maroon);
+                break;
+        }
+        top += height;
+    }
+
+    // Footer
+    ctx.textAlign = 'center';
+    ctx.fillStyle = COLORS.muted;
+    ctx.font = `24px ${SANS}`;
+    if (estimate.kind === 'estimate') ctx.fillText(ESTIMATE_TERMS[0], CARD_WIDTH / 2, top + 50, contentWidth);
+    ctx.fillStyle = COLORS.maroon;
+    ctx.font = `bold 30px ${SERIF}`;
+    ctx.fillText('Thank you for visiting NL Jewellers', CARD_WIDTH / 2, top + 100, contentWidth);
+
+    return canvas;
+};
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+    new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Unable to create the image'))), type, quality);
+    });
+
+// The card as a PNG, or as a one-page PDF holding it; both are made on the phone, nothing is uploaded
+export const renderEstimateFile = async (estimate: EstimateDocument, format: ShareFormat): Promise<File> => {
+    // The card uses the app's web fonts, which may still be loading on a first visit
+    await document.fonts?.ready;
+    const canvas = drawEstimateCard(estimate);
+    const fileName = getShareFileName(estimate, format);
+
+    if (format === 'png') {
+        return new File([await toBlob(canvas, 'image/png')], fileName, { type: 'image/png' });
+    }
+    // JPEG keeps the PDF small and can be embedded without re-encoding
+    const jpeg = new Uint8Array(await (await toBlob(canvas, 'image/jpeg', 0.92)).arrayBuffer());
+    return new File([createImagePdf(jpeg, canvas.width, canvas.height)], fileName, { type: 'application/pdf' });
+};
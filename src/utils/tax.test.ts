@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { calculateResult } from './pricing';
+import { calculateTax, DEFAULT_TAX_SETTINGS, getTaxLines, TaxSettings } from './tax';
+
+const plain = calculateResult({ purityFactor: 0.92, rate: 7200, weight: 10 }, 8);
+const withMaking = calculateResult({ purityFactor: 0.92, rate: 7200, weight: 10, makingCharge: { type: 'flat', value: 1000 } }, 8);
+
+describe('calculateTax', () => {
+    it('charges 3% on metal and splits it into CGST + SGST by default', () => {
+        const tax = calculateTax(plain, DEFAULT_TAX_SETTINGS);
+        expect(tax.metalTax).toBeCloseTo(2160, 6);
+        expect(tax.makingTax).toBe(0);
+        expect(tax.cgst).toBeCloseTo(1080, 6);
+        expect(tax.sgst).toBeCloseTo(1080, 6);
+        expect(tax.igst).toBe(0);
+        expect(tax.grandTotal).toBeCloseTo(74160, 6);
+    });
+
+    it('taxes making charges at their own rate', () => {
+        const tax = calculateTax(withMaking, DEFAULT_TAX_SETTINGS);
+        expect(tax.metalTax).toBeCloseTo(2160, 6);
+        expect(tax.makingTax).toBeCloseTo(50, 6);
+        expect(tax.totalTax).toBeCloseTo(2210, 6);
+        expect(tax.grandTotal).toBeCloseTo(75210, 6);
+    });
+
+    it('charges the whole amount as IGST for inter-state supply', () => {
+        const tax = calculateTax(withMaking, { ...DEFAULT_TAX_SETTINGS, supplyType: 'interState' });
+        expect(tax.cgst).toBe(0);
+        expect(tax.sgst).toBe(0);
+        expect(tax.igst).toBeCloseTo(2210, 6);
+    });
+
+    it('leaves the total untouched when disabled', () => {
+        const tax = calculateTax(withMaking, { ...DEFAULT_TAX_SETTINGS, enabled: false });
+        expect(tax.totalTax).toBe(0);
+        expect(tax.grandTotal).toBe(withMaking.total);
+    });
+});
+
+describe('getTaxLines', () => {
+    const interState: TaxSettings = { ...DEFAULT_TAX_SETTINGS, supplyType: 'interState' };
+
+    it('labels half rates for CGST and SGST', () => {
+        expect(getTaxLines(calculateTax(plain, DEFAULT_TAX_SETTINGS), DEFAULT_TAX_SETTINGS).map(l => l.label))
+            .toEqual(['CGST (1.5%)', 'SGST (1.5%)']);
+    });
+
+    it('mentions the making rate only when making was taxed', () => {
+        expect(getTaxLines(calculateTax(withMaking, interState), interState).map(l => l.label))
+            .toEqual(['IGST (3% metal, 5% making)']);
+    });
+
+    it('returns no lines when disabled', () => {
+        const off = { ...DEFAULT_TAX_SETTINGS, enabled: false };
+        expect(getTaxLines(calculateTax(plain, off), off)).toEqual([]);
+    });
+});
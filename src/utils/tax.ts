@@ -0,0 +1,79 @@
+import { ResultDetail } from './pricing';
+
+// Intra-state sales split GST equally into CGST + SGST; inter-state sales charge IGST
+export type SupplyType = 'intraState' | 'interState';
+
+export interface TaxSettings {
+    enabled: boolean;
+    metalRate: number;     // GST % on goods value (purity + wastage + stones)
+    makingRate: number;    // GST % on making charges
+    supplyType: SupplyType;
+}
+
+export interface TaxBreakdown {
+    metalTax: number;
+    makingTax: number;
+    cgst: number;
+    sgst: number;
+    igst: number;
+    totalTax: number;
+    grandTotal: number;
+}
+
+export interface TaxLine {
+    label: string;
+    amount: number;
+}
+
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+    enabled: true,
+    metalRate: 3,
+    makingRate: 5,
+    supplyType: 'intraState',
+};
+
+export const SUPPLY_TYPE_LABELS: Record<SupplyType, string> = {
+    intraState: 'Intra-state (CGST + SGST)',
+    interState: 'Inter-state (IGST)',
+};
+
+export const calculateTax = (result: ResultDetail, settings: TaxSettings): TaxBreakdown => {
+    if (!settings.enabled) {
+        return { metalTax: 0, makingTax: 0, cgst: 0, sgst: 0, igst: 0, totalTax: 0, grandTotal: result.total };
+    }
+
+    const metalTax = (result.purityValue + result.wastageValue + result.stoneValue) * settings.metalRate / 100;
+    const makingTax = result.makingCharge * settings.makingRate / 100;
+    const totalTax = metalTax + makingTax;
+    const isIntraState = settings.supplyType === 'intraState';
+
+    return {
+        metalTax,
+        makingTax,
+        cgst: isIntraState ? totalTax / 2 : 0,
+        sgst: isIntraState ? totalTax / 2 : 0,
+        igst: isIntraState ? 0 : totalTax,
+        totalTax,
+        grandTotal: result.total + totalTax,
+    };
+};
+
+const formatRate = (rate: number) => `${+rate.toFixed(2)}%`;
+
+// Labelled CGST/SGST or IGST lines; the rate shows the making component only when it was taxed
+export const getTaxLines = (tax: TaxBreakdown, settings: TaxSettings): TaxLine[] => {
+    if (!settings.enabled) return [];
+
+    const divisor = settings.supplyType === 'intraState' ? 2 : 1;
+    const rates = tax.makingTax > 0
+        ? `${formatRate(settings.metalRate / divisor)} metal, ${formatRate(settings.makingRate / divisor)} making`
+        : formatRate(settings.metalRate / divisor);
+
+    if (settings.supplyType === 'intraState') {
+        return [
+            { label: `CGST (${rates})`, amount: tax.cgst },
+            { label: `SGST (${rates})`, amount: tax.sgst },
+        ];
+    }
+    return [{ label: `IGST (${rates})`, amount: tax.igst }];
+};
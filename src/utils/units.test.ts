@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { describeInUnit, formatInUnit, fromGrams, toGrams } from './units';
+
+describe('toGrams', () => {
+    it('converts each traditional unit to grams', () => {
+        expect(toGrams(2, 'pavan')).toBe(16);
+        expect(toGrams(1, 'tola')).toBe(11.664);
+        expect(toGrams(16, 'ana')).toBe(11.664);
+        expect(toGrams(3, 'ana')).toBe(2.187);
+        expect(toGrams(12.5, 'gram')).toBe(12.5);
+    });
+
+    it('rounds to the milligram', () => {
+        expect(toGrams(1.2345, 'tola')).toBe(14.399);
+    });
+});
+
+describe('fromGrams', () => {
+    it('converts grams back to the unit', () => {
+        expect(fromGrams(16, 'pavan')).toBe(2);
+        expect(fromGrams(11.664, 'tola')).toBe(1);
+        expect(fromGrams(11.664, 'ana')).toBe(16);
+    });
+});
+
+describe('formatInUnit', () => {
+    it('prints up to three decimals with the unit name', () => {
+        expect(formatInUnit(16, 'pavan')).toBe('2 pavan');
+        expect(formatInUnit(10, 'tola')).toBe('0.857 tola');
+        expect(formatInUnit(10, 'gram')).toBe('10 grams');
+    });
+});
+
+describe('describeInUnit', () => {
+    it('adds the chosen unit after a weight in grams', () => {
+        expect(describeInUnit(12, 'pavan')).toBe(' (1.5 pavan)');
+        expect(describeInUnit(12, 'gram')).toBe('');
+    });
+});
@@ -0,0 +1,30 @@
+// Traditional Indian weights alongside grams. Pricing always works in grams;
+// these only change how a weight is entered and shown.
+export type WeightUnit = 'gram' | 'tola' | 'pavan' | 'ana';
+
+export interface WeightUnitDefinition {
+    name: string;      // Shown in the unit selector
+    label: string;     // Shown after a quantity, e.g. "2 pavan"
+    grams: number;     // Grams in one unit
+}
+
+export const WEIGHT_UNITS: Record<WeightUnit, WeightUnitDefinition> = {
+    gram: { name: 'Grams', label: 'grams', grams: 1 },
+    tola: { name: 'Tola (11.664 g)', label: 'tola', grams: 11.664 },
+    pavan: { name: 'Pavan / Sovereign (8 g)', label: 'pavan', grams: 8 },
+    ana: { name: 'Ana (1/16 tola)', label: 'ana', grams: 11.664 / 16 },
+};
+
+// Scales read to the milligram, so converted weights are rounded to it
+export const toGrams = (value: number, unit: WeightUnit): number =>
+    +(value * WEIGHT_UNITS[unit].grams).toFixed(3);
+
+export const fromGrams = (grams: number, unit: WeightUnit): number => grams / WEIGHT_UNITS[unit].grams;
+
+// Up to three decimals, trailing zeros dropped, e.g. "1.5 tola"
+export const formatInUnit = (grams: number, unit: WeightUnit): string =>
+    `${+fromGrams(grams, unit).toFixed(3)} ${WEIGHT_UNITS[unit].label}`;
+
+// Suffix for a weight already printed in grams, e.g. " (2 pavan)"; empty when the unit is grams
+export const describeInUnit = (grams: number, unit: WeightUnit): string =>
+    unit === 'gram' ? '' : ` (${formatInUnit(grams, unit)})`;